@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { activateCategoryRuleset, getCategoryRuleset } from '@/lib/categoryRules';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { version: string };
+}
+
+/**
+ * Validate the cron secret (admin routes share CRON_SECRET)
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const cronSecret = request.headers.get('x-cron-secret');
+  const expectedSecret = process.env.CRON_SECRET;
+  // Without a configured secret, "Bearer undefined" or a missing header would match
+  if (!expectedSecret) return false;
+  const authHeader = request.headers.get('authorization');
+  const isVercelCron = authHeader === `Bearer ${expectedSecret}`;
+
+  return cronSecret === expectedSecret || isVercelCron;
+}
+
+/**
+ * GET /api/admin/category-rules/:version
+ * 
+ * Returns a ruleset (built-in or stored).
+ * 
+ * Security: Protected by CRON_SECRET
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing cron secret' },
+      { status: 401 }
+    );
+  }
+
+  const { data, error } = await getCategoryRuleset(params.version);
+
+  if (error) {
+    console.error(`[/api/admin/category-rules/${params.version}] Get error:`, error);
+    return NextResponse.json(
+      { ok: false, error: 'Failed to load ruleset', details: error },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json({ ok: false, error: 'Ruleset not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true, ruleset: data });
+}
+
+/**
+ * PATCH /api/admin/category-rules/:version
+ * 
+ * Activates a ruleset: { "active": true }. Ingestion uses it from the next
+ * run; stored articles keep their labels until /api/recategorize runs.
+ * Activating the built-in version deactivates all stored rulesets.
+ * 
+ * Security: Protected by CRON_SECRET
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing cron secret' },
+      { status: 401 }
+    );
+  }
+
+  let input: { active?: boolean };
+  try {
+    input = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (input.active !== true) {
+    return NextResponse.json(
+      { ok: false, error: 'Only { "active": true } is supported - activate another version to switch' },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await activateCategoryRuleset(params.version);
+
+  if (error) {
+    console.error(`[/api/admin/category-rules/${params.version}] Activate error:`, error);
+    const status = error.includes('not found') ? 404 : 500;
+    return NextResponse.json(
+      { ok: false, error: 'Failed to activate ruleset', details: error },
+      { status }
+    );
+  }
+
+  console.log(`[/api/admin/category-rules] Activated ruleset ${params.version}`);
+  return NextResponse.json({ ok: true, activeVersion: params.version, ruleset: data });
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getActiveCategoryRuleset,
+  listCategoryRulesets,
+  saveCategoryRuleset,
+  validateCategoryRuleset,
+} from '@/lib/categoryRules';
+import { DEFAULT_CATEGORY_RULESET } from '@/lib/categorize';
+import { CategoryRuleset } from '@/types/article';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Validate the cron secret (admin routes share CRON_SECRET)
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const cronSecret = request.headers.get('x-cron-secret');
+  const expectedSecret = process.env.CRON_SECRET;
+  // Without a configured secret, "Bearer undefined" or a missing header would match
+  if (!expectedSecret) return false;
+  const authHeader = request.headers.get('authorization');
+  const isVercelCron = authHeader === `Bearer ${expectedSecret}`;
+
+  return cronSecret === expectedSecret || isVercelCron;
+}
+
+/**
+ * GET /api/admin/category-rules
+ * 
+ * Lists stored categorization rulesets (newest first) plus the active and
+ * built-in versions.
+ * 
+ * Security: Protected by CRON_SECRET
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing cron secret' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { data, error } = await listCategoryRulesets();
+
+    if (error) {
+      console.error('[/api/admin/category-rules] List error:', error);
+      return NextResponse.json(
+        { ok: false, error: 'Failed to list rulesets', details: error },
+        { status: 500 }
+      );
+    }
+
+    const active = await getActiveCategoryRuleset();
+
+    return NextResponse.json({
+      ok: true,
+      activeVersion: active.version,
+      builtInVersion: DEFAULT_CATEGORY_RULESET.version,
+      rulesets: data,
+      count: data.length,
+    });
+  } catch (err) {
+    console.error('[/api/admin/category-rules] Error:', err);
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/category-rules
+ * 
+ * Stores a new ruleset version. Body (JSON):
+ * { "ruleset": { "version": "2026-11-01.1", "categories": [...] },
+ *   "activate": false, "notes": "..." }
+ * 
+ * Versions are immutable. Check the effect with /api/recategorize/dry-run
+ * before activating; then run /api/recategorize to relabel stored articles.
+ * 
+ * Security: Protected by CRON_SECRET
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing cron secret' },
+      { status: 401 }
+    );
+  }
+
+  let input: { ruleset?: unknown; activate?: boolean; notes?: string };
+  try {
+    input = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const validationError = validateCategoryRuleset(input.ruleset);
+  if (validationError) {
+    return NextResponse.json({ ok: false, error: validationError }, { status: 400 });
+  }
+
+  try {
+    const ruleset = input.ruleset as CategoryRuleset;
+    const { data, error } = await saveCategoryRuleset(ruleset, {
+      activate: input.activate === true,
+      notes: input.notes,
+    });
+
+    if (error) {
+      console.error('[/api/admin/category-rules] Create error:', error);
+      // Unique constraint on version
+      const status = error.includes('duplicate key') || error.includes('built-in') ? 409 : 500;
+      return NextResponse.json(
+        { ok: false, error: 'Failed to save ruleset', details: error },
+        { status }
+      );
+    }
+
+    console.log(`[/api/admin/category-rules] Saved ruleset ${ruleset.version} (active: ${data?.is_active})`);
+    return NextResponse.json({ ok: true, ruleset: data }, { status: 201 });
+  } catch (err) {
+    console.error('[/api/admin/category-rules] Error:', err);
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFeedRow, updateFeed, deleteFeed, validateFeedInput, FeedInput } from '@/lib/feeds';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * Validate the cron secret (admin routes share CRON_SECRET)
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const cronSecret = request.headers.get('x-cron-secret');
+  const expectedSecret = process.env.CRON_SECRET;
+  // Without a configured secret, "Bearer undefined" or a missing header would match
+  if (!expectedSecret) return false;
+  const authHeader = request.headers.get('authorization');
+  const isVercelCron = authHeader === `Bearer ${expectedSecret}`;
+
+  return cronSecret === expectedSecret || isVercelCron;
+}
+
+/**
+ * GET /api/admin/feeds/:id
+ * 
+ * Returns a single feed row.
+ * 
+ * Security: Protected by CRON_SECRET
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing cron secret' },
+      { status: 401 }
+    );
+  }
+
+  const { data, error } = await getFeedRow(params.id);
+
+  if (error) {
+    console.error(`[/api/admin/feeds/${params.id}] Get error:`, error);
+    return NextResponse.json(
+      { ok: false, error: 'Failed to load feed', details: error },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json({ ok: false, error: 'Feed not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true, feed: data });
+}
+
+/**
+ * PATCH /api/admin/feeds/:id
+ * 
+ * Partially updates a feed. Any FeedInput field may be sent.
+ * Enable/disable a feed with: { "enabled": true } or { "enabled": false }
+ * 
+ * Security: Protected by CRON_SECRET
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing cron secret' },
+      { status: 401 }
+    );
+  }
+
+  let input: FeedInput;
+  try {
+    input = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const validationError = validateFeedInput(input, true);
+  if (validationError) {
+    return NextResponse.json({ ok: false, error: validationError }, { status: 400 });
+  }
+
+  const { data, error } = await updateFeed(params.id, input);
+
+  if (error) {
+    console.error(`[/api/admin/feeds/${params.id}] Update error:`, error);
+    const status = error.includes('duplicate key') ? 409 : 500;
+    return NextResponse.json(
+      { ok: false, error: 'Failed to update feed', details: error },
+      { status }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json({ ok: false, error: 'Feed not found' }, { status: 404 });
+  }
+
+  console.log(`[/api/admin/feeds] Updated feed: ${data.name} (enabled: ${data.enabled})`);
+  return NextResponse.json({ ok: true, feed: data });
+}
+
+/**
+ * DELETE /api/admin/feeds/:id
+ * 
+ * Removes a feed from the registry. Prefer disabling a feed
+ * (PATCH { "enabled": false }) to keep its history.
+ * 
+ * Security: Protected by CRON_SECRET
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing cron secret' },
+      { status: 401 }
+    );
+  }
+
+  const { deleted, error } = await deleteFeed(params.id);
+
+  if (error) {
+    console.error(`[/api/admin/feeds/${params.id}] Delete error:`, error);
+    return NextResponse.json(
+      { ok: false, error: 'Failed to delete feed', details: error },
+      { status: 500 }
+    );
+  }
+
+  if (!deleted) {
+    return NextResponse.json({ ok: false, error: 'Feed not found' }, { status: 404 });
+  }
+
+  console.log(`[/api/admin/feeds] Deleted feed: ${params.id}`);
+  return NextResponse.json({ ok: true, deleted: params.id });
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listFeedRows, createFeed, validateFeedInput, FeedInput } from '@/lib/feeds';
+import { ArticleType, FeedMarket } from '@/types/article';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Validate the cron secret (admin routes share CRON_SECRET)
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const cronSecret = request.headers.get('x-cron-secret');
+  const expectedSecret = process.env.CRON_SECRET;
+  // Without a configured secret, "Bearer undefined" or a missing header would match
+  if (!expectedSecret) return false;
+  const authHeader = request.headers.get('authorization');
+  const isVercelCron = authHeader === `Bearer ${expectedSecret}`;
+
+  return cronSecret === expectedSecret || isVercelCron;
+}
+
+/**
+ * GET /api/admin/feeds
+ * 
+ * Lists every feed in the registry (including disabled feeds).
+ * 
+ * Query params:
+ * - enabled: 'true' or 'false' to filter by enabled state
+ * - market: 'US', 'MZ' or 'QA'
+ * - type: 'policy' or 'finance'
+ * 
+ * Security: Protected by CRON_SECRET
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing cron secret' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const enabledParam = searchParams.get('enabled');
+    const market = searchParams.get('market')?.toUpperCase() as FeedMarket | undefined;
+    const articleType = (searchParams.get('type') || undefined) as ArticleType | undefined;
+
+    const { data, error } = await listFeedRows({
+      enabled: enabledParam === null ? undefined : enabledParam === 'true',
+      market,
+      articleType,
+    });
+
+    if (error) {
+      console.error('[/api/admin/feeds] List error:', error);
+      return NextResponse.json(
+        { ok: false, error: 'Failed to list feeds', details: error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      feeds: data,
+      count: data.length,
+    });
+  } catch (err) {
+    console.error('[/api/admin/feeds] Error:', err);
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/feeds
+ * 
+ * Creates a feed. Body (JSON):
+ * { "name": "...", "url": "...", "enabled": false, "articleType": "policy",
+ *   "market": "US", "region": "US", "trustTier": "trade", "notes": "..." }
+ * 
+ * Only name and url are required. New feeds default to disabled.
+ * 
+ * Security: Protected by CRON_SECRET
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing cron secret' },
+      { status: 401 }
+    );
+  }
+
+  let input: FeedInput;
+  try {
+    input = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const validationError = validateFeedInput(input);
+  if (validationError) {
+    return NextResponse.json({ ok: false, error: validationError }, { status: 400 });
+  }
+
+  try {
+    const { data, error } = await createFeed(input);
+
+    if (error) {
+      console.error('[/api/admin/feeds] Create error:', error);
+      // Unique constraint on name
+      const status = error.includes('duplicate key') ? 409 : 500;
+      return NextResponse.json(
+        { ok: false, error: 'Failed to create feed', details: error },
+        { status }
+      );
+    }
+
+    console.log(`[/api/admin/feeds] Created feed: ${data?.name}`);
+    return NextResponse.json({ ok: true, feed: data }, { status: 201 });
+  } catch (err) {
+    console.error('[/api/admin/feeds] Error:', err);
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
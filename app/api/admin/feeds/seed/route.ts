@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { seedFeeds, SEED_FEED_SOURCES } from '@/lib/feeds';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/admin/feeds/seed
+ * 
+ * Inserts the built-in seed feeds from lib/feeds.ts into the `feeds` table.
+ * Feeds that already exist (by name) are left untouched, so this is safe
+ * to re-run after adding new seed entries.
+ * 
+ * Security: Protected by CRON_SECRET
+ */
+export async function POST(request: NextRequest) {
+  const cronSecret = request.headers.get('x-cron-secret');
+  const expectedSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+  const isVercelCron = authHeader === `Bearer ${expectedSecret}`;
+
+  // Without a configured secret, "Bearer undefined" or a missing header would match
+  if (!expectedSecret || (cronSecret !== expectedSecret && !isVercelCron)) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing cron secret' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { inserted, error } = await seedFeeds();
+
+    if (error) {
+      console.error('[/api/admin/feeds/seed] Seed error:', error);
+      return NextResponse.json(
+        { ok: false, error: 'Failed to seed feeds', details: error },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[/api/admin/feeds/seed] Inserted ${inserted} seed feeds`);
+    return NextResponse.json({
+      ok: true,
+      inserted,
+      existing: SEED_FEED_SOURCES.length - inserted,
+    });
+  } catch (err) {
+    console.error('[/api/admin/feeds/seed] Error:', err);
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -17,7 +17,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  const feeds = getEnabledFeeds();
+  const feeds = await getEnabledFeeds();
   const results = [];
 
   for (const feed of feeds) {
@@ -99,10 +99,13 @@ export async function GET(request: NextRequest) {
       const result = await scrapeArticleImage(article.link);
 
       if (result.success && result.imageUrl) {
-        // Update the article with the found image URL
+        // Update the article with the found image URL (and the page's canonical URL)
         const { error: updateError } = await supabase
           .from('articles')
-          .update({ image_url: result.imageUrl })
+          .update({
+            image_url: result.imageUrl,
+            ...(result.canonicalUrl && { canonical_url: result.canonicalUrl }),
+          })
           .eq('id', article.id);
 
         if (updateError) {
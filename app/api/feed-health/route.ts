@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllFeeds } from '@/lib/feeds';
+import { getFeedFetchStates } from '@/lib/feedState';
+import { FeedHealthStatus } from '@/types/article';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/feed-health
+ * 
+ * Reports the health of every feed in the registry: consecutive failures,
+ * last success, last error class and when a backing-off feed will be
+ * re-probed. Lets you spot broken sources without reading Vercel logs.
+ * 
+ * Query params:
+ * - status: Only return feeds in this state ('healthy', 'degraded', 'backoff', 'quarantined', 'unknown')
+ * - enabled: 'true' to only include enabled feeds
+ * 
+ * Security: Protected by CRON_SECRET header
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = request.headers.get('x-cron-secret');
+  const expectedSecret = process.env.CRON_SECRET;
+
+  if (cronSecret !== expectedSecret) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing cron secret' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const statusFilter = searchParams.get('status');
+    const enabledOnly = searchParams.get('enabled') === 'true';
+
+    const allFeeds = await getAllFeeds();
+    const feeds = enabledOnly ? allFeeds.filter((feed) => feed.enabled) : allFeeds;
+    const states = await getFeedFetchStates(feeds);
+
+    const report = feeds.map((feed) => {
+      const state = states.get(feed.name);
+      // Health recorded for a different URL no longer applies
+      const current = state && state.url === feed.url ? state : undefined;
+      const status: FeedHealthStatus | 'unknown' = current?.health_status ?? 'unknown';
+
+      return {
+        name: feed.name,
+        url: feed.url,
+        enabled: feed.enabled,
+        articleType: feed.articleType || 'policy',
+        status,
+        consecutiveFailures: current?.consecutive_failures ?? 0,
+        lastFetchedAt: current?.last_fetched_at ?? null,
+        lastSuccessAt: current?.last_success_at ?? null,
+        lastFailureAt: current?.last_failure_at ?? null,
+        lastError: current?.last_error ?? null,
+        lastErrorClass: current?.last_error_class ?? null,
+        lastHttpStatus: current?.last_http_status ?? null,
+        lastItemCount: current?.last_item_count ?? null,
+        nextAttemptAt: current?.next_attempt_at ?? null,
+      };
+    });
+
+    const summary: Record<FeedHealthStatus | 'unknown', number> = {
+      healthy: 0,
+      degraded: 0,
+      backoff: 0,
+      quarantined: 0,
+      unknown: 0,
+    };
+    for (const entry of report) {
+      summary[entry.status]++;
+    }
+
+    const filtered = statusFilter
+      ? report.filter((entry) => entry.status === statusFilter)
+      : report;
+
+    return NextResponse.json({
+      ok: true,
+      summary,
+      feeds: filtered,
+      checkedAt: new Date().toISOString(),
+    });
+  } catch (err) {
+    console.error('[feed-health] Error:', err);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
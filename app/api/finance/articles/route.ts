@@ -1,9 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabase } from '@/lib/db';
+import { ArticleRow } from '@/types/article';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0; // always fresh for finance articles
 
+/**
+ * Finance articles, newest first, optionally only those mentioning an entity
+ */
+function financeArticlesQuery(entity: string | null, ticker: string | null) {
+  // Inner join so only articles with a matching entity row are returned
+  const columns = entity || ticker ? '*, article_entities!inner(entity_id, ticker)' : '*';
+
+  let query = getSupabase()
+    .from('articles')
+    .select<string, ArticleRow>(columns)
+    .eq('article_type', 'finance')
+    .order('pub_date', { ascending: false });
+
+  if (entity) {
+    query = query.eq('article_entities.entity_id', entity.trim().toLowerCase());
+  }
+  if (ticker) {
+    query = query.eq('article_entities.ticker', ticker.trim().toUpperCase());
+  }
+  return query;
+}
+
 /**
  * GET /api/finance/articles
  * 
@@ -13,20 +36,18 @@ export const revalidate = 0; // always fresh for finance articles
  * Query params:
  * - limit: number of articles to return (default: 6)
  * - archived: 'true' to get archived articles, 'false' or omit for active articles
+ * - entity: only articles mentioning this entity (e.g., 'company:xom', 'country:qa')
+ * - ticker: only articles mentioning the company with this ticker (e.g., 'XOM')
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '6', 10);
     const showArchived = searchParams.get('archived') === 'true';
+    const entity = searchParams.get('entity');
+    const ticker = searchParams.get('ticker');
 
-    const supabase = getSupabase();
-    
-    let query = supabase
-      .from('articles')
-      .select('*')
-      .eq('article_type', 'finance')
-      .order('pub_date', { ascending: false });
+    let query = financeArticlesQuery(entity, ticker);
 
     // Filter by archived status
     // Note: If is_archived column doesn't exist yet, this will return all articles
@@ -46,11 +67,7 @@ export async function GET(request: NextRequest) {
       console.error('[finance/articles] Database error:', error);
       // If error is about is_archived column not existing, fallback to unfiltered
       if (error.message?.includes('is_archived')) {
-        const { data: fallbackArticles, error: fallbackError } = await supabase
-          .from('articles')
-          .select('*')
-          .eq('article_type', 'finance')
-          .order('pub_date', { ascending: false })
+        const { data: fallbackArticles, error: fallbackError } = await financeArticlesQuery(entity, ticker)
           .limit(limit);
 
         if (fallbackError) {
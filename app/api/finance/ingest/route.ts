@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { runIngestion, IngestionStats } from '@/lib/ingest';
 import { getEnabledFeedsByType } from '@/lib/feeds';
+import { acquireJobLock } from '@/lib/jobLocks';
 
 // Force dynamic rendering - no caching for ingestion endpoint
 export const dynamic = 'force-dynamic';
@@ -9,12 +10,17 @@ export const runtime = 'nodejs';
 // Increase max duration for ingestion (Vercel Pro: 60s, Hobby: 10s)
 export const maxDuration = 60;
 
+// Shared with /api/orchestrator and /api/ingest - they ingest these feeds too
+const INGEST_LOCK = 'ingest';
+const LOCK_LEASE_MS = 90_000;
+
 /**
  * Finance-only ingestion endpoint for Vercel Cron or cron-job.org
  *
  * Security: Validates requests using x-cron-secret header
  * - Returns 401 if secret doesn't match CRON_SECRET env var
  * - Returns 200 with ingestion stats on success
+ * - Returns 409 if another ingestion (any ingest route or the orchestrator) is running
  */
 export async function GET(request: NextRequest) {
   // Validate cron secret
@@ -32,11 +38,25 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  const { lock, holder } = await acquireJobLock(INGEST_LOCK, {
+    leaseMs: LOCK_LEASE_MS,
+    host: request.headers.get('host'),
+  });
+  if (!lock && holder) {
+    return NextResponse.json({
+      success: false,
+      error: 'Ingestion already running',
+      lock: INGEST_LOCK,
+      runningSince: holder.acquired_at,
+      lockExpiresAt: holder.expires_at,
+    }, { status: 409 });
+  }
+
   try {
     console.log('[/api/finance/ingest] Starting finance-only ingestion run...');
 
     // Limit to enabled finance feeds
-    const financeFeeds = getEnabledFeedsByType('finance');
+    const financeFeeds = await getEnabledFeedsByType('finance');
     const stats: IngestionStats = await runIngestion(financeFeeds);
 
     console.log(
@@ -55,18 +75,22 @@ export async function GET(request: NextRequest) {
             total: stats.totalSources,
             successful: stats.successfulSources,
             failed: stats.failedSources,
+            notModified: stats.notModifiedSources,
+            backoff: stats.backoffSources,
           },
           articles: {
             fetched: stats.totalItemsFetched,
             attempted: stats.totalItemsAttempted,
             inserted: stats.totalItemsInserted,
             duplicates: stats.totalItemsDuplicates,
+            nearDuplicates: stats.totalItemsNearDuplicates,
             skipped: stats.totalItemsSkipped,
             dbErrors: stats.totalDbErrors,
           },
           perSource: stats.perSource.map((s) => ({
             source: s.source,
             status: s.fetchStatus,
+            notModified: s.notModified,
             fetched: s.itemsFetched,
             inserted: s.itemsInserted,
             skipped: s.itemsSkipped,
@@ -87,6 +111,8 @@ export async function GET(request: NextRequest) {
       },
       { status: 500 }
     );
+  } finally {
+    await lock?.release();
   }
 }
 
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabase } from '@/lib/db';
-import OpenAI from 'openai';
+import { getLLMProvider } from '@/lib/llm';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -95,7 +95,8 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * Generate market summaries from recent finance articles using AI
+ * Generate market summaries from recent finance articles using the
+ * configured LLM provider (extractive when no API is configured)
  */
 async function generateMarketSummaries(
   supabase: ReturnType<typeof getSupabase>,
@@ -128,85 +129,24 @@ async function generateMarketSummaries(
     return [];
   }
 
-  // Check if OpenAI is configured
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    console.error('[market-summary] OpenAI API key not configured');
+  const provider = getLLMProvider();
+  console.log(`[market-summary] Generating summaries with ${provider.name}...`);
+
+  const result = await provider.briefing(articles, 6);
+  if (!result.success || !result.data) {
+    console.error(`[market-summary] ${provider.name} generation error:`, result.error);
     return [];
   }
 
-  const openai = new OpenAI({ apiKey });
-  const model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
-
-  // Prepare article context for AI
-  const articleContext = articles
-    .map((a, i) => `${i + 1}. "${a.title}" (${a.source})\n   ${a.summary}`)
-    .join('\n\n');
-
-  const systemPrompt = `You are a senior energy markets analyst creating a daily market briefing. 
-Generate exactly 6 market summary items based on the provided recent news articles.
-
-Each summary should:
-- Have a short, impactful headline (max 60 characters)
-- Include a 2-sentence summary focusing on market implications
-- Cover different aspects: oil/gas prices, renewables, policy, commodities, stocks, infrastructure
-
-Format your response as valid JSON array:
-[
-  {"headline": "...", "summary": "..."},
-  ...
-]
-
-Only output the JSON array, no other text.`;
-
-  const userPrompt = `Based on these recent energy finance articles, create 6 market summary items:
-
-${articleContext}
-
-Generate diverse summaries covering: oil prices, natural gas, renewable energy, energy stocks, policy impacts, and market trends.`;
-
-  try {
-    console.log('[market-summary] Generating summaries with AI...');
-    
-    const response = await openai.chat.completions.create({
-      model,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      max_tokens: 1000,
-      temperature: 0.7,
-    });
-
-    const content = response.choices[0]?.message?.content?.trim();
-    if (!content) {
-      console.error('[market-summary] Empty AI response');
-      return [];
-    }
-
-    // Parse JSON response
-    const parsed = JSON.parse(content);
-    if (!Array.isArray(parsed)) {
-      console.error('[market-summary] Invalid AI response format');
-      return [];
-    }
-
-    // Add IDs and validate structure
-    const summaries: MarketSummary[] = parsed
-      .slice(0, 6)
-      .map((item: { headline?: string; summary?: string }, index: number) => ({
-        id: index + 1,
-        headline: item.headline || 'Market Update',
-        summary: item.summary || 'No summary available.',
-      }));
-
-    console.log(`[market-summary] Generated ${summaries.length} summaries`);
-    return summaries;
+  // Add IDs
+  const summaries: MarketSummary[] = result.data.map((item, index) => ({
+    id: index + 1,
+    headline: item.headline,
+    summary: item.summary,
+  }));
 
-  } catch (aiError) {
-    console.error('[market-summary] AI generation error:', aiError);
-    return [];
-  }
+  console.log(`[market-summary] Generated ${summaries.length} summaries`);
+  return summaries;
 }
 
 /**
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStockNews, isEnergyStockSymbol, STOCK_NEWS_WINDOW_DAYS } from '@/lib/stockNews';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { symbol: string };
+}
+
+/**
+ * GET /api/finance/stocks/:symbol/news
+ * 
+ * Returns headlines related to a stock from the last 7 days: stored articles
+ * mentioning the company (via article_entities) merged with Finnhub company
+ * news. Finnhub items already stored as articles are left out.
+ * 
+ * Query params:
+ * - limit: number of headlines to return (default: 20, max: 50)
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const symbol = params.symbol.toUpperCase();
+
+  if (!isEnergyStockSymbol(symbol)) {
+    return NextResponse.json({ error: `Unknown stock symbol: ${params.symbol}` }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 50);
+
+  try {
+    const { data, error } = await getStockNews(symbol, limit);
+
+    if (error || !data) {
+      console.error(`[stocks/${symbol}/news] Database error:`, error);
+      return NextResponse.json({
+        symbol,
+        items: [],
+        error: 'Failed to fetch news',
+      }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      symbol,
+      items: data.items,
+      count: data.items.length,
+      mentions: data.mentions,
+      finnhubDuplicates: data.finnhubDuplicates,
+      windowDays: STOCK_NEWS_WINDOW_DAYS,
+    });
+  } catch (error) {
+    console.error(`[stocks/${symbol}/news] Error:`, error);
+    return NextResponse.json({
+      symbol,
+      items: [],
+      error: 'Internal server error',
+    }, { status: 500 });
+  }
+}
@@ -1,14 +1,34 @@
 import { NextResponse } from 'next/server';
 import { fetchAllEnergyStocks, ENERGY_STOCK_SYMBOLS } from '@/lib/finnhub';
 import { getSupabase } from '@/lib/db';
+import { getTickerMentionCounts, TickerMentionCounts } from '@/lib/stockNews';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 300; // 5 minutes
 
+/**
+ * Add 24h/7d article mention counts to each stock
+ * 
+ * Counts are zero when the lookup fails (prices still load).
+ */
+async function withMentions<T extends { symbol: string }>(
+  stocks: T[]
+): Promise<(T & { mentions: TickerMentionCounts })[]> {
+  const { data: counts, error } = await getTickerMentionCounts(stocks.map(s => s.symbol));
+  if (error) {
+    console.error('[stocks] Failed to count mentions:', error);
+  }
+  return stocks.map(s => ({
+    ...s,
+    mentions: counts[s.symbol.toUpperCase()] || { last24h: 0, last7d: 0 },
+  }));
+}
+
 /**
  * GET /api/finance/stocks
  * 
- * Returns current stock prices for top energy companies.
+ * Returns current stock prices for top energy companies, with how many
+ * articles mentioned each company in the last 24 hours / 7 days.
  * Uses Finnhub API with caching in Supabase.
  */
 export async function GET() {
@@ -26,13 +46,13 @@ export async function GET() {
     if (!cacheError && cachedStocks && cachedStocks.length >= ENERGY_STOCK_SYMBOLS.length) {
       console.log('[stocks] Returning cached stock prices');
       return NextResponse.json({
-        stocks: cachedStocks.map(s => ({
-          symbol: s.symbol,
+        stocks: await withMentions(cachedStocks.map(s => ({
+          symbol: s.symbol as string,
           companyName: s.company_name,
           currentPrice: s.current_price,
           change: s.change_amount,
           changePercent: s.change_percent,
-        })),
+        }))),
         cached: true,
         updatedAt: cachedStocks[0]?.updated_at,
       });
@@ -45,13 +65,13 @@ export async function GET() {
     if (stocks.length === 0) {
       // Return placeholder data if API fails
       return NextResponse.json({
-        stocks: ENERGY_STOCK_SYMBOLS.map((s, i) => ({
+        stocks: await withMentions(ENERGY_STOCK_SYMBOLS.map((s, i) => ({
           symbol: s.symbol,
           companyName: s.name,
           currentPrice: 100 + Math.random() * 50,
           change: (Math.random() - 0.5) * 5,
           changePercent: (Math.random() - 0.5) * 3,
-        })),
+        }))),
         cached: false,
         placeholder: true,
       });
@@ -76,13 +96,13 @@ export async function GET() {
     }
 
     return NextResponse.json({
-      stocks: stocks.map(s => ({
+      stocks: await withMentions(stocks.map(s => ({
         symbol: s.symbol,
         companyName: s.companyName,
         currentPrice: s.currentPrice,
         change: s.change,
         changePercent: s.changePercent,
-      })),
+      }))),
       cached: false,
       updatedAt: now,
     });
@@ -1,19 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { revalidatePath } from 'next/cache';
-import { runIngestion, IngestionStats } from '@/lib/ingest';
 import { getEnabledFeedsByType } from '@/lib/feeds';
-import { archiveOldFinanceArticles } from '@/lib/db';
+import { createIngestJobContext, createMarketIngestTasks, runIngestJob } from '@/lib/ingestTasks';
+import { acquireJobLock } from '@/lib/jobLocks';
 
 // Force dynamic rendering - no caching for ingestion endpoint
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
+// Shared with /api/orchestrator and /api/ingest - they ingest these feeds too
+const INGEST_LOCK = 'ingest';
+const LOCK_LEASE_MS = 90_000;
+// No task starts or runs past this, leaving time within maxDuration for
+// timed-out tasks to stop and for the job run record
+const JOB_DEADLINE_MS = 45_000;
+
 /**
  * Finance-only ingestion endpoint (inline, no background tasks)
+ *
+ * Runs as a task graph (lib/ingestTasks.ts): load feeds -> ingestion ->
+ * archive -> revalidate. The response and the job run record
+ * (job 'ingest-finance', see /api/job-runs) show each task's status.
+ *
+ * Returns 409 while another ingestion (any ingest route or the
+ * orchestrator) is running.
  */
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
+  const maxItemsPerFeed = Math.max(1, Math.min(50, parseInt(searchParams.get('maxItems') || '25', 10)));
   // Validate cron secret
   const cronSecret = request.headers.get('x-cron-secret');
   const expectedSecret = process.env.CRON_SECRET;
@@ -27,84 +41,97 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  const ranAt = new Date().toISOString();
+  const host = request.headers.get('host');
+  const { lock, holder } = await acquireJobLock(INGEST_LOCK, { leaseMs: LOCK_LEASE_MS, host });
+  if (!lock && holder) {
+    return NextResponse.json({
+      success: false,
+      error: 'Ingestion already running',
+      lock: INGEST_LOCK,
+      runningSince: holder.acquired_at,
+      lockExpiresAt: holder.expires_at,
+    }, { status: 409 });
+  }
+
   try {
     console.log('[/api/ingest-finance] Starting finance-only ingestion...');
 
-    const financeFeeds = getEnabledFeedsByType('finance');
-    // US-only finance ingest (Yahoo only)
-    const usFinanceFeeds = financeFeeds.filter((feed) =>
-      /yahoo finance/i.test(feed.name)
-    );
-    const maxItemsPerFeed = Math.max(1, Math.min(50, parseInt(searchParams.get('maxItems') || '25', 10)));
-    const stats: IngestionStats = await runIngestion(usFinanceFeeds, { maxItemsPerFeed });
-
-    console.log(
-      `[/api/ingest-finance] Completed: ${stats.totalItemsInserted} inserted, ${stats.totalItemsDuplicates} duplicates, ${stats.totalDbErrors} errors`
-    );
+    const context = createIngestJobContext();
+    const result = await runIngestJob('ingest-finance', createMarketIngestTasks({
+      logTag: '/api/ingest-finance',
+      // US-only finance ingest (Yahoo only)
+      loadFeeds: async () => {
+        const financeFeeds = await getEnabledFeedsByType('finance');
+        return financeFeeds.filter((feed) => /yahoo finance/i.test(feed.name));
+      },
+      maxItemsPerFeed,
+      archiveSources: () => ['Yahoo Finance', 'CNBC Energy'],
+    }), context, host, ranAt, { deadline: Date.parse(ranAt) + JOB_DEADLINE_MS });
 
-    // Archive older articles (keep only 6 most recent as active)
-    const usSources = ['Yahoo Finance', 'CNBC Energy'];
-    const archiveResult = await archiveOldFinanceArticles(usSources, 6);
-    if (archiveResult.archived > 0) {
-      console.log(`[/api/ingest-finance] Archived ${archiveResult.archived} older articles`);
-    }
-    if (archiveResult.error) {
-      console.warn('[/api/ingest-finance] Archive warning:', archiveResult.error);
+    const stats = context.stats;
+    if (!stats) {
+      console.error('[/api/ingest-finance] Ingestion error:', result.error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Finance ingestion failed',
+          details: result.error || 'Unknown error',
+          tasks: result.tasks,
+        },
+        { status: 500 }
+      );
     }
 
-    // Revalidate pages so latest finance articles appear quickly
-    try {
-      revalidatePath('/finance');
-      revalidatePath('/');
-    } catch (revalidateError) {
-      console.warn('[/api/ingest-finance] Revalidate warning:', revalidateError);
-    }
+    console.log(
+      `[/api/ingest-finance] Completed (${result.status}): ${stats.totalItemsInserted} inserted, ${stats.totalItemsDuplicates} duplicates, ${stats.totalDbErrors} errors`
+    );
 
-    return NextResponse.json({
-      success: true,
-      message: 'Finance ingestion completed',
-      stats: {
-        startedAt: stats.startedAt,
-        completedAt: stats.completedAt,
-        durationMs: stats.durationMs,
-        sources: {
-          total: stats.totalSources,
-          successful: stats.successfulSources,
-          failed: stats.failedSources,
-        },
-        articles: {
-          fetched: stats.totalItemsFetched,
-          attempted: stats.totalItemsAttempted,
-          inserted: stats.totalItemsInserted,
-          duplicates: stats.totalItemsDuplicates,
-          skipped: stats.totalItemsSkipped,
-          dbErrors: stats.totalDbErrors,
-          archived: archiveResult.archived,
-        },
-        perSource: stats.perSource.map(s => ({
-          source: s.source,
-          status: s.fetchStatus,
-          fetched: s.itemsFetched,
-          inserted: s.itemsInserted,
-          skipped: s.itemsSkipped,
-        })),
-        errors: stats.errors.length > 0 ? stats.errors : undefined,
-      },
-    }, { status: 200 });
-  } catch (error) {
-    console.error('[/api/ingest-finance] Ingestion error:', error);
     return NextResponse.json(
       {
-        success: false,
-        error: 'Finance ingestion failed',
-        details: error instanceof Error ? error.message : 'Unknown error',
+        success: true,
+        status: result.status,
+        message: 'Finance ingestion completed',
+        stats: {
+          startedAt: stats.startedAt,
+          completedAt: stats.completedAt,
+          durationMs: stats.durationMs,
+          sources: {
+            total: stats.totalSources,
+            successful: stats.successfulSources,
+            failed: stats.failedSources,
+            notModified: stats.notModifiedSources,
+            backoff: stats.backoffSources,
+          },
+          articles: {
+            fetched: stats.totalItemsFetched,
+            attempted: stats.totalItemsAttempted,
+            inserted: stats.totalItemsInserted,
+            duplicates: stats.totalItemsDuplicates,
+            nearDuplicates: stats.totalItemsNearDuplicates,
+            skipped: stats.totalItemsSkipped,
+            dbErrors: stats.totalDbErrors,
+            archived: context.archived,
+          },
+          perSource: stats.perSource.map((s) => ({
+            source: s.source,
+            status: s.fetchStatus,
+            notModified: s.notModified,
+            fetched: s.itemsFetched,
+            inserted: s.itemsInserted,
+            skipped: s.itemsSkipped,
+          })),
+          errors: stats.errors.length > 0 ? stats.errors : undefined,
+        },
+        tasks: result.tasks,
       },
-      { status: 500 }
+      { status: 200 }
     );
+  } finally {
+    await lock?.release();
   }
 }
 
 export async function POST(request: NextRequest) {
   return GET(request);
 }
-
@@ -1,17 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { revalidatePath } from 'next/cache';
-import { runIngestion, IngestionStats } from '@/lib/ingest';
-import { getEnabledFeedsByType } from '@/lib/feeds';
-import { archiveOldFinanceArticles, getSupabase } from '@/lib/db';
-import { scrapeArticleImage } from '@/lib/scrapeImage';
+import { getEnabledFeedsByMarket } from '@/lib/feeds';
+import { createIngestJobContext, createMarketIngestTasks, runIngestJob } from '@/lib/ingestTasks';
+import { acquireJobLock } from '@/lib/jobLocks';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
+// Shared with /api/orchestrator and /api/ingest - they ingest these feeds too
+const INGEST_LOCK = 'ingest';
+const LOCK_LEASE_MS = 90_000;
+// No task starts or runs past this, leaving time within maxDuration for
+// timed-out tasks to stop and for the job run record
+const JOB_DEADLINE_MS = 45_000;
+
 /**
  * Mozambique-only ingestion endpoint (fast inline run).
- * Filters enabled finance feeds to Mozambique-specific sources.
+ * Uses enabled finance feeds in the MZ market published from Mozambique.
+ *
+ * Runs as a task graph (lib/ingestTasks.ts): load feeds -> ingestion ->
+ * archive / image enrichment -> revalidate. The response and the job run
+ * record (job 'ingest-mozambique', see /api/job-runs) show each task's status.
+ *
+ * Returns 409 while another ingestion (any ingest route or the
+ * orchestrator) is running.
  */
 export async function GET(request: NextRequest) {
   const cronSecret = request.headers.get('x-cron-secret');
@@ -26,86 +38,63 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  const ranAt = new Date().toISOString();
+  const host = request.headers.get('host');
+  const { lock, holder } = await acquireJobLock(INGEST_LOCK, { leaseMs: LOCK_LEASE_MS, host });
+  if (!lock && holder) {
+    return NextResponse.json({
+      success: false,
+      error: 'Ingestion already running',
+      lock: INGEST_LOCK,
+      runningSince: holder.acquired_at,
+      lockExpiresAt: holder.expires_at,
+    }, { status: 409 });
+  }
+
   try {
     console.log('[/api/ingest-mozambique] Starting Mozambique-only ingestion...');
-    const supabase = getSupabase();
 
-    const financeFeeds = getEnabledFeedsByType('finance');
-    // Only ingest from the 3 specific Club of Mozambique category feeds
-    // This excludes ESI Africa Mozambique and other Mozambique-related feeds
-    const mozFeeds = financeFeeds.filter((feed) =>
-      /^Club of Mozambique - (Economy|Mining & Energy|Business)$/i.test(feed.name)
-    );
-
-    const stats: IngestionStats = await runIngestion(mozFeeds);
+    const context = createIngestJobContext();
+    const result = await runIngestJob('ingest-mozambique', createMarketIngestTasks({
+      logTag: '/api/ingest-mozambique',
+      // Only ingest from Mozambique-based publishers (the Club of Mozambique category feeds)
+      // This excludes ESI Africa Mozambique (pan-African) and Google News aggregations
+      loadFeeds: () => getEnabledFeedsByMarket('MZ', {
+        articleType: 'finance',
+        localOnly: true,
+      }),
+      archiveSources: (feeds) => [
+        'Club of Mozambique', // Generic name (may exist in database from old feeds)
+        ...feeds.map((feed) => feed.name),
+      ],
+      // Club of Mozambique RSS recently stopped including image fields.
+      // Run a focused enrichment pass immediately so fresh Mozambique cards
+      // don't stay without cover images while waiting for generic enrich jobs.
+      imageEnrichmentLimit: 12,
+    }), context, host, ranAt, { deadline: Date.parse(ranAt) + JOB_DEADLINE_MS });
+
+    const stats = context.stats;
+    if (!stats) {
+      console.error('[/api/ingest-mozambique] Ingestion error:', result.error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Mozambique ingestion failed',
+          details: result.error || 'Unknown error',
+          tasks: result.tasks,
+        },
+        { status: 500 }
+      );
+    }
 
     console.log(
-      `[/api/ingest-mozambique] Completed: ${stats.totalItemsInserted} inserted, ${stats.totalItemsDuplicates} duplicates, ${stats.totalDbErrors} errors`
+      `[/api/ingest-mozambique] Completed (${result.status}): ${stats.totalItemsInserted} inserted, ${stats.totalItemsDuplicates} duplicates, ${stats.totalDbErrors} errors`
     );
 
-    // Archive older articles (keep only 6 most recent as active)
-    const mozSources = [
-      'Club of Mozambique',
-      'Club of Mozambique - Economy',
-      'Club of Mozambique - Mining & Energy',
-      'Club of Mozambique - Business',
-    ];
-    const archiveResult = await archiveOldFinanceArticles(mozSources, 6);
-    if (archiveResult.archived > 0) {
-      console.log(`[/api/ingest-mozambique] Archived ${archiveResult.archived} older articles`);
-    }
-    if (archiveResult.error) {
-      console.warn('[/api/ingest-mozambique] Archive warning:', archiveResult.error);
-    }
-
-    // Club of Mozambique RSS recently stopped including image fields.
-    // Run a focused enrichment pass immediately so fresh Mozambique cards
-    // don't stay without cover images while waiting for generic enrich jobs.
-    let mozImageUpdates = 0;
-    const { data: mozMissingImages, error: mozMissingError } = await supabase
-      .from('articles')
-      .select('id, link, source, title')
-      .in('source', mozSources)
-      .is('image_url', null)
-      .order('pub_date', { ascending: false })
-      .limit(12);
-
-    if (mozMissingError) {
-      console.warn('[/api/ingest-mozambique] Image enrichment query warning:', mozMissingError.message);
-    } else if (mozMissingImages && mozMissingImages.length > 0) {
-      console.log(`[/api/ingest-mozambique] Enriching ${mozMissingImages.length} Mozambique articles missing images...`);
-      for (const article of mozMissingImages) {
-        const scrapeResult = await scrapeArticleImage(article.link);
-        if (scrapeResult.success && scrapeResult.imageUrl) {
-          const { error: updateError } = await supabase
-            .from('articles')
-            .update({ image_url: scrapeResult.imageUrl })
-            .eq('id', article.id);
-
-          if (updateError) {
-            console.warn(`[/api/ingest-mozambique] Image update warning for ${article.id}:`, updateError.message);
-          } else {
-            mozImageUpdates++;
-          }
-        } else {
-          console.warn(`[/api/ingest-mozambique] Image scrape failed for ${article.source}: ${scrapeResult.error || 'Unknown error'}`);
-        }
-
-        await new Promise((resolve) => setTimeout(resolve, 200));
-      }
-      console.log(`[/api/ingest-mozambique] Enriched ${mozImageUpdates} Mozambique article images`);
-    }
-
-    try {
-      revalidatePath('/finance');
-      revalidatePath('/');
-    } catch (revalidateError) {
-      console.warn('[/api/ingest-mozambique] Revalidate warning:', revalidateError);
-    }
-
     return NextResponse.json(
       {
         success: true,
+        status: result.status,
         message: 'Mozambique ingestion completed',
         stats: {
           startedAt: stats.startedAt,
@@ -115,43 +104,39 @@ export async function GET(request: NextRequest) {
             total: stats.totalSources,
             successful: stats.successfulSources,
             failed: stats.failedSources,
+            notModified: stats.notModifiedSources,
+            backoff: stats.backoffSources,
           },
           articles: {
             fetched: stats.totalItemsFetched,
             attempted: stats.totalItemsAttempted,
             inserted: stats.totalItemsInserted,
             duplicates: stats.totalItemsDuplicates,
+            nearDuplicates: stats.totalItemsNearDuplicates,
             skipped: stats.totalItemsSkipped,
             dbErrors: stats.totalDbErrors,
-            archived: archiveResult.archived,
-            imageEnriched: mozImageUpdates,
+            archived: context.archived,
+            imageEnriched: context.imagesEnriched,
           },
           perSource: stats.perSource.map((s) => ({
             source: s.source,
             status: s.fetchStatus,
+            notModified: s.notModified,
             fetched: s.itemsFetched,
             inserted: s.itemsInserted,
             skipped: s.itemsSkipped,
           })),
           errors: stats.errors.length > 0 ? stats.errors : undefined,
         },
+        tasks: result.tasks,
       },
       { status: 200 }
     );
-  } catch (error) {
-    console.error('[/api/ingest-mozambique] Ingestion error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Mozambique ingestion failed',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 }
-    );
+  } finally {
+    await lock?.release();
   }
 }
 
 export async function POST(request: NextRequest) {
   return GET(request);
 }
-
@@ -2,14 +2,22 @@ import { NextRequest, NextResponse } from 'next/server';
 import { revalidatePath } from 'next/cache';
 import { runIngestion, IngestionStats } from '@/lib/ingest';
 import { getEnabledFeedsByType } from '@/lib/feeds';
+import { acquireJobLock } from '@/lib/jobLocks';
 
 // Force dynamic rendering - no caching for ingestion endpoint
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
+// Shared with /api/orchestrator and /api/ingest - they ingest these feeds too
+const INGEST_LOCK = 'ingest';
+const LOCK_LEASE_MS = 90_000;
+
 /**
  * Policy-only ingestion endpoint (inline, no background tasks)
+ *
+ * Returns 409 while another ingestion (any ingest route or the
+ * orchestrator) is running.
  */
 export async function GET(request: NextRequest) {
   // Validate cron secret
@@ -25,10 +33,24 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  const { lock, holder } = await acquireJobLock(INGEST_LOCK, {
+    leaseMs: LOCK_LEASE_MS,
+    host: request.headers.get('host'),
+  });
+  if (!lock && holder) {
+    return NextResponse.json({
+      success: false,
+      error: 'Ingestion already running',
+      lock: INGEST_LOCK,
+      runningSince: holder.acquired_at,
+      lockExpiresAt: holder.expires_at,
+    }, { status: 409 });
+  }
+
   try {
     console.log('[/api/ingest-policy] Starting policy-only ingestion...');
 
-    const policyFeeds = getEnabledFeedsByType('policy');
+    const policyFeeds = await getEnabledFeedsByType('policy');
     const stats: IngestionStats = await runIngestion(policyFeeds);
 
     console.log(
@@ -54,18 +76,22 @@ export async function GET(request: NextRequest) {
           total: stats.totalSources,
           successful: stats.successfulSources,
           failed: stats.failedSources,
+          notModified: stats.notModifiedSources,
+          backoff: stats.backoffSources,
         },
         articles: {
           fetched: stats.totalItemsFetched,
           attempted: stats.totalItemsAttempted,
           inserted: stats.totalItemsInserted,
           duplicates: stats.totalItemsDuplicates,
+          nearDuplicates: stats.totalItemsNearDuplicates,
           skipped: stats.totalItemsSkipped,
           dbErrors: stats.totalDbErrors,
         },
         perSource: stats.perSource.map(s => ({
           source: s.source,
           status: s.fetchStatus,
+          notModified: s.notModified,
           fetched: s.itemsFetched,
           inserted: s.itemsInserted,
           skipped: s.itemsSkipped,
@@ -83,6 +109,8 @@ export async function GET(request: NextRequest) {
       },
       { status: 500 }
     );
+  } finally {
+    await lock?.release();
   }
 }
 
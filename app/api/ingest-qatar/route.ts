@@ -1,16 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { revalidatePath } from 'next/cache';
-import { runIngestion, IngestionStats } from '@/lib/ingest';
-import { getEnabledFeedsByType } from '@/lib/feeds';
-import { archiveOldFinanceArticles } from '@/lib/db';
+import { getEnabledFeedsByMarket } from '@/lib/feeds';
+import { createIngestJobContext, createMarketIngestTasks, runIngestJob } from '@/lib/ingestTasks';
+import { acquireJobLock } from '@/lib/jobLocks';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
+// Shared with /api/orchestrator and /api/ingest - they ingest these feeds too
+const INGEST_LOCK = 'ingest';
+const LOCK_LEASE_MS = 90_000;
+// No task starts or runs past this, leaving time within maxDuration for
+// timed-out tasks to stop and for the job run record
+const JOB_DEADLINE_MS = 45_000;
+
 /**
  * Qatar-only ingestion endpoint (fast inline run).
- * Filters enabled finance feeds to Qatar-specific sources.
+ * Uses enabled finance feeds in the QA market published from Qatar.
+ *
+ * Runs as a task graph (lib/ingestTasks.ts): load feeds -> ingestion ->
+ * archive -> revalidate. The response and the job run record
+ * (job 'ingest-qatar', see /api/job-runs) show each task's status.
+ *
+ * Returns 409 while another ingestion (any ingest route or the
+ * orchestrator) is running.
  */
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -28,43 +41,56 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  const ranAt = new Date().toISOString();
+  const host = request.headers.get('host');
+  const { lock, holder } = await acquireJobLock(INGEST_LOCK, { leaseMs: LOCK_LEASE_MS, host });
+  if (!lock && holder) {
+    return NextResponse.json({
+      success: false,
+      error: 'Ingestion already running',
+      lock: INGEST_LOCK,
+      runningSince: holder.acquired_at,
+      lockExpiresAt: holder.expires_at,
+    }, { status: 409 });
+  }
+
   try {
     console.log('[/api/ingest-qatar] Starting Qatar-only ingestion...');
 
-    const financeFeeds = getEnabledFeedsByType('finance');
-    // Only ingest from Gulf Times Qatar feeds
-    const qatarFeeds = financeFeeds.filter((feed) =>
-      /^Gulf Times (Qatar|Business)$/i.test(feed.name)
-    );
-
-    const stats: IngestionStats = await runIngestion(qatarFeeds, {
+    const context = createIngestJobContext();
+    const result = await runIngestJob('ingest-qatar', createMarketIngestTasks({
+      logTag: '/api/ingest-qatar',
+      // Only ingest from Qatar-based publishers (e.g., Gulf Times), not Google News aggregations
+      loadFeeds: () => getEnabledFeedsByMarket('QA', {
+        articleType: 'finance',
+        localOnly: true,
+      }),
       maxItemsPerFeed: Number.isFinite(maxItemsPerFeed) ? maxItemsPerFeed : undefined,
-    });
+      archiveSources: (feeds) => feeds.map((feed) => feed.name),
+    }), context, host, ranAt, { deadline: Date.parse(ranAt) + JOB_DEADLINE_MS });
 
-    console.log(
-      `[/api/ingest-qatar] Completed: ${stats.totalItemsInserted} inserted, ${stats.totalItemsDuplicates} duplicates, ${stats.totalDbErrors} errors`
-    );
-
-    // Archive older articles (keep only 6 most recent as active)
-    const qatarSources = ['Gulf Times Qatar', 'Gulf Times Business'];
-    const archiveResult = await archiveOldFinanceArticles(qatarSources, 6);
-    if (archiveResult.archived > 0) {
-      console.log(`[/api/ingest-qatar] Archived ${archiveResult.archived} older articles`);
-    }
-    if (archiveResult.error) {
-      console.warn('[/api/ingest-qatar] Archive warning:', archiveResult.error);
+    const stats = context.stats;
+    if (!stats) {
+      console.error('[/api/ingest-qatar] Ingestion error:', result.error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Qatar ingestion failed',
+          details: result.error || 'Unknown error',
+          tasks: result.tasks,
+        },
+        { status: 500 }
+      );
     }
 
-    try {
-      revalidatePath('/finance');
-      revalidatePath('/');
-    } catch (revalidateError) {
-      console.warn('[/api/ingest-qatar] Revalidate warning:', revalidateError);
-    }
+    console.log(
+      `[/api/ingest-qatar] Completed (${result.status}): ${stats.totalItemsInserted} inserted, ${stats.totalItemsDuplicates} duplicates, ${stats.totalDbErrors} errors`
+    );
 
     return NextResponse.json(
       {
         success: true,
+        status: result.status,
         message: 'Qatar ingestion completed',
         stats: {
           startedAt: stats.startedAt,
@@ -74,38 +100,35 @@ export async function GET(request: NextRequest) {
             total: stats.totalSources,
             successful: stats.successfulSources,
             failed: stats.failedSources,
+            notModified: stats.notModifiedSources,
+            backoff: stats.backoffSources,
           },
           articles: {
             fetched: stats.totalItemsFetched,
             attempted: stats.totalItemsAttempted,
             inserted: stats.totalItemsInserted,
             duplicates: stats.totalItemsDuplicates,
+            nearDuplicates: stats.totalItemsNearDuplicates,
             skipped: stats.totalItemsSkipped,
             dbErrors: stats.totalDbErrors,
-            archived: archiveResult.archived,
+            archived: context.archived,
           },
           perSource: stats.perSource.map((s) => ({
             source: s.source,
             status: s.fetchStatus,
+            notModified: s.notModified,
             fetched: s.itemsFetched,
             inserted: s.itemsInserted,
             skipped: s.itemsSkipped,
           })),
           errors: stats.errors.length > 0 ? stats.errors : undefined,
         },
+        tasks: result.tasks,
       },
       { status: 200 }
     );
-  } catch (error) {
-    console.error('[/api/ingest-qatar] Ingestion error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Qatar ingestion failed',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 }
-    );
+  } finally {
+    await lock?.release();
   }
 }
 
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { runIngestion, IngestionStats } from '@/lib/ingest';
+import { recordJobRun } from '@/lib/jobRuns';
+import { acquireJobLock } from '@/lib/jobLocks';
 
 // Force dynamic rendering - no caching for ingestion endpoint
 export const dynamic = 'force-dynamic';
@@ -8,16 +10,23 @@ export const runtime = 'nodejs';
 // Increase max duration for ingestion (Vercel Pro: 60s, Hobby: 10s)
 export const maxDuration = 60;
 
+// Shared with the orchestrator - both ingest all feeds
+const INGEST_LOCK = 'ingest';
+const LOCK_LEASE_MS = 90_000;
+
 /**
  * Protected ingestion endpoint for Vercel Cron
  * 
  * Security: Validates requests using x-cron-secret header
  * - Returns 401 if secret doesn't match CRON_SECRET env var
  * - Returns 200 with ingestion stats on success
+ * - Returns 409 if an ingestion (this route or the orchestrator) is running
  * 
  * This endpoint is called by:
  * - Vercel Cron on schedule (every 6 hours)
  * - Manual triggers for testing
+ * 
+ * Each run is recorded as job 'ingest' (see /api/job-runs).
  */
 export async function GET(request: NextRequest) {
   // Validate cron secret
@@ -36,6 +45,20 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  const ranAt = new Date().toISOString();
+  const host = request.headers.get('host');
+
+  const { lock, holder } = await acquireJobLock(INGEST_LOCK, { leaseMs: LOCK_LEASE_MS, host });
+  if (!lock && holder) {
+    return NextResponse.json({
+      success: false,
+      error: 'Ingestion already running',
+      lock: INGEST_LOCK,
+      runningSince: holder.acquired_at,
+      lockExpiresAt: holder.expires_at,
+    }, { status: 409 });
+  }
+
   try {
     console.log('[/api/ingest] Starting ingestion run...');
     
@@ -43,6 +66,18 @@ export async function GET(request: NextRequest) {
     
     console.log(`[/api/ingest] Completed: ${stats.totalItemsInserted} inserted, ${stats.totalItemsDuplicates} duplicates, ${stats.totalDbErrors} errors`);
 
+    await recordJobRun({
+      job_name: 'ingest',
+      ran_at: ranAt,
+      status: 'success',
+      duration_ms: stats.durationMs,
+      articles_inserted: stats.totalItemsInserted,
+      articles_updated: stats.totalItemsDuplicates,
+      images_enriched: 0,
+      error_message: null,
+      host,
+    }, { stats });
+
     // Return summary response
     return NextResponse.json({
       success: true,
@@ -55,18 +90,22 @@ export async function GET(request: NextRequest) {
           total: stats.totalSources,
           successful: stats.successfulSources,
           failed: stats.failedSources,
+          notModified: stats.notModifiedSources,
+          backoff: stats.backoffSources,
         },
         articles: {
           fetched: stats.totalItemsFetched,
           attempted: stats.totalItemsAttempted,
           inserted: stats.totalItemsInserted,
           duplicates: stats.totalItemsDuplicates,
+          nearDuplicates: stats.totalItemsNearDuplicates,
           skipped: stats.totalItemsSkipped,
           dbErrors: stats.totalDbErrors,
         },
         perSource: stats.perSource.map(s => ({
           source: s.source,
           status: s.fetchStatus,
+          notModified: s.notModified,
           fetched: s.itemsFetched,
           inserted: s.itemsInserted,
           skipped: s.itemsSkipped,
@@ -76,6 +115,18 @@ export async function GET(request: NextRequest) {
     }, { status: 200 });
   } catch (error) {
     console.error('[/api/ingest] Ingestion error:', error);
+
+    await recordJobRun({
+      job_name: 'ingest',
+      ran_at: ranAt,
+      status: 'error',
+      duration_ms: Date.now() - new Date(ranAt).getTime(),
+      articles_inserted: 0,
+      articles_updated: 0,
+      images_enriched: 0,
+      error_message: error instanceof Error ? error.message : 'Unknown error',
+      host,
+    });
     
     return NextResponse.json(
       { 
@@ -85,6 +136,8 @@ export async function GET(request: NextRequest) {
       },
       { status: 500 }
     );
+  } finally {
+    await lock?.release();
   }
 }
 
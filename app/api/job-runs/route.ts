@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobRunEvents, JOB_RUN_STATUSES, JobRunStatus } from '@/lib/jobRuns';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * Validate the cron secret (same as /api/job-status)
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const cronSecret = request.headers.get('x-cron-secret');
+  const expectedSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+  const isVercelCron = authHeader === `Bearer ${expectedSecret}`;
+
+  return cronSecret === expectedSecret || isVercelCron;
+}
+
+/**
+ * GET /api/job-runs
+ *
+ * Run history from the append-only job_run_events table, newest first.
+ * Each run carries the full ingestion stats (per-source breakdown, errors,
+ * summarization) and per-task timings. /api/job-status still shows only the
+ * latest run.
+ *
+ * Query params:
+ * - job: Job name (e.g., 'orchestrator', 'ingest')
+ * - status: 'success', 'partial' (some tasks failed) or 'error'
+ * - limit: Runs per page (default 20, max 100)
+ * - page: Page number, starting at 1
+ * - details: If false, omit stats and tasks (smaller response)
+ *
+ * Security: Protected by CRON_SECRET
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing cron secret' },
+      { status: 401 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const job = searchParams.get('job')?.trim() || undefined;
+  const status = searchParams.get('status')?.trim() || undefined;
+  const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const page = Math.max(parseInt(searchParams.get('page') || '', 10) || 1, 1);
+  const details = searchParams.get('details') !== 'false';
+
+  if (status && !JOB_RUN_STATUSES.includes(status as JobRunStatus)) {
+    return NextResponse.json(
+      { error: `Invalid status: ${status}. Use one of: ${JOB_RUN_STATUSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const { data, total, error } = await getJobRunEvents({
+    jobName: job,
+    status: status as JobRunStatus | undefined,
+    limit,
+    offset: (page - 1) * limit,
+  });
+
+  if (error) {
+    console.error('[/api/job-runs] Query error:', error);
+    return NextResponse.json(
+      { error: 'Database query failed', details: error },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    ok: true,
+    runs: details ? data : data.map(({ stats: _stats, tasks: _tasks, ...run }) => run),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+      hasMore: page * limit < total,
+    },
+  });
+}
@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabase } from '@/lib/db';
+import {
+  diffCategoryRuleset,
+  getActiveCategoryRuleset,
+  getCategoryRuleset,
+  validateCategoryRuleset,
+} from '@/lib/categoryRules';
+import { ArticleCategory, CategoryRuleset } from '@/types/article';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Allow up to 60 seconds for large tables
+export const maxDuration = 60;
+
+const DEFAULT_SAMPLE_SIZE = 5;
+const MAX_SAMPLE_SIZE = 50;
+// Rows requested per page (PostgREST's default max-rows)
+const PAGE_SIZE = 1000;
+
+interface DryRunArticle {
+  id: string;
+  title: string;
+  snippet: string | null;
+  category: ArticleCategory;
+  category_rules_version: string | null;
+}
+
+/**
+ * Validate the cron secret
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const cronSecret = request.headers.get('x-cron-secret');
+  const expectedSecret = process.env.CRON_SECRET;
+  // Without a configured secret, "Bearer undefined" or a missing header would match
+  if (!expectedSecret) return false;
+  const authHeader = request.headers.get('authorization');
+  const isVercelCron = authHeader === `Bearer ${expectedSecret}`;
+
+  return cronSecret === expectedSecret || isVercelCron;
+}
+
+/**
+ * Apply a ruleset to every stored article and return the diff
+ */
+async function runDryRun(ruleset: CategoryRuleset, sampleSize: number) {
+  const startTime = Date.now();
+  const supabase = getSupabase();
+
+  // Page through the table - PostgREST caps a single response at its max-rows
+  // limit, which would silently understate the totals. Pages advance by the
+  // rows actually returned, so a lower server cap doesn't skip any
+  const articles: DryRunArticle[] = [];
+  for (;;) {
+    const offset = articles.length;
+    const { data, error: queryError } = await supabase
+      .from('articles')
+      .select('id, title, snippet, category, category_rules_version')
+      .order('pub_date', { ascending: false })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (queryError) {
+      console.error('[/api/recategorize/dry-run] Query error:', queryError);
+      return NextResponse.json(
+        { error: 'Database query failed', details: queryError.message },
+        { status: 500 }
+      );
+    }
+
+    const page = (data as DryRunArticle[]) || [];
+    if (page.length === 0) break;
+    articles.push(...page);
+  }
+
+  const diff = diffCategoryRuleset(articles, ruleset, sampleSize);
+
+  console.log(
+    `[/api/recategorize/dry-run] Ruleset ${ruleset.version}: ${diff.moved} of ${diff.total} articles would move`
+  );
+
+  return NextResponse.json({
+    success: true,
+    dryRun: true,
+    diff,
+    durationMs: Date.now() - startTime,
+  });
+}
+
+function parseSampleSize(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  if (!Number.isFinite(parsed) || parsed < 0) return DEFAULT_SAMPLE_SIZE;
+  return Math.min(parsed, MAX_SAMPLE_SIZE);
+}
+
+/**
+ * GET /api/recategorize/dry-run
+ *
+ * Applies a stored ruleset (?version=..., default: the active one) to the
+ * stored corpus and returns how many articles would move between
+ * categories, with sample titles per move. Nothing is written.
+ *
+ * Query params:
+ * - version: Ruleset version (built-in or stored)
+ * - samples: Sample titles per transition (default 5, max 50)
+ *
+ * Security: Protected by CRON_SECRET
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing cron secret' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const version = searchParams.get('version');
+
+    let ruleset = await getActiveCategoryRuleset();
+    if (version) {
+      const { data, error } = await getCategoryRuleset(version);
+      if (error || !data) {
+        return NextResponse.json(
+          { error: `Ruleset not found: ${version}`, details: error ?? undefined },
+          { status: error ? 500 : 404 }
+        );
+      }
+      ruleset = data;
+    }
+
+    return await runDryRun(ruleset, parseSampleSize(searchParams.get('samples')));
+  } catch (error) {
+    console.error('[/api/recategorize/dry-run] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Dry run failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/recategorize/dry-run
+ *
+ * Same as GET for a candidate ruleset that doesn't have to be stored yet.
+ * Body (JSON): { "ruleset": { "version": "...", "categories": [...] }, "samples": 5 }
+ * or { "version": "..." } for a stored ruleset.
+ *
+ * Security: Protected by CRON_SECRET
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized: Invalid or missing cron secret' },
+      { status: 401 }
+    );
+  }
+
+  let body: { ruleset?: unknown; version?: string; samples?: number };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    let ruleset: CategoryRuleset;
+    if (body.ruleset !== undefined) {
+      const validationError = validateCategoryRuleset(body.ruleset);
+      if (validationError) {
+        return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+      }
+      ruleset = body.ruleset as CategoryRuleset;
+    } else if (body.version) {
+      const { data, error } = await getCategoryRuleset(body.version);
+      if (error || !data) {
+        return NextResponse.json(
+          { error: `Ruleset not found: ${body.version}`, details: error ?? undefined },
+          { status: error ? 500 : 404 }
+        );
+      }
+      ruleset = data;
+    } else {
+      return NextResponse.json(
+        { success: false, error: 'Provide a ruleset or a version' },
+        { status: 400 }
+      );
+    }
+
+    return await runDryRun(ruleset, parseSampleSize(body.samples));
+  } catch (error) {
+    console.error('[/api/recategorize/dry-run] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Dry run failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
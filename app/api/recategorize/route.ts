@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabase } from '@/lib/db';
-import { categorizeArticle } from '@/lib/categorize';
-import { ArticleCategory } from '@/types/article';
+import { getSupabase, saveArticleCategories } from '@/lib/db';
+import { categorizeArticleMultiLabel } from '@/lib/categorize';
+import { getActiveCategoryRuleset, getCategoryRuleset } from '@/lib/categoryRules';
+import { ArticleCategory, ArticleSubcategory, CategoryScore } from '@/types/article';
 
 // Force dynamic rendering - no caching
 export const dynamic = 'force-dynamic';
@@ -14,11 +15,14 @@ export const maxDuration = 60;
  * Recategorization stats
  */
 interface RecategorizationStats {
+  rulesVersion: string;     // Ruleset applied (stored on each article)
   total: number;
   updated: number;
   unchanged: number;
   failed: number;
+  labelsSaved: number;      // Rows written to article_categories
   categoryBreakdown: Record<ArticleCategory, number>;
+  subcategoryBreakdown: Partial<Record<ArticleSubcategory, number>>; // Primary label's sub-topic
   durationMs: number;
 }
 
@@ -27,6 +31,12 @@ interface RecategorizationStats {
  * 
  * Re-applies keyword-based categorization to all articles in the database.
  * This is useful after updating the categorization logic.
+ * Updates the primary category and sub-topic, and replaces all labels in
+ * article_categories.
+ * 
+ * Uses the active ruleset, or a stored one with ?version=... (that does not
+ * activate it - ingestion keeps using the active ruleset). Try a ruleset
+ * with /api/recategorize/dry-run first.
  * 
  * Security: Protected by CRON_SECRET (same as /api/ingest)
  */
@@ -50,10 +60,24 @@ export async function GET(request: NextRequest) {
   try {
     const supabase = getSupabase();
 
-    // Fetch all articles with their title and current category
+    const version = new URL(request.url).searchParams.get('version');
+    let ruleset = await getActiveCategoryRuleset();
+    if (version) {
+      const { data, error } = await getCategoryRuleset(version);
+      if (error || !data) {
+        return NextResponse.json(
+          { error: `Ruleset not found: ${version}`, details: error ?? undefined },
+          { status: error ? 500 : 404 }
+        );
+      }
+      ruleset = data;
+    }
+    console.log(`[/api/recategorize] Using ruleset ${ruleset.version}`);
+
+    // Fetch all articles with their title, snippet and current category
     const { data: articles, error: queryError } = await supabase
       .from('articles')
-      .select('id, title, category')
+      .select('id, title, snippet, category, subcategory')
       .order('pub_date', { ascending: false });
 
     if (queryError) {
@@ -69,11 +93,14 @@ export async function GET(request: NextRequest) {
         success: true,
         message: 'No articles to recategorize',
         stats: {
+          rulesVersion: ruleset.version,
           total: 0,
           updated: 0,
           unchanged: 0,
           failed: 0,
+          labelsSaved: 0,
           categoryBreakdown: {},
+          subcategoryBreakdown: {},
           durationMs: Date.now() - startTime,
         },
       });
@@ -82,10 +109,12 @@ export async function GET(request: NextRequest) {
     console.log(`[/api/recategorize] Processing ${articles.length} articles...`);
 
     const stats: RecategorizationStats = {
+      rulesVersion: ruleset.version,
       total: articles.length,
       updated: 0,
       unchanged: 0,
       failed: 0,
+      labelsSaved: 0,
       categoryBreakdown: {
         'LNG': 0,
         'Renewable Energy': 0,
@@ -93,19 +122,29 @@ export async function GET(request: NextRequest) {
         'Emissions': 0,
         'Infrastructure': 0,
       },
+      subcategoryBreakdown: {},
       durationMs: 0,
     };
 
     // Process articles in batches
-    const updates: { id: string; category: ArticleCategory }[] = [];
+    const updates: { id: string; category: ArticleCategory; subcategory: ArticleSubcategory | null }[] = [];
+    const unchangedIds: string[] = [];
+    const labels: { articleId: string; categories: CategoryScore[] }[] = [];
 
     for (const article of articles) {
-      const newCategory = categorizeArticle(article.title);
+      const categories = categorizeArticleMultiLabel(article.title, article.snippet ?? undefined, ruleset);
+      const newCategory = categories[0].category;
+      const newSubcategory = categories[0].subcategory ?? null;
       stats.categoryBreakdown[newCategory]++;
+      if (newSubcategory) {
+        stats.subcategoryBreakdown[newSubcategory] = (stats.subcategoryBreakdown[newSubcategory] || 0) + 1;
+      }
+      labels.push({ articleId: article.id, categories });
 
-      if (article.category !== newCategory) {
-        updates.push({ id: article.id, category: newCategory });
+      if (article.category !== newCategory || (article.subcategory ?? null) !== newSubcategory) {
+        updates.push({ id: article.id, category: newCategory, subcategory: newSubcategory });
       } else {
+        unchangedIds.push(article.id);
         stats.unchanged++;
       }
     }
@@ -118,7 +157,11 @@ export async function GET(request: NextRequest) {
       for (const update of updates) {
         const { error: updateError } = await supabase
           .from('articles')
-          .update({ category: update.category })
+          .update({
+            category: update.category,
+            subcategory: update.subcategory,
+            category_rules_version: ruleset.version,
+          })
           .eq('id', update.id);
 
         if (updateError) {
@@ -130,10 +173,31 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Record the ruleset on unchanged articles too (same value, so in batches)
+    const chunkSize = 200;
+    for (let i = 0; i < unchangedIds.length; i += chunkSize) {
+      const { error: versionError } = await supabase
+        .from('articles')
+        .update({ category_rules_version: ruleset.version })
+        .in('id', unchangedIds.slice(i, i + chunkSize));
+
+      if (versionError) {
+        console.error('[/api/recategorize] Version update error:', versionError);
+      }
+    }
+
+    // Replace all labels (secondary labels may change even if the primary didn't)
+    const { saved, errors: labelErrors } = await saveArticleCategories(labels, { replace: true });
+    stats.labelsSaved = saved;
+    if (labelErrors.length > 0) {
+      console.error('[/api/recategorize] Label save errors:', labelErrors);
+    }
+
     stats.durationMs = Date.now() - startTime;
 
     console.log(`[/api/recategorize] Completed: ${stats.updated} updated, ${stats.unchanged} unchanged, ${stats.failed} failed`);
     console.log('[/api/recategorize] Category breakdown:', stats.categoryBreakdown);
+    console.log('[/api/recategorize] Sub-topic breakdown:', stats.subcategoryBreakdown);
 
     return NextResponse.json({
       success: true,
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabase } from '@/lib/db';
-import { summarizeArticle, isOpenAIConfigured } from '@/lib/summarize';
+import { getLLMProvider } from '@/lib/llm';
+import { runSummaryPool } from '@/lib/summaryPool';
+import {
+  createSummaryBudget,
+  getDeferredSummaryIds,
+  removeDeferredSummaries,
+  saveSummaryUsage,
+} from '@/lib/summaryBudget';
 
 // Force dynamic rendering - no caching
 export const dynamic = 'force-dynamic';
@@ -9,6 +16,9 @@ export const runtime = 'nodejs';
 // Allow up to 300 seconds for re-summarization (many API calls)
 export const maxDuration = 300;
 
+// No summary starts after this, leaving time to respond
+const SUMMARY_DEADLINE_MS = 240_000;
+
 /**
  * Re-summarization stats
  */
@@ -17,7 +27,14 @@ interface ResummarizationStats {
   updated: number;
   failed: number;
   skipped: number;
+  queued: number;       // Deferred by an earlier run (see lib/summaryBudget.ts)
+  deferred: number;     // Not processed - budget exhausted
+  timedOut: number;     // Not processed - deadline reached
+  cacheHits: number;
+  retries: number;      // After a 429 / transient error
   tokensUsed: number;
+  estimatedCostUsd: number;
+  budgetExhausted: string | null;
   durationMs: number;
 }
 
@@ -25,11 +42,19 @@ interface ResummarizationStats {
  * Protected re-summarization endpoint
  * 
  * Re-generates AI summaries for articles that have placeholder summaries
- * (summaries that match or are similar to their titles).
+ * (summaries that match or are similar to their titles), from the title and
+ * stored snippet. Without an LLM API the summaries are extractive.
+ * 
+ * Articles deferred by ingestion (summary budget or deadline) are processed
+ * first. Summaries run in a worker pool (lib/summaryPool.ts) and are saved
+ * one by one; calls stop once the budget is exhausted or the deadline
+ * passes. Content summarized before is served from the summary cache
+ * without spending tokens.
  * 
  * Query params:
  * - limit: Max articles to process (default 20, max 50)
  * - force: If true, re-summarize ALL articles (not just placeholders)
+ * - refreshCache: If true, ignore cached summaries (spends tokens again)
  * 
  * Security: Protected by CRON_SECRET (same as /api/ingest)
  */
@@ -47,16 +72,9 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  // Check if OpenAI is configured
-  if (!isOpenAIConfigured()) {
-    return NextResponse.json(
-      { error: 'OpenAI API key not configured' },
-      { status: 500 }
-    );
-  }
-
   const startTime = Date.now();
-  console.log('[/api/resummarize] Starting re-summarization...');
+  const provider = getLLMProvider();
+  console.log(`[/api/resummarize] Starting re-summarization with ${provider.name}...`);
 
   // Parse query params
   const { searchParams } = new URL(request.url);
@@ -65,15 +83,33 @@ export async function GET(request: NextRequest) {
   
   const limit = Math.min(parseInt(limitParam || '20', 10), 150);
   const force = forceParam === 'true';
+  const refreshCache = searchParams.get('refreshCache') === 'true';
 
   try {
     const supabase = getSupabase();
 
+    // Articles deferred by ingestion (budget / deadline) come first
+    const { data: queuedIds, error: queueError } = await getDeferredSummaryIds(limit);
+    if (queueError) {
+      console.error('[/api/resummarize] Queue error:', queueError);
+    }
+    let queuedArticles: { id: string; title: string; summary: string; snippet: string | null; source: string; pub_date: string }[] = [];
+    if (queuedIds.length > 0) {
+      const { data, error } = await supabase
+        .from('articles')
+        .select('id, title, summary, snippet, source, pub_date')
+        .in('id', queuedIds);
+      if (error) {
+        console.error('[/api/resummarize] Queue query error:', error);
+      }
+      queuedArticles = data || [];
+    }
+
     // Fetch articles that need re-summarization
     // A "placeholder" summary is one that matches or closely matches the title
     let query = supabase
       .from('articles')
-      .select('id, title, summary, source')
+      .select('id, title, summary, snippet, source, pub_date')
       .order('pub_date', { ascending: false })
       .limit(limit);
 
@@ -87,7 +123,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    if (!articles || articles.length === 0) {
+    if ((!articles || articles.length === 0) && queuedArticles.length === 0) {
       return NextResponse.json({
         success: true,
         message: 'No articles found',
@@ -96,56 +132,105 @@ export async function GET(request: NextRequest) {
           updated: 0,
           failed: 0,
           skipped: 0,
+          queued: 0,
+          deferred: 0,
+          timedOut: 0,
+          cacheHits: 0,
+          retries: 0,
           tokensUsed: 0,
+          estimatedCostUsd: 0,
+          budgetExhausted: null,
           durationMs: Date.now() - startTime,
         },
       });
     }
 
     // Filter to articles with placeholder summaries (unless force=true)
-    const articlesToProcess = force
-      ? articles
-      : articles.filter((a) => isPlaceholderSummary(a.title, a.summary));
+    const queuedIdSet = new Set(queuedArticles.map((a) => a.id));
+    const recentArticles = (articles || []).filter((a) => !queuedIdSet.has(a.id));
+    const placeholderArticles = force
+      ? recentArticles
+      : recentArticles.filter((a) => isPlaceholderSummary(a.title, a.summary));
+    const articlesToProcess = [...queuedArticles, ...placeholderArticles].slice(0, limit);
 
-    console.log(`[/api/resummarize] Found ${articles.length} articles, ${articlesToProcess.length} need re-summarization`);
+    console.log(`[/api/resummarize] Found ${queuedArticles.length} queued and ${recentArticles.length} recent articles, ${articlesToProcess.length} need re-summarization`);
 
     const stats: ResummarizationStats = {
-      total: articles.length,
+      total: queuedArticles.length + recentArticles.length,
       updated: 0,
       failed: 0,
-      skipped: articles.length - articlesToProcess.length,
+      skipped: recentArticles.length - placeholderArticles.length,
+      queued: queuedArticles.length,
+      deferred: 0,
+      timedOut: 0,
+      cacheHits: 0,
+      retries: 0,
       tokensUsed: 0,
+      estimatedCostUsd: 0,
+      budgetExhausted: null,
       durationMs: 0,
     };
 
-    // Process each article
-    for (const article of articlesToProcess) {
-      console.log(`[/api/resummarize] Processing: ${article.title.slice(0, 50)}...`);
-
-      const result = await summarizeArticle(article.title, undefined, article.source);
-
-      if (result.success && result.summary) {
-        // Update the article with the new summary
-        const { error: updateError } = await supabase
-          .from('articles')
-          .update({ summary: result.summary })
-          .eq('id', article.id);
-
-        if (updateError) {
-          console.error(`[/api/resummarize] Update error for ${article.id}:`, updateError);
-          stats.failed++;
-        } else {
-          console.log(`[/api/resummarize] ✅ Updated: ${article.title.slice(0, 40)}...`);
+    const budget = await createSummaryBudget();
+
+    // Checkpoint: each summary is saved (and leaves the queue) as soon as it
+    // is done, so a run that hits maxDuration keeps its progress
+    const pool = await runSummaryPool(
+      articlesToProcess.map((article) => ({
+        id: article.id,
+        title: article.title,
+        content: article.snippet,
+        source: article.source,
+        publishedAt: article.pub_date,
+      })),
+      {
+        budget,
+        refreshCache,
+        deadline: startTime + SUMMARY_DEADLINE_MS,
+        checkpoint: async (job, result) => {
+          if (!result.success || !result.summary) {
+            console.log(`[/api/resummarize] ❌ Failed: ${job.title.slice(0, 40)}... - ${result.error}`);
+            stats.failed++;
+            return;
+          }
+
+          const { error: updateError } = await supabase
+            .from('articles')
+            .update({ summary: result.summary, structured_summary: result.structured ?? null })
+            .eq('id', job.id);
+
+          if (updateError) {
+            console.error(`[/api/resummarize] Update error for ${job.id}:`, updateError);
+            stats.failed++;
+            return;
+          }
+
+          console.log(`[/api/resummarize] ✅ Updated: ${job.title.slice(0, 40)}...`);
           stats.updated++;
-          stats.tokensUsed += result.tokensUsed || 0;
-        }
-      } else {
-        console.log(`[/api/resummarize] ❌ Failed: ${article.title.slice(0, 40)}... - ${result.error}`);
-        stats.failed++;
+          if (queuedIdSet.has(job.id)) {
+            const { error: removeError } = await removeDeferredSummaries([job.id]);
+            if (removeError) {
+              console.error(`[/api/resummarize] Queue error for ${job.id}:`, removeError);
+            }
+          }
+        },
       }
+    );
+
+    stats.tokensUsed = pool.tokensUsed;
+    stats.estimatedCostUsd = pool.costUsd;
+    stats.cacheHits = pool.cacheHits;
+    stats.retries = pool.retries;
+    stats.deferred = pool.deferred.length;
+    stats.timedOut = pool.unfinished.length;
+    stats.budgetExhausted = budget.exhausted;
+    if (stats.deferred > 0 || stats.timedOut > 0) {
+      console.log(`[/api/resummarize] ${stats.deferred} articles over budget, ${stats.timedOut} past the deadline - left for the next run`);
+    }
 
-      // Small delay between API calls to respect rate limits
-      await new Promise((resolve) => setTimeout(resolve, 200));
+    const { error: usageError } = await saveSummaryUsage(budget);
+    if (usageError) {
+      console.error('[/api/resummarize] Usage error:', usageError);
     }
 
     stats.durationMs = Date.now() - startTime;
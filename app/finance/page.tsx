@@ -13,6 +13,17 @@ interface Stock {
   currentPrice: number;
   change: number;
   changePercent: number;
+  mentions?: { last24h: number; last7d: number };
+}
+
+// Related headline from /api/finance/stocks/[symbol]/news
+interface StockNewsItem {
+  id: string;
+  title: string;
+  source: string;
+  link: string;
+  pubDate: string;
+  origin: 'article' | 'finnhub';
 }
 
 interface ForexRate {
@@ -203,6 +214,8 @@ export default function FinancePage() {
   const [selectedMarket, setSelectedMarket] = useState<Market>('US');
   const [marketDropdownOpen, setMarketDropdownOpen] = useState(false);
   const [expandedSummaries, setExpandedSummaries] = useState<Set<number>>(new Set());
+  const [expandedStock, setExpandedStock] = useState<string | null>(null);
+  const [stockNews, setStockNews] = useState<Record<string, StockNewsItem[]>>({});
   
   // Data states
   const [stocks, setStocks] = useState<Stock[]>(FALLBACK_STOCKS);
@@ -351,6 +364,20 @@ export default function FinancePage() {
     return () => clearInterval(interval);
   }, [selectedMarket]);
 
+  // Expand a stock card into its related headlines (loaded on first open)
+  const toggleStock = (symbol: string) => {
+    const next = expandedStock === symbol ? null : symbol;
+    setExpandedStock(next);
+    if (next && !stockNews[next]) {
+      fetch(`/api/finance/stocks/${next}/news?limit=8`)
+        .then(r => r.json())
+        .then(data => setStockNews(prev => ({ ...prev, [next]: data.items || [] })))
+        .catch(() => setStockNews(prev => ({ ...prev, [next]: [] })));
+    }
+  };
+
+  const expandedStockInfo = visibleStocks.find(stock => stock.symbol === expandedStock);
+
   const toggleSummary = (id: number) => {
     setExpandedSummaries(prev => {
       const newSet = new Set(prev);
@@ -532,8 +559,11 @@ export default function FinancePage() {
                 {visibleStocks.map((stock, index) => (
                   <div 
                     key={stock.symbol}
-                    className="bg-zinc-800/30 border border-zinc-700/40 rounded-xl p-4 
-                             hover:bg-zinc-800/50 hover:border-zinc-600/50 transition-all duration-200 cursor-pointer"
+                    onClick={() => toggleStock(stock.symbol)}
+                    className={`bg-zinc-800/30 border rounded-xl p-4 
+                             hover:bg-zinc-800/50 hover:border-zinc-600/50 transition-all duration-200 cursor-pointer ${
+                      expandedStock === stock.symbol ? 'border-cyan-500/50' : 'border-zinc-700/40'
+                    }`}
                   >
                     <div className="flex items-start justify-between mb-2">
                       <div className="min-w-0 flex-1">
@@ -563,9 +593,57 @@ export default function FinancePage() {
                         {stock.change >= 0 ? '+' : ''}{stock.change?.toFixed(2) || '0.00'}
                       </span>
                     </div>
+                    {stock.mentions && (
+                      <p className="mt-2 text-xs text-zinc-500" title="Articles mentioning the company">
+                        {stock.mentions.last24h} today · {stock.mentions.last7d} this week
+                      </p>
+                    )}
                   </div>
                 ))}
               </div>
+
+              {/* Related headlines of the selected stock */}
+              {expandedStockInfo && (
+                <div className="mt-3 bg-zinc-800/25 border border-zinc-700/40 rounded-xl px-5 py-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-medium text-zinc-100">
+                      {expandedStockInfo.companyName} in the news
+                    </h3>
+                    <button
+                      onClick={() => setExpandedStock(null)}
+                      className="text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+                    >
+                      Close
+                    </button>
+                  </div>
+                  {!stockNews[expandedStockInfo.symbol] ? (
+                    <p className="text-sm text-zinc-500">Loading headlines...</p>
+                  ) : stockNews[expandedStockInfo.symbol].length === 0 ? (
+                    <p className="text-sm text-zinc-500">No headlines in the last 7 days</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {stockNews[expandedStockInfo.symbol].map((item) => (
+                        <li key={item.id} className="flex items-start gap-3">
+                          <SourceIcon source={item.source} />
+                          <div className="min-w-0 flex-1">
+                            <a
+                              href={item.link}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-sm text-zinc-300 hover:text-cyan-400 transition-colors line-clamp-2"
+                            >
+                              {item.title}
+                            </a>
+                            <p className="text-xs text-zinc-500">
+                              {item.source} · {new Date(item.pubDate).toLocaleDateString()}
+                            </p>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
             </section>
 
             {/* Mobile Forex Rates - Shows between stocks and market summary on mobile */}
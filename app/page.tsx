@@ -8,7 +8,7 @@ import { CategoryChips } from '@/components/CategoryChips';
 import { HamburgerMenu } from '@/components/HamburgerMenu';
 import { PageWrapper } from '@/components/PageWrapper';
 import { EnervaBrand } from '@/components/EnervaBrand';
-import { ArticleCategory, ArticleRow } from '@/types/article';
+import { ArticleCategory, ArticleSubcategory, ArticleWithStory } from '@/types/article';
 
 // Force dynamic rendering - always fetch fresh data from Supabase
 export const dynamic = 'force-dynamic';
@@ -16,7 +16,7 @@ export const fetchCache = 'force-no-store';
 export const revalidate = 0;
 
 interface PageProps {
-  searchParams: { category?: string; archive?: string };
+  searchParams: { category?: string; subtopic?: string; archive?: string };
 }
 
 /**
@@ -27,10 +27,10 @@ interface PageProps {
  * 
  * Each "pattern group" consumes 5 articles total.
  */
-function groupArticlesIntoPattern(articles: ArticleRow[]) {
+function groupArticlesIntoPattern(articles: ArticleWithStory[]) {
   const groups: Array<{
     type: 'large-right' | 'medium-row' | 'large-left';
-    articles: ArticleRow[];
+    articles: ArticleWithStory[];
   }> = [];
 
   let index = 0;
@@ -79,17 +79,24 @@ function groupArticlesIntoPattern(articles: ArticleRow[]) {
  * - Row 1: Large featured article (summary left, image right)
  * - Row 2: 3 medium articles (image top, text below)
  * - Row 3: Large featured article (image left, summary right)
+ * 
+ * Multi-source coverage of one event is shown as a single lead card
+ * ("Also covered by N sources").
  */
 export default async function DiscoverPage({ searchParams }: PageProps) {
   noStore();
 
   const category = searchParams.category as ArticleCategory | undefined;
+  const subtopic = searchParams.subtopic as ArticleSubcategory | undefined;
+  const topicLabel = subtopic ? `${category ? `${category} › ` : ''}${subtopic}` : category;
   const archive = searchParams.archive as TimeRange | undefined;
   
   const { articles, error } = await getArticles({ 
     category: category || undefined,
+    subcategory: subtopic || undefined,
     timeRange: archive || 'latest',
-    limit: 25 
+    limit: 25,
+    groupByStory: true,
   });
 
   const articleGroups = groupArticlesIntoPattern(articles);
@@ -203,8 +210,8 @@ export default async function DiscoverPage({ searchParams }: PageProps) {
             </div>
             <h3 className="text-xl font-semibold text-zinc-300 mb-2">No articles found</h3>
             <p className="text-zinc-500">
-              {category 
-                ? `No articles in the "${category}" category yet.` 
+              {topicLabel 
+                ? `No articles in the "${topicLabel}" category yet.` 
                 : 'Run the ingestion to populate articles.'}
             </p>
           </div>
@@ -214,7 +221,7 @@ export default async function DiscoverPage({ searchParams }: PageProps) {
         <footer className="mt-16 pt-8 border-t border-zinc-800/50 text-center text-sm text-zinc-500">
           <p>
             Showing {articles.length} article{articles.length !== 1 ? 's' : ''}
-            {category ? ` in ${category}` : ''}
+            {topicLabel ? ` in ${topicLabel}` : ''}
             {isArchiveView ? ` from archive` : ''}
           </p>
         </footer>
@@ -2,12 +2,12 @@
 
 import Image from 'next/image';
 import { useState, useEffect } from 'react';
-import { ArticleRow } from '@/types/article';
+import { ArticleRow, ArticleWithStory, StoryCoverage } from '@/types/article';
 import { getArticleImage, getCategoryPlaceholders, isPlaceholderImage } from '@/lib/images';
-import { formatTimeAgo } from '@/lib/getArticles';
+import { formatTimeAgo, getArticleTeaser, getNextDeadline } from '@/lib/getArticles';
 
 interface ArticleCardProps {
-  article: ArticleRow;
+  article: ArticleWithStory;
   priority?: boolean;
 }
 
@@ -20,6 +20,7 @@ function ArticleImage({
   src, 
   alt, 
   fallbackCategory,
+  fallbackSubcategory,
   priority = false,
   sizes = "(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw",
   className = ""
@@ -27,12 +28,13 @@ function ArticleImage({
   src: string; 
   alt: string; 
   fallbackCategory: string;
+  fallbackSubcategory?: string | null;
   priority?: boolean;
   sizes?: string;
   className?: string;
 }) {
   const [imageSrc, setImageSrc] = useState(src);
-  const fallbackCandidates = getCategoryPlaceholders(fallbackCategory);
+  const fallbackCandidates = getCategoryPlaceholders(fallbackCategory, fallbackSubcategory);
   
   // Reset state when src prop changes (e.g., when article changes)
   useEffect(() => {
@@ -108,6 +110,78 @@ function SourceBadge({ source }: { source: string }) {
   );
 }
 
+/**
+ * Story Coverage Component
+ * Shows how many other sources covered the same story
+ */
+function StoryCoverageBadge({ story }: { story?: StoryCoverage | null }) {
+  if (!story || story.otherSources.length === 0) {
+    return null;
+  }
+
+  const count = story.otherSources.length;
+  return (
+    <span className="text-xs text-zinc-500" title={story.otherSources.join(', ')}>
+      Also covered by {count} source{count > 1 ? 's' : ''}
+    </span>
+  );
+}
+
+/**
+ * Deadline Badge Component
+ * Shows the next upcoming deadline (highlighted within a week)
+ */
+function DeadlineBadge({ article }: { article: ArticleRow }) {
+  const deadline = getNextDeadline(article);
+  if (!deadline) {
+    return null;
+  }
+
+  const date = new Date(`${deadline.date}T00:00:00Z`);
+  const daysLeft = Math.ceil((date.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  const label = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  const isSoon = daysLeft <= 7;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-full border ${
+        isSoon
+          ? 'bg-amber-500/10 text-amber-400 border-amber-500/30'
+          : 'bg-zinc-800/60 text-zinc-300 border-zinc-700/50'
+      }`}
+      title={deadline.description}
+    >
+      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <rect x="3" y="5" width="18" height="16" rx="2" strokeWidth="1.5"/>
+        <path strokeLinecap="round" d="M3 10h18M8 3v4M16 3v4" strokeWidth="1.5"/>
+      </svg>
+      Deadline {label}
+    </span>
+  );
+}
+
+/**
+ * Key Points Component
+ * Bullet points from the structured summary
+ */
+function KeyPoints({ article, max = 3 }: { article: ArticleRow; max?: number }) {
+  const keyPoints = article.structured_summary?.keyPoints || [];
+  if (keyPoints.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="space-y-1.5 mb-6">
+      {keyPoints.slice(0, max).map((point) => (
+        <li key={point} className="flex gap-2 text-sm text-zinc-400 group-hover:text-zinc-300 transition-colors duration-300">
+          <span className="text-cyan-500 flex-shrink-0">•</span>
+          <span className="line-clamp-2">{point}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 /**
  * Article Card Component (Medium Size)
  * 
@@ -132,6 +206,7 @@ export function ArticleCard({ article, priority = false }: ArticleCardProps) {
             src={imageUrl}
             alt={article.title}
             fallbackCategory={article.category}
+            fallbackSubcategory={article.subcategory}
             priority={priority}
             className="transition-transform duration-500 group-hover:scale-110"
           />
@@ -140,6 +215,7 @@ export function ArticleCard({ article, priority = false }: ArticleCardProps) {
             <span className="px-2.5 py-1 text-xs font-medium rounded-full 
                            bg-black/60 backdrop-blur-sm text-zinc-300 border border-zinc-700/50">
               {article.category}
+              {article.subcategory && ` · ${article.subcategory}`}
             </span>
           </div>
         </div>
@@ -155,7 +231,7 @@ export function ArticleCard({ article, priority = false }: ArticleCardProps) {
           {/* Summary */}
           <p className="text-sm text-zinc-400 leading-relaxed line-clamp-2 flex-1 
                         group-hover:text-zinc-300 transition-colors duration-300">
-            {article.summary}
+            {getArticleTeaser(article)}
           </p>
 
           {/* Footer: Source and Time */}
@@ -163,6 +239,13 @@ export function ArticleCard({ article, priority = false }: ArticleCardProps) {
             <SourceBadge source={article.source} />
             <span className="text-xs text-zinc-500">{timeAgo}</span>
           </div>
+
+          {/* Story Coverage */}
+          {article.story && article.story.otherSources.length > 0 && (
+            <div className="mt-2">
+              <StoryCoverageBadge story={article.story} />
+            </div>
+          )}
         </div>
       </a>
     </div>
@@ -176,7 +259,7 @@ export function ArticleCard({ article, priority = false }: ArticleCardProps) {
  * Used for featured articles in the repeating pattern.
  */
 interface LargeArticleCardProps {
-  article: ArticleRow;
+  article: ArticleWithStory;
   imagePosition?: 'left' | 'right';
   priority?: boolean;
 }
@@ -206,6 +289,7 @@ export function LargeArticleCard({
               src={imageUrl}
               alt={article.title}
               fallbackCategory={article.category}
+              fallbackSubcategory={article.subcategory}
               priority={priority}
               sizes="(max-width: 1024px) 100vw, 50vw"
               className="transition-transform duration-500 group-hover:scale-110"
@@ -215,6 +299,7 @@ export function LargeArticleCard({
               <span className="px-3 py-1.5 text-xs font-medium rounded-full 
                              bg-black/60 backdrop-blur-sm text-zinc-300 border border-zinc-700/50">
                 {article.category}
+                {article.subcategory && ` · ${article.subcategory}`}
               </span>
             </div>
           </div>
@@ -223,13 +308,14 @@ export function LargeArticleCard({
           <div className={`flex flex-col justify-center py-2 
                           ${isImageLeft ? 'order-2' : 'order-2 lg:order-1'}`}>
             {/* Time Published */}
-            <div className="flex items-center gap-2 text-sm text-zinc-500 mb-4 
+            <div className="flex flex-wrap items-center gap-2 text-sm text-zinc-500 mb-4 
                             group-hover:text-zinc-400 transition-colors duration-300">
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <circle cx="12" cy="12" r="10" strokeWidth="1.5"/>
                 <path strokeLinecap="round" d="M12 6v6l4 2" strokeWidth="1.5"/>
               </svg>
               <span>Published {timeAgo}</span>
+              <DeadlineBadge article={article} />
             </div>
 
             {/* Title */}
@@ -241,12 +327,21 @@ export function LargeArticleCard({
             {/* Summary */}
             <p className="text-base text-zinc-400 leading-relaxed line-clamp-3 mb-6 
                           group-hover:text-zinc-300 transition-colors duration-300">
-              {article.summary}
+              {getArticleTeaser(article)}
             </p>
 
+            {/* Key Points (structured summary) */}
+            <KeyPoints article={article} />
+
             {/* Footer: Sources */}
-            <div className="flex items-center gap-4">
+            <div className="flex flex-wrap items-center gap-4">
               <SourceBadge source={article.source} />
+              {article.story && article.story.otherSources.length > 0 && (
+                <>
+                  <span className="text-xs text-zinc-600">•</span>
+                  <StoryCoverageBadge story={article.story} />
+                </>
+              )}
               <span className="text-xs text-zinc-600">•</span>
               <span className="text-xs text-zinc-500 group-hover:text-cyan-400 transition-colors duration-300">
                 Read more →
@@ -263,6 +358,7 @@ export function LargeArticleCard({
  * Hero Article Card (Legacy - kept for compatibility)
  * 
  * Redirects to LargeArticleCard with imagePosition='right'
+ * (so it shows the key points and deadline badge too)
  */
 export function HeroArticleCard({ article }: { article: ArticleRow }) {
   return <LargeArticleCard article={article} imagePosition="right" priority />;
@@ -2,8 +2,9 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { ArticleCategory } from '@/types/article';
+import { ArticleCategory, ArticleSubcategory } from '@/types/article';
 import { TimeRange } from '@/lib/getArticles';
+import { CATEGORY_TAXONOMY } from '@/lib/categorize';
 
 const ARCHIVE_OPTIONS: { value: TimeRange; label: string }[] = [
   { value: '24h', label: 'Past 24 hours' },
@@ -62,11 +63,15 @@ const TOPICS: { name: ArticleCategory; icon: React.ReactNode }[] = [
 
 /**
  * Category Filter with Latest tab, Topics dropdown, and Archive dropdown
+ * 
+ * Sub-topics (e.g., Nuclear under Infrastructure) show as nested chips
+ * below their topic.
  */
 export function CategoryChips() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const currentCategory = searchParams.get('category') || null;
+  const currentSubtopic = searchParams.get('subtopic') || null;
   const currentTimeRange = searchParams.get('archive') as TimeRange | null;
   const [isTopicsOpen, setIsTopicsOpen] = useState(false);
   const [isArchiveOpen, setIsArchiveOpen] = useState(false);
@@ -110,12 +115,23 @@ export function CategoryChips() {
     setIsTopicsOpen(false);
   };
 
+  const handleSubtopicClick = (category: ArticleCategory, subtopic: ArticleSubcategory) => {
+    const params = new URLSearchParams();
+    params.set('category', category);
+    params.set('subtopic', subtopic);
+    router.push(`/?${params.toString()}`);
+    setIsTopicsOpen(false);
+  };
+
   const handleArchiveClick = (timeRange: TimeRange) => {
     const params = new URLSearchParams();
     params.set('archive', timeRange);
     if (currentCategory) {
       params.set('category', currentCategory);
     }
+    if (currentSubtopic) {
+      params.set('subtopic', currentSubtopic);
+    }
     router.push(`/?${params.toString()}`);
     setIsArchiveOpen(false);
   };
@@ -153,7 +169,7 @@ export function CategoryChips() {
             }
           `}
         >
-          <span>{currentCategory || 'Topics'}</span>
+          <span>{currentSubtopic || currentCategory || 'Topics'}</span>
           <svg 
             className={`w-4 h-4 transition-transform duration-200 ${isTopicsOpen ? 'rotate-180' : ''}`} 
             fill="none" 
@@ -174,27 +190,55 @@ export function CategoryChips() {
         >
           <nav className="py-2">
             {TOPICS.map((topic) => {
-              const isActive = currentCategory === topic.name;
+              const isActive = currentCategory === topic.name && !currentSubtopic;
+              const subtopics = CATEGORY_TAXONOMY[topic.name];
               return (
-                <button
-                  key={topic.name}
-                  onClick={() => handleTopicClick(topic.name)}
-                  className={`
-                    flex items-center gap-3 w-full px-4 py-3 text-sm text-left
-                    transition-colors duration-200
-                    ${isActive 
-                      ? 'bg-cyan-500/10 text-cyan-400' 
-                      : 'text-zinc-300 hover:bg-zinc-800 hover:text-cyan-400'
-                    }
-                  `}
-                >
-                  <span className={isActive ? 'text-cyan-400' : 'text-zinc-500'}>
-                    {topic.icon}
-                  </span>
-                  {topic.name}
-                </button>
+                <div key={topic.name}>
+                  <button
+                    onClick={() => handleTopicClick(topic.name)}
+                    className={`
+                      flex items-center gap-3 w-full px-4 py-3 text-sm text-left
+                      transition-colors duration-200
+                      ${isActive 
+                        ? 'bg-cyan-500/10 text-cyan-400' 
+                        : 'text-zinc-300 hover:bg-zinc-800 hover:text-cyan-400'
+                      }
+                    `}
+                  >
+                    <span className={isActive ? 'text-cyan-400' : 'text-zinc-500'}>
+                      {topic.icon}
+                    </span>
+                    {topic.name}
+                  </button>
+                  {subtopics.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 pl-11 pr-4 pb-2">
+                      {subtopics.map((subtopic) => {
+                        const isSubtopicActive = currentCategory === topic.name && currentSubtopic === subtopic;
+                        return (
+                          <button
+                            key={subtopic}
+                            onClick={() => handleSubtopicClick(topic.name, subtopic)}
+                            className={`
+                              px-2.5 py-1 text-xs font-medium rounded-full transition-colors duration-200
+                              ${isSubtopicActive
+                                ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/40'
+                                : 'bg-zinc-800/80 text-zinc-400 hover:text-cyan-400 border border-zinc-700/50'
+                              }
+                            `}
+                          >
+                            {subtopic}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
               );
             })}
+            {/* Topics match any label of an article, not just its primary one */}
+            <p className="px-4 pt-2 pb-1 text-xs text-zinc-500 border-t border-zinc-800">
+              Includes articles where the topic is a secondary label
+            </p>
           </nav>
         </div>
       </div>
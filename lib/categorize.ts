@@ -4,334 +4,373 @@
  * Deterministic categorization based on keyword matching.
  * AI is NOT used for categorization (only for summarization).
  * 
- * Categories:
- * - LNG: Liquefied natural gas related content
- * - Renewable Energy: Solar, wind, hydro, storage, hydrogen
- * - Energy Policy: Regulations, legislation, agencies
+ * Articles get a ranked list of labels with normalized confidence (stored
+ * in `article_categories`); the top label is the primary `category`.
+ * 
+ * Keywords come from a versioned ruleset (CategoryRuleset) rather than
+ * code, so rules can change without a deploy. Keywords are matched as whole
+ * words (or consecutive words for phrases) after simple stemming - so 'rps'
+ * doesn't match "corps" and 'battery' matches "batteries". On equal scores
+ * the category listed first in the ruleset ranks first.
+ * 
+ * Categories (sub-topics in parentheses):
+ * - LNG: Liquefied natural gas and other hydrocarbon supply (Oil)
+ * - Renewable Energy: Solar, wind, hydro, storage, hydrogen (Hydrogen, Grid Storage)
+ * - Energy Policy: Regulations, legislation, agencies (Critical Minerals)
  * - Emissions: Carbon, climate, pollution, decarbonization
- * - Infrastructure: Grid, transmission, utilities, power plants
+ * - Infrastructure: Grid, transmission, utilities, power plants (Nuclear)
+ * 
+ * Sub-topic keywords count toward their category, so a nuclear or oil
+ * story no longer falls through to 'Energy Policy'.
+ */
+
+import {
+  ArticleCategory,
+  ArticleSubcategory,
+  CategoryRule,
+  CategoryRuleset,
+  CategoryScore,
+  SubcategoryRule,
+} from '@/types/article';
+import defaultRuleset from './rules/category-rules.json';
+
+/**
+ * Minimum confidence for an article to match a secondary label
+ * (category filters match any label at or above it)
+ */
+export const CATEGORY_CONFIDENCE_THRESHOLD = 0.25;
+
+/**
+ * Two-level taxonomy: sub-topics of each category
+ * 
+ * Rulesets may only define sub-topics under their parent listed here.
  */
+export const CATEGORY_TAXONOMY: Record<ArticleCategory, ArticleSubcategory[]> = {
+  'LNG': ['Oil'],
+  'Renewable Energy': ['Hydrogen', 'Grid Storage'],
+  'Energy Policy': ['Critical Minerals'],
+  'Emissions': [],
+  'Infrastructure': ['Nuclear'],
+};
 
-import { ArticleCategory } from '@/types/article';
+/**
+ * Minimum sub-topic score to label a category with it
+ * (one strong keyword, one proximity phrase or two keywords)
+ */
+const SUBCATEGORY_MIN_SCORE = 2;
 
 /**
- * Keyword patterns for each category
+ * Built-in ruleset (lib/rules/category-rules.json)
  * 
- * Keywords are matched case-insensitively against article title and content.
- * Order matters - first match wins (more specific categories checked first).
+ * Used when no ruleset is active in the `category_rulesets` table
+ * (see lib/categoryRules.ts). Bump its version whenever the rules change.
+ */
+export const DEFAULT_CATEGORY_RULESET = defaultRuleset as CategoryRuleset;
+
+// Points per match
+const STRONG_WEIGHT = 3;
+const PROXIMITY_WEIGHT = 2;
+const KEYWORD_WEIGHT = 1;
+
+/**
+ * Kind of keyword that fired
+ */
+export type KeywordMatchKind = 'strong' | 'keyword' | 'proximity';
+
+/**
+ * Keyword that fired for a category
+ */
+export interface KeywordMatch {
+  keyword: string;        // Keyword as configured (proximity: 'hydrogen ~3 hub')
+  kind: KeywordMatchKind;
+  weight: number;
+  text: string;           // Matched words in the article
+}
+
+/**
+ * Keyword that matched but was suppressed by a negative keyword
  */
-interface CategoryKeywords {
+export interface SuppressedMatch extends KeywordMatch {
+  suppressedBy: string;   // Negative keyword, e.g. 'windfall tax'
+}
+
+/**
+ * Keywords of a category (subcategory: null) or one of its sub-topics
+ */
+interface RuleMatches {
+  subcategory: ArticleSubcategory | null;
+  fired: KeywordMatch[];
+  suppressed: SuppressedMatch[];
+}
+
+interface CompiledTerm {
+  keyword: string;
+  kind: KeywordMatchKind;
+  weight: number;
+  stems: string[][];      // One stem sequence per term (phrases have one; proximity has several)
+  within: number;         // Max word distance between proximity terms
+}
+
+interface CompiledRule {
+  terms: CompiledTerm[];
+  negatives: { keyword: string; stems: string[] }[];
+}
+
+interface CompiledCategory extends CompiledRule {
   category: ArticleCategory;
-  keywords: string[];
-  // Higher weight keywords that strongly indicate this category
-  strongKeywords: string[];
+  subcategories: (CompiledRule & { subcategory: ArticleSubcategory })[];
 }
 
-const CATEGORY_PATTERNS: CategoryKeywords[] = [
-  {
-    category: 'LNG',
-    strongKeywords: [
-      'lng',
-      'liquefied natural gas',
-      'gas export terminal',
-      'gas import terminal',
-      'regasification',
-      'liquefaction plant',
-      'lng tanker',
-      'lng carrier',
-      'lng facility',
-      'lng project',
-    ],
-    keywords: [
-      'natural gas export',
-      'natural gas import',
-      'gas terminal',
-      'gas pipeline',
-      'methane terminal',
-      'floating lng',
-      'flng',
-      'fsru',
-      'cryogenic',
-      'gas storage facility',
-      'gas processing',
-    ],
-  },
-  {
-    category: 'Renewable Energy',
-    strongKeywords: [
-      'solar power',
-      'solar energy',
-      'wind power',
-      'wind energy',
-      'wind farm',
-      'solar farm',
-      'offshore wind',
-      'onshore wind',
-      'renewable energy',
-      'clean energy',
-      'green energy',
-      'photovoltaic',
-      'wind turbine',
-      'solar panel',
-      'battery storage',
-      'energy storage',
-      'green hydrogen',
-      'electrolysis',
-      'hydropower',
-      'geothermal',
-    ],
-    keywords: [
-      'solar',
-      'wind',
-      'renewable',
-      'biomass',
-      'biofuel',
-      'biogas',
-      'hydroelectric',
-      'tidal power',
-      'wave energy',
-      'fuel cell',
-      'hydrogen production',
-      'electrolyzer',
-      'battery',
-      'lithium-ion',
-      'storage system',
-      'grid storage',
-      'utility-scale solar',
-      'utility-scale wind',
-      'distributed generation',
-      'rooftop solar',
-      'pv system',
-      'inverter',
-      'net metering',
-      'renewable portfolio',
-      'rps',
-      'clean power',
-      'zero-emission',
-      'hybrid renewables',
-    ],
-  },
-  {
-    category: 'Emissions',
-    strongKeywords: [
-      'carbon emissions',
-      'greenhouse gas',
-      'ghg emissions',
-      'carbon capture',
-      'carbon sequestration',
-      'decarbonization',
-      'decarbonize',
-      'net zero',
-      'net-zero',
-      'carbon neutral',
-      'climate change',
-      'climate action',
-      'carbon tax',
-      'cap and trade',
-      'emissions reduction',
-      'methane emissions',
-      'co2 emissions',
-    ],
-    keywords: [
-      'emissions',
-      'carbon',
-      'pollution',
-      'pollutant',
-      'air quality',
-      'environmental',
-      'carbon footprint',
-      'carbon dioxide',
-      'co2',
-      'ch4',
-      'nitrous oxide',
-      'sulfur dioxide',
-      'particulate',
-      'ozone',
-      'clean air',
-      'epa regulation',
-      'emission standard',
-      'carbon intensity',
-      'carbon credit',
-      'carbon offset',
-      'climate',
-      'global warming',
-      'paris agreement',
-      'cop28',
-      'cop29',
-      'sustainability',
-      'sustainable',
-      'esg',
-      'environmental impact',
-    ],
-  },
-  {
-    category: 'Infrastructure',
-    strongKeywords: [
-      'transmission line',
-      'power grid',
-      'electric grid',
-      'grid infrastructure',
-      'grid reliability',
-      'grid resilience',
-      'transmission infrastructure',
-      'distribution infrastructure',
-      'power plant',
-      'substation',
-      'interconnection',
-      'grid modernization',
-      'smart grid',
-      'grid upgrade',
-      'transformer',
-      'high-voltage',
-      'hvdc',
-    ],
-    keywords: [
-      'grid',
-      'transmission',
-      'distribution',
-      'utility',
-      'power line',
-      'powerline',
-      'capacity',
-      'generation capacity',
-      'baseload',
-      'peak demand',
-      'load balancing',
-      'blackout',
-      'outage',
-      'brownout',
-      'reliability',
-      'resilience',
-      'cybersecurity',
-      'critical infrastructure',
-      'electric utility',
-      'power utility',
-      'rate case',
-      'tariff',
-      'interconnect',
-      'ferc order',
-      'nerc',
-      'ercot',
-      'pjm',
-      'caiso',
-      'miso',
-      'spp',
-      'iso-ne',
-      'nyiso',
-      'rto',
-      'iso',
-      'voltage',
-      'frequency',
-      'ancillary services',
-      'demand response',
-      'dso',
-      'tso',
-    ],
-  },
-  {
-    category: 'Energy Policy',
-    strongKeywords: [
-      'energy policy',
-      'energy regulation',
-      'energy legislation',
-      'ferc ruling',
-      'epa ruling',
-      'doe announcement',
-      'energy bill',
-      'energy act',
-      'regulatory approval',
-      'regulatory framework',
-      'energy mandate',
-      'energy standard',
-      'federal energy',
-      'state energy',
-      'energy commission',
-    ],
-    keywords: [
-      'policy',
-      'regulation',
-      'regulatory',
-      'legislation',
-      'bill',
-      'act',
-      'congress',
-      'senate',
-      'house of representatives',
-      'ferc',
-      'epa',
-      'doe',
-      'eia',
-      'rulemaking',
-      'compliance',
-      'mandate',
-      'federal',
-      'law',
-      'executive order',
-      'administration',
-      'secretary',
-      'commissioner',
-      'hearing',
-      'docket',
-      'filing',
-      'petition',
-      'permit',
-      'licensing',
-      'approval',
-      'review',
-      'assessment',
-      'stakeholder',
-      'public comment',
-      'industry leaders',
-      'power industry',
-      'energy industry',
-      'energy sector',
-      'market',
-      'wholesale market',
-      'electricity market',
-      'price',
-      'cost',
-      'investment',
-      'funding',
-      'grant',
-      'subsidy',
-      'incentive',
-      'tax credit',
-      'itc',
-      'ptc',
-      'ira',
-      'inflation reduction act',
-      'bipartisan',
-      'workforce',
+// Separates title and content so phrases don't span both
+const FIELD_BREAK = '|';
+
+/**
+ * Reduce a word to a simple stem (plurals, -ing, -ed)
+ * 
+ * Applied to both keywords and article words, so it only has to be
+ * consistent, not linguistically exact.
+ */
+export function stemWord(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(ss|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed') && !word.endsWith('eed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Split text into lowercase words (hyphens and punctuation separate words)
+ */
+export function tokenizeText(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+}
+
+function toStems(phrase: string): string[] {
+  return tokenizeText(phrase).map(stemWord);
+}
+
+function compileRule(patterns: CategoryRule | SubcategoryRule): CompiledRule {
+  const single = (keyword: string, kind: KeywordMatchKind, weight: number): CompiledTerm => ({
+    keyword,
+    kind,
+    weight,
+    stems: [toStems(keyword)],
+    within: 0,
+  });
+
+  return {
+    terms: [
+      ...patterns.strongKeywords.map((k) => single(k, 'strong', STRONG_WEIGHT)),
+      ...patterns.keywords.map((k) => single(k, 'keyword', KEYWORD_WEIGHT)),
+      ...(patterns.proximityPhrases || []).map((phrase) => ({
+        keyword: phrase.terms.join(` ~${phrase.within} `),
+        kind: 'proximity' as const,
+        weight: PROXIMITY_WEIGHT,
+        stems: phrase.terms.map(toStems),
+        within: phrase.within,
+      })),
     ],
-  },
-];
+    negatives: (patterns.negativeKeywords || []).map((keyword) => ({ keyword, stems: toStems(keyword) })),
+  };
+}
+
+function compileCategory(patterns: CategoryRule): CompiledCategory {
+  return {
+    category: patterns.category,
+    ...compileRule(patterns),
+    subcategories: (patterns.subcategories || []).map((sub) => ({
+      subcategory: sub.subcategory,
+      ...compileRule(sub),
+    })),
+  };
+}
+
+// Compiled once per ruleset object
+const compiledRulesets = new WeakMap<CategoryRuleset, CompiledCategory[]>();
+
+function compileRuleset(ruleset: CategoryRuleset): CompiledCategory[] {
+  let compiled = compiledRulesets.get(ruleset);
+  if (!compiled) {
+    compiled = ruleset.categories.map(compileCategory);
+    compiledRulesets.set(ruleset, compiled);
+  }
+  return compiled;
+}
 
 /**
- * Calculate match score for a category
+ * Start positions of a word sequence in the stemmed text
+ */
+function findSequence(stems: string[], sequence: string[]): number[] {
+  const positions: number[] = [];
+  if (sequence.length === 0) return positions;
+
+  for (let i = 0; i + sequence.length <= stems.length; i++) {
+    if (sequence.every((stem, offset) => stems[i + offset] === stem)) {
+      positions.push(i);
+    }
+  }
+  return positions;
+}
+
+/**
+ * Occurrences of a term as [start, end) word spans
+ */
+function findTermSpans(stems: string[], term: CompiledTerm): [number, number][] {
+  const [first, ...rest] = term.stems;
+  const spans: [number, number][] = [];
+
+  for (const start of findSequence(stems, first)) {
+    let spanStart = start;
+    let spanEnd = start + first.length;
+    let allFound = true;
+
+    // Proximity: every other term within `within` words of the first one
+    for (const other of rest) {
+      const near = findSequence(stems, other).find((pos) =>
+        Math.abs(pos - start) <= term.within &&
+        !stems.slice(Math.min(pos, start), Math.max(pos, start)).includes(FIELD_BREAK)
+      );
+      if (near === undefined) {
+        allFound = false;
+        break;
+      }
+      spanStart = Math.min(spanStart, near);
+      spanEnd = Math.max(spanEnd, near + other.length);
+    }
+
+    if (allFound) spans.push([spanStart, spanEnd]);
+  }
+  return spans;
+}
+
+/**
+ * Match a category's (or sub-topic's) keywords against tokenized text
  * 
- * @param text - Combined title and content text to analyze
- * @param patterns - Category keyword patterns
- * @returns Score (higher = better match)
+ * A keyword fires if at least one occurrence is outside every negative
+ * keyword match; if all of its occurrences are inside one, it is suppressed.
  */
-function calculateCategoryScore(text: string, patterns: CategoryKeywords): number {
-  const lowerText = text.toLowerCase();
+function matchRule(
+  words: string[],
+  stems: string[],
+  compiled: CompiledRule
+): { score: number; fired: KeywordMatch[]; suppressed: SuppressedMatch[] } {
+  const negativeSpans = compiled.negatives.flatMap((negative) =>
+    findSequence(stems, negative.stems).map((start) => ({
+      keyword: negative.keyword,
+      start,
+      end: start + negative.stems.length,
+    }))
+  );
+
   let score = 0;
+  const fired: KeywordMatch[] = [];
+  const suppressed: SuppressedMatch[] = [];
+
+  for (const term of compiled.terms) {
+    const spans = findTermSpans(stems, term);
+    if (spans.length === 0) continue;
+
+    const coveringNegative = (span: [number, number]) =>
+      negativeSpans.find((negative) => span[0] < negative.end && negative.start < span[1]);
+    const free = spans.find((span) => !coveringNegative(span));
+    const match = {
+      keyword: term.keyword,
+      kind: term.kind,
+      weight: term.weight,
+      text: words.slice(...(free || spans[0])).join(' '),
+    };
 
-  // Strong keywords are worth 3 points each
-  for (const keyword of patterns.strongKeywords) {
-    if (lowerText.includes(keyword.toLowerCase())) {
-      score += 3;
+    if (free) {
+      score += term.weight;
+      fired.push(match);
+    } else {
+      suppressed.push({ ...match, suppressedBy: coveringNegative(spans[0])?.keyword || '' });
     }
   }
 
-  // Regular keywords are worth 1 point each
-  for (const keyword of patterns.keywords) {
-    if (lowerText.includes(keyword.toLowerCase())) {
-      score += 1;
+  return { score, fired, suppressed };
+}
+
+/**
+ * Match a category and its sub-topics
+ * 
+ * The category scores its own keywords plus those of all its sub-topics;
+ * the best sub-topic at or above SUBCATEGORY_MIN_SCORE labels it.
+ */
+function matchCategory(
+  words: string[],
+  stems: string[],
+  compiled: CompiledCategory
+): { score: number; subcategory: ArticleSubcategory | null; matches: RuleMatches[] } {
+  const own = matchRule(words, stems, compiled);
+  let score = own.score;
+  let best: { subcategory: ArticleSubcategory; score: number } | null = null;
+  const matches: RuleMatches[] = [{ subcategory: null, fired: own.fired, suppressed: own.suppressed }];
+
+  for (const sub of compiled.subcategories) {
+    const result = matchRule(words, stems, sub);
+    score += result.score;
+    matches.push({ subcategory: sub.subcategory, fired: result.fired, suppressed: result.suppressed });
+    // Ties keep the sub-topic listed first
+    if (result.score >= SUBCATEGORY_MIN_SCORE && (!best || result.score > best.score)) {
+      best = { subcategory: sub.subcategory, score: result.score };
     }
   }
 
-  return score;
+  return { score, subcategory: best?.subcategory ?? null, matches };
+}
+
+/**
+ * Tokenize title and content for matching
+ */
+function tokenizeArticle(title: string, content?: string): { words: string[]; stems: string[] } {
+  const words = [...tokenizeText(title), FIELD_BREAK, ...tokenizeText(content || '')];
+  return { words, stems: words.map((word) => (word === FIELD_BREAK ? word : stemWord(word))) };
+}
+
+/**
+ * Rank all matching categories with normalized confidence
+ * 
+ * Confidence is each category's share of the total keyword score, so the
+ * labels of an article sum to 1. An article about carbon capture at an LNG
+ * terminal gets both LNG and Emissions with similar confidence.
+ * Each label carries its best matching sub-topic (or null).
+ * Falls back to 'Energy Policy' (confidence 1) if nothing matches.
+ * 
+ * @param title - Article title
+ * @param content - Article content/summary (optional)
+ * @param ruleset - Rules to apply (default: built-in ruleset)
+ * @returns Labels sorted by confidence descending (first = primary category)
+ */
+export function categorizeArticleMultiLabel(
+  title: string,
+  content?: string,
+  ruleset: CategoryRuleset = DEFAULT_CATEGORY_RULESET
+): CategoryScore[] {
+  const { words, stems } = tokenizeArticle(title, content);
+
+  const scores = compileRuleset(ruleset)
+    .map((compiled) => {
+      const { score, subcategory } = matchCategory(words, stems, compiled);
+      return { category: compiled.category, score, subcategory };
+    })
+    .filter((s) => s.score > 0);
+
+  const total = scores.reduce((sum, s) => sum + s.score, 0);
+  if (total === 0) {
+    // Default to 'Energy Policy' for general energy news
+    return [{ category: 'Energy Policy', confidence: 1, subcategory: null }];
+  }
+
+  // Stable sort keeps pattern order on ties (more specific categories first)
+  return scores
+    .sort((a, b) => b.score - a.score)
+    .map((s) => ({
+      category: s.category,
+      confidence: Math.round((s.score / total) * 1000) / 1000,
+      subcategory: s.subcategory,
+    }));
 }
 
 /**
@@ -342,90 +381,80 @@ function calculateCategoryScore(text: string, patterns: CategoryKeywords): numbe
  * 
  * @param title - Article title
  * @param content - Article content/summary (optional)
- * @returns Best matching category
+ * @param ruleset - Rules to apply (default: built-in ruleset)
+ * @returns Best matching category (primary label)
  */
 export function categorizeArticle(
   title: string,
-  content?: string
+  content?: string,
+  ruleset: CategoryRuleset = DEFAULT_CATEGORY_RULESET
 ): ArticleCategory {
-  // Combine title and content for analysis
-  // Title is more important, so we include it twice
-  const text = `${title} ${title} ${content || ''}`;
-
-  // Calculate scores for each category
-  const scores: { category: ArticleCategory; score: number }[] = 
-    CATEGORY_PATTERNS.map((patterns) => ({
-      category: patterns.category,
-      score: calculateCategoryScore(text, patterns),
-    }));
-
-  // Sort by score descending
-  scores.sort((a, b) => b.score - a.score);
-
-  // Return the highest scoring category, or 'Energy Policy' as default
-  const bestMatch = scores[0];
-  
-  // Require at least a score of 1 to assign a non-default category
-  if (bestMatch && bestMatch.score >= 1) {
-    return bestMatch.category;
-  }
-
-  // Default to 'Energy Policy' for general energy news
-  return 'Energy Policy';
+  return categorizeArticleMultiLabel(title, content, ruleset)[0].category;
 }
 
 /**
  * Get category with debug information
  * 
- * Useful for testing and understanding categorization decisions.
+ * Useful for testing and understanding categorization decisions:
+ * lists which keywords fired (and the words they matched) and which were
+ * suppressed by a negative keyword, per category and sub-topic.
  * 
  * @param title - Article title
  * @param content - Article content (optional)
+ * @param ruleset - Rules to apply (default: built-in ruleset)
  * @returns Category and scoring details
  */
 export function categorizeArticleWithDetails(
   title: string,
-  content?: string
+  content?: string,
+  ruleset: CategoryRuleset = DEFAULT_CATEGORY_RULESET
 ): {
   category: ArticleCategory;
+  subcategory: ArticleSubcategory | null;
+  rulesVersion: string;
+  labels: CategoryScore[];
   scores: { category: ArticleCategory; score: number }[];
-  matchedKeywords: { category: ArticleCategory; keywords: string[] }[];
+  matchedKeywords: { category: ArticleCategory; subcategory: ArticleSubcategory | null; keywords: string[] }[];
+  explanations: (RuleMatches & { category: ArticleCategory })[];
 } {
-  const text = `${title} ${title} ${content || ''}`;
-  const lowerText = text.toLowerCase();
+  const { words, stems } = tokenizeArticle(title, content);
 
   const scores: { category: ArticleCategory; score: number }[] = [];
-  const matchedKeywords: { category: ArticleCategory; keywords: string[] }[] = [];
+  const matchedKeywords: { category: ArticleCategory; subcategory: ArticleSubcategory | null; keywords: string[] }[] = [];
+  const explanations: (RuleMatches & { category: ArticleCategory })[] = [];
 
-  for (const patterns of CATEGORY_PATTERNS) {
-    let score = 0;
-    const matched: string[] = [];
+  for (const compiled of compileRuleset(ruleset)) {
+    const { score, matches } = matchCategory(words, stems, compiled);
 
-    for (const keyword of patterns.strongKeywords) {
-      if (lowerText.includes(keyword.toLowerCase())) {
-        score += 3;
-        matched.push(`[STRONG] ${keyword}`);
+    scores.push({ category: compiled.category, score });
+    for (const { subcategory, fired, suppressed } of matches) {
+      if (fired.length > 0) {
+        matchedKeywords.push({
+          category: compiled.category,
+          subcategory,
+          keywords: fired.map((m) => (m.kind === 'keyword' ? m.keyword : `[${m.kind.toUpperCase()}] ${m.keyword}`)),
+        });
       }
-    }
-
-    for (const keyword of patterns.keywords) {
-      if (lowerText.includes(keyword.toLowerCase())) {
-        score += 1;
-        matched.push(keyword);
+      if (fired.length > 0 || suppressed.length > 0) {
+        explanations.push({ category: compiled.category, subcategory, fired, suppressed });
       }
     }
-
-    scores.push({ category: patterns.category, score });
-    if (matched.length > 0) {
-      matchedKeywords.push({ category: patterns.category, keywords: matched });
-    }
   }
 
   scores.sort((a, b) => b.score - a.score);
   const bestMatch = scores[0];
   const category = bestMatch && bestMatch.score >= 1 ? bestMatch.category : 'Energy Policy';
+  const labels = categorizeArticleMultiLabel(title, content, ruleset);
 
-  return { category, scores, matchedKeywords };
+  return {
+    category,
+    subcategory: labels.find((label) => label.category === category)?.subcategory ?? null,
+    rulesVersion: ruleset.version,
+    labels,
+    scores,
+    matchedKeywords,
+    explanations,
+  };
 }
 
 /**
@@ -435,3 +464,17 @@ export function getAllCategories(): ArticleCategory[] {
   return ['LNG', 'Renewable Energy', 'Energy Policy', 'Emissions', 'Infrastructure'];
 }
 
+
+/**
+ * Get all available sub-topics
+ */
+export function getAllSubcategories(): ArticleSubcategory[] {
+  return getAllCategories().flatMap((category) => CATEGORY_TAXONOMY[category]);
+}
+
+/**
+ * Get the category a sub-topic belongs to
+ */
+export function getParentCategory(subcategory: ArticleSubcategory): ArticleCategory {
+  return getAllCategories().find((category) => CATEGORY_TAXONOMY[category].includes(subcategory)) || 'Energy Policy';
+}
@@ -0,0 +1,341 @@
+/**
+ * Categorization Ruleset Storage
+ *
+ * Versioned keyword rulesets live in the `category_rulesets` table so
+ * categorization can change without a deploy. The active ruleset is used
+ * by ingestion and /api/recategorize; a candidate can be tried first with
+ * the dry-run endpoint (/api/recategorize/dry-run).
+ *
+ * Falls back to the built-in ruleset (lib/rules/category-rules.json) when
+ * no ruleset is active or the table cannot be read.
+ */
+
+import { getSupabase } from './db';
+import {
+  CATEGORY_TAXONOMY,
+  DEFAULT_CATEGORY_RULESET,
+  categorizeArticle,
+  getAllCategories,
+} from './categorize';
+import {
+  ArticleCategory,
+  CategoryRule,
+  CategoryRuleset,
+  CategoryRulesetRow,
+  SubcategoryRule,
+} from '@/types/article';
+
+/**
+ * Validate the keyword lists of a category or sub-topic rule
+ */
+function validateRuleTerms(rule: CategoryRule | SubcategoryRule, label: string): string | null {
+  const isStringArray = (value: unknown) =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim().length > 0);
+
+  if (!isStringArray(rule.strongKeywords) || !isStringArray(rule.keywords)) {
+    return `${label}: strongKeywords and keywords must be arrays of non-empty strings`;
+  }
+  if (rule.negativeKeywords !== undefined && !isStringArray(rule.negativeKeywords)) {
+    return `${label}: negativeKeywords must be an array of non-empty strings`;
+  }
+  for (const phrase of rule.proximityPhrases || []) {
+    if (!isStringArray(phrase.terms) || phrase.terms.length < 2) {
+      return `${label}: proximity phrases need at least two terms`;
+    }
+    if (!Number.isInteger(phrase.within) || phrase.within < 1) {
+      return `${label}: proximity "within" must be a positive integer`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate a ruleset (e.g., from a request body)
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateCategoryRuleset(input: unknown): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'ruleset must be an object';
+  }
+
+  const ruleset = input as Partial<CategoryRuleset>;
+  if (typeof ruleset.version !== 'string' || !ruleset.version.trim()) {
+    return 'ruleset.version is required';
+  }
+  if (!Array.isArray(ruleset.categories) || ruleset.categories.length === 0) {
+    return 'ruleset.categories must be a non-empty array';
+  }
+
+  const validCategories = getAllCategories();
+  const seen = new Set<string>();
+
+  for (const rule of ruleset.categories) {
+    if (!rule || !validCategories.includes(rule.category)) {
+      return `Unknown category: ${rule?.category}. Valid: ${validCategories.join(', ')}`;
+    }
+    if (seen.has(rule.category)) {
+      return `Duplicate rules for category: ${rule.category}`;
+    }
+    seen.add(rule.category);
+
+    const termsError = validateRuleTerms(rule, rule.category);
+    if (termsError) {
+      return termsError;
+    }
+
+    if (rule.subcategories !== undefined && !Array.isArray(rule.subcategories)) {
+      return `${rule.category}: subcategories must be an array`;
+    }
+    const validSubcategories: string[] = CATEGORY_TAXONOMY[rule.category];
+    const seenSubcategories = new Set<string>();
+    for (const sub of rule.subcategories || []) {
+      if (!sub || !validSubcategories.includes(sub.subcategory)) {
+        return `Unknown sub-topic of ${rule.category}: ${sub?.subcategory}. Valid: ${validSubcategories.join(', ') || 'none'}`;
+      }
+      if (seenSubcategories.has(sub.subcategory)) {
+        return `Duplicate rules for sub-topic: ${sub.subcategory}`;
+      }
+      seenSubcategories.add(sub.subcategory);
+
+      const subTermsError = validateRuleTerms(sub, `${rule.category} > ${sub.subcategory}`);
+      if (subTermsError) {
+        return subTermsError;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the active ruleset (built-in ruleset if none is active)
+ *
+ * The stored rules are validated again, since the taxonomy may have changed
+ * since they were saved (e.g., a sub-topic moved to another category); an
+ * invalid ruleset is ignored in favor of the built-in one.
+ */
+export async function getActiveCategoryRuleset(): Promise<CategoryRuleset> {
+  try {
+    const supabase = getSupabase();
+    const { data, error } = await supabase
+      .from('category_rulesets')
+      .select('*')
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (!data) {
+      return DEFAULT_CATEGORY_RULESET;
+    }
+
+    const { rules, version } = data as CategoryRulesetRow;
+    const validationError = validateCategoryRuleset(rules);
+    if (validationError) {
+      throw new Error(`Active ruleset ${version} is invalid: ${validationError}`);
+    }
+    return rules;
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+    console.warn(`[categoryRules] Falling back to built-in ruleset: ${errorMsg}`);
+    return DEFAULT_CATEGORY_RULESET;
+  }
+}
+
+/**
+ * Get a ruleset by version (built-in or stored)
+ */
+export async function getCategoryRuleset(
+  version: string
+): Promise<{ data: CategoryRuleset | null; error: string | null }> {
+  if (version === DEFAULT_CATEGORY_RULESET.version) {
+    return { data: DEFAULT_CATEGORY_RULESET, error: null };
+  }
+
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('category_rulesets')
+    .select('*')
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    return { data: null, error: error.message };
+  }
+
+  return { data: data ? (data as CategoryRulesetRow).rules : null, error: null };
+}
+
+/**
+ * List stored rulesets, newest first
+ */
+export async function listCategoryRulesets(): Promise<{ data: CategoryRulesetRow[]; error: string | null }> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('category_rulesets')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return { data: [], error: error.message };
+  }
+
+  return { data: (data as CategoryRulesetRow[]) || [], error: null };
+}
+
+/**
+ * Store a new ruleset version
+ *
+ * Versions are immutable - saving an existing version fails.
+ *
+ * @param ruleset - Validated ruleset
+ * @param options.activate - Make it the active ruleset
+ * @param options.notes - What changed
+ */
+export async function saveCategoryRuleset(
+  ruleset: CategoryRuleset,
+  options: { activate?: boolean; notes?: string } = {}
+): Promise<{ data: CategoryRulesetRow | null; error: string | null }> {
+  if (ruleset.version === DEFAULT_CATEGORY_RULESET.version) {
+    return { data: null, error: `Version ${ruleset.version} is the built-in ruleset` };
+  }
+
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('category_rulesets')
+    .insert({
+      version: ruleset.version,
+      rules: ruleset,
+      is_active: false,
+      notes: options.notes ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return { data: null, error: error.message };
+  }
+
+  if (options.activate) {
+    return activateCategoryRuleset(ruleset.version);
+  }
+
+  return { data: data as CategoryRulesetRow, error: null };
+}
+
+/**
+ * Make a stored ruleset the active one
+ *
+ * Deactivates the current one first (a unique partial index allows one
+ * active row). Activating the built-in version deactivates all stored
+ * rulesets (returns data: null).
+ */
+export async function activateCategoryRuleset(
+  version: string
+): Promise<{ data: CategoryRulesetRow | null; error: string | null }> {
+  const supabase = getSupabase();
+
+  const { error: deactivateError } = await supabase
+    .from('category_rulesets')
+    .update({ is_active: false })
+    .eq('is_active', true)
+    .neq('version', version);
+
+  if (deactivateError) {
+    return { data: null, error: deactivateError.message };
+  }
+
+  if (version === DEFAULT_CATEGORY_RULESET.version) {
+    return { data: null, error: null };
+  }
+
+  const { data, error } = await supabase
+    .from('category_rulesets')
+    .update({ is_active: true, activated_at: new Date().toISOString() })
+    .eq('version', version)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return { data: null, error: error.message };
+  }
+  if (!data) {
+    return { data: null, error: `Ruleset ${version} not found` };
+  }
+
+  return { data: data as CategoryRulesetRow, error: null };
+}
+
+/**
+ * Category moves between the stored labels and a candidate ruleset
+ */
+export interface CategoryRulesetDiff {
+  candidateVersion: string;
+  total: number;
+  moved: number;
+  unchanged: number;
+  currentVersions: Record<string, number>; // Ruleset versions that produced the stored labels
+  before: Record<string, number>;          // Articles per category now
+  after: Record<string, number>;           // Articles per category with the candidate
+  transitions: {
+    from: ArticleCategory;
+    to: ArticleCategory;
+    count: number;
+    samples: { id: string; title: string }[];
+  }[];
+}
+
+/**
+ * Apply a candidate ruleset to stored articles without writing anything
+ *
+ * @param articles - Stored articles (title, snippet, current primary category and ruleset version)
+ * @param ruleset - Candidate ruleset
+ * @param sampleSize - Sample titles per transition
+ * @returns Moves between categories, largest first
+ */
+export function diffCategoryRuleset(
+  articles: { id: string; title: string; snippet?: string | null; category: ArticleCategory; category_rules_version?: string | null }[],
+  ruleset: CategoryRuleset,
+  sampleSize: number = 5
+): CategoryRulesetDiff {
+  const diff: CategoryRulesetDiff = {
+    candidateVersion: ruleset.version,
+    total: articles.length,
+    moved: 0,
+    unchanged: 0,
+    currentVersions: {},
+    before: {},
+    after: {},
+    transitions: [],
+  };
+  const transitions = new Map<string, CategoryRulesetDiff['transitions'][number]>();
+
+  for (const article of articles) {
+    const next = categorizeArticle(article.title, article.snippet ?? undefined, ruleset);
+    const version = article.category_rules_version || 'unknown';
+
+    diff.currentVersions[version] = (diff.currentVersions[version] || 0) + 1;
+    diff.before[article.category] = (diff.before[article.category] || 0) + 1;
+    diff.after[next] = (diff.after[next] || 0) + 1;
+
+    if (next === article.category) {
+      diff.unchanged++;
+      continue;
+    }
+
+    diff.moved++;
+    const key = `${article.category}→${next}`;
+    const transition = transitions.get(key) || { from: article.category, to: next, count: 0, samples: [] };
+    transition.count++;
+    if (transition.samples.length < sampleSize) {
+      transition.samples.push({ id: article.id, title: article.title });
+    }
+    transitions.set(key, transition);
+  }
+
+  diff.transitions = Array.from(transitions.values()).sort((a, b) => b.count - a.count);
+  return diff;
+}
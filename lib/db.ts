@@ -1,5 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { ArticleRow, ArticleInsert } from '@/types/article';
+import { ArticleRow, ArticleInsert, CategoryScore, EntityMention, StructuredSummary } from '@/types/article';
 
 // Re-export types for convenience
 export type { ArticleRow, ArticleInsert } from '@/types/article';
@@ -112,6 +112,121 @@ export async function updateMissingImages(
   return { updated, errors };
 }
 
+/**
+ * Replace an article's summary (e.g., the fallback once the AI summary is done)
+ *
+ * @param id - Article ID
+ * @param summary - Summary text
+ * @param structuredSummary - Structured summary (null in plain mode)
+ */
+export async function updateArticleSummary(
+  id: string,
+  summary: string,
+  structuredSummary: StructuredSummary | null
+): Promise<{ error: string | null }> {
+  const { error } = await getSupabase()
+    .from('articles')
+    .update({ summary, structured_summary: structuredSummary })
+    .eq('id', id);
+
+  return { error: error ? error.message : null };
+}
+
+/**
+ * Save ranked category labels of articles to article_categories
+ * 
+ * @param labels - Article id + ranked labels (first = primary category)
+ * @param options.replace - Delete existing labels of these articles first
+ *   (recategorization); otherwise existing labels are kept
+ */
+export async function saveArticleCategories(
+  labels: { articleId: string; categories: CategoryScore[] }[],
+  options: { replace?: boolean } = {}
+): Promise<{ saved: number; errors: string[] }> {
+  const rows = labels.flatMap(({ articleId, categories }) =>
+    categories.map((label, rank) => ({
+      article_id: articleId,
+      category: label.category,
+      subcategory: label.subcategory ?? null,
+      confidence: label.confidence,
+      rank,
+    }))
+  );
+  if (rows.length === 0) {
+    return { saved: 0, errors: [] };
+  }
+
+  const supabase = getSupabase();
+  const errors: string[] = [];
+
+  if (options.replace) {
+    const articleIds = Array.from(new Set(labels.map((l) => l.articleId)));
+    // Chunk to keep the PostgREST query string short
+    const chunkSize = 200;
+    for (let i = 0; i < articleIds.length; i += chunkSize) {
+      const { error } = await supabase
+        .from('article_categories')
+        .delete()
+        .in('article_id', articleIds.slice(i, i + chunkSize));
+
+      if (error) {
+        return { saved: 0, errors: [`Database error: ${error.message}`] };
+      }
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('article_categories')
+    .upsert(rows, {
+      onConflict: 'article_id,category',
+      ignoreDuplicates: !options.replace,
+    })
+    .select('article_id');
+
+  if (error) {
+    errors.push(`Database error: ${error.message}`);
+  }
+
+  return { saved: data?.length ?? 0, errors };
+}
+
+/**
+ * Save entity mentions of articles to article_entities
+ * 
+ * Existing rows are kept (an article's title and snippet don't change).
+ * 
+ * @param mentions - Article id + entities found in it
+ */
+export async function saveArticleEntities(
+  mentions: { articleId: string; entities: EntityMention[] }[]
+): Promise<{ saved: number; errors: string[] }> {
+  const rows = mentions.flatMap(({ articleId, entities }) =>
+    entities.map((entity) => ({
+      article_id: articleId,
+      entity_id: entity.entityId,
+      entity_type: entity.type,
+      name: entity.name,
+      ticker: entity.ticker,
+      mention_count: entity.mentions,
+    }))
+  );
+  if (rows.length === 0) {
+    return { saved: 0, errors: [] };
+  }
+
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('article_entities')
+    .upsert(rows, { onConflict: 'article_id,entity_id', ignoreDuplicates: true })
+    .select('article_id');
+
+  if (error) {
+    return { saved: 0, errors: [`Database error: ${error.message}`] };
+  }
+
+  return { saved: data?.length ?? 0, errors: [] };
+}
+
 // Finance sources to exclude from main feed
 const FINANCE_SOURCES = [
   'Yahoo Finance',
@@ -228,53 +343,166 @@ export async function getExistingArticleIds(ids: string[]): Promise<Set<string>>
   }
 
   const supabase = getSupabase();
-  
-  const { data, error } = await supabase
-    .from('articles')
-    .select('id')
-    .in('id', ids);
+  const existing = new Set<string>();
 
-  if (error) {
-    console.error('Error checking existing articles:', error);
-    return new Set();
+  // Chunk to keep the PostgREST query string short
+  const chunkSize = 200;
+  for (let i = 0; i < ids.length; i += chunkSize) {
+    const { data, error } = await supabase
+      .from('articles')
+      .select('id')
+      .in('id', ids.slice(i, i + chunkSize));
+
+    if (error) {
+      console.error('Error checking existing articles:', error);
+      return new Set();
+    }
+
+    for (const row of data || []) {
+      existing.add(row.id);
+    }
+  }
+
+  return existing;
+}
+
+/**
+ * Check which canonical URLs already exist in the database
+ * Catches the same story stored under a different ID (e.g., before canonical IDs)
+ * 
+ * @param urls - Array of canonical URLs to check
+ * @returns Set of canonical URLs that already exist, or an error (the
+ *   caller can't tell new articles from stored ones then)
+ */
+export async function getExistingCanonicalUrls(
+  urls: string[]
+): Promise<{ data: Set<string>; error: string | null }> {
+  const uniqueUrls = Array.from(new Set(urls));
+  const existing = new Set<string>();
+  if (uniqueUrls.length === 0) {
+    return { data: existing, error: null };
   }
 
-  return new Set(data?.map(row => row.id) || []);
+  const supabase = getSupabase();
+
+  // Chunk to keep the PostgREST query string short
+  const chunkSize = 200;
+  for (let i = 0; i < uniqueUrls.length; i += chunkSize) {
+    const { data, error } = await supabase
+      .from('articles')
+      .select('canonical_url')
+      .in('canonical_url', uniqueUrls.slice(i, i + chunkSize));
+
+    if (error) {
+      console.error('Error checking existing canonical URLs:', error);
+      return { data: new Set(), error: error.message };
+    }
+
+    for (const row of data || []) {
+      existing.add(row.canonical_url as string);
+    }
+  }
+
+  return { data: existing, error: null };
 }
 
 /**
  * Check which article titles already exist in the database
  * Used for title-based deduplication to catch articles with different IDs but same content
  * 
+ * Only the given titles are queried (last 7 days), not every recent title.
+ * Matching is case-insensitive (ILIKE without wildcards), so older rows
+ * without a MinHash are still caught when only the casing differs.
+ * 
  * @param titles - Array of article titles to check
- * @returns Set of titles that already exist (normalized to lowercase)
+ * @returns Stored titles matching any of them (compare with getTitleKey),
+ *   or an error
  */
-export async function getExistingArticleTitles(titles: string[]): Promise<Set<string>> {
-  if (titles.length === 0) {
-    return new Set();
+export async function getExistingArticleTitles(
+  titles: string[]
+): Promise<{ data: string[]; error: string | null }> {
+  const uniqueTitles = Array.from(new Set(titles.map(t => t.trim()).filter(Boolean)));
+  if (uniqueTitles.length === 0) {
+    return { data: [], error: null };
   }
 
   const supabase = getSupabase();
-  
-  // Normalize titles for comparison
-  const normalizedTitles = titles.map(t => t.toLowerCase().trim());
-  
-  // Fetch recent articles (last 7 days) to check for title matches
-  // This avoids loading the entire article database
   const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
-  
-  const { data, error } = await supabase
-    .from('articles')
-    .select('title')
-    .gte('pub_date', sevenDaysAgo);
+  const existing: string[] = [];
+
+  // Titles are long - smaller chunks keep the PostgREST query string short
+  const chunkSize = 50;
+  for (let i = 0; i < uniqueTitles.length; i += chunkSize) {
+    // Escape LIKE wildcards, then quote each title as an array element
+    const patterns = uniqueTitles.slice(i, i + chunkSize).map(title =>
+      `"${title.replace(/[\\%_]/g, '\\$&').replace(/[\\"]/g, '\\$&')}"`
+    );
+    const { data, error } = await supabase
+      .from('articles')
+      .select('title')
+      .ilikeAnyOf('title', patterns)
+      .gte('pub_date', sevenDaysAgo);
 
-  if (error) {
-    console.error('Error checking existing article titles:', error);
-    return new Set();
+    if (error) {
+      console.error('Error checking existing article titles:', error);
+      return { data: [], error: error.message };
+    }
+
+    existing.push(...(data || []).map(row => row.title as string));
+  }
+
+  return { data: existing, error: null };
+}
+
+/**
+ * Recent article that may be a near-duplicate (shares an LSH band)
+ */
+export interface NearDuplicateCandidate {
+  id: string;
+  title: string;
+  minhash: number[] | null;
+  minhash_bands: string[] | null;
+}
+
+/**
+ * Find recent articles sharing any of the given MinHash LSH bands
+ * 
+ * @param bands - Band keys of the articles being checked
+ * @param sinceDays - How far back to look (default 7 days)
+ * @returns Candidate rows (confirm with isNearDuplicate)
+ */
+export async function getNearDuplicateCandidates(
+  bands: string[],
+  sinceDays: number = 7
+): Promise<{ data: NearDuplicateCandidate[]; error: string | null }> {
+  const uniqueBands = Array.from(new Set(bands));
+  if (uniqueBands.length === 0) {
+    return { data: [], error: null };
+  }
+
+  const supabase = getSupabase();
+  const since = new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000).toISOString();
+  const candidates = new Map<string, NearDuplicateCandidate>();
+
+  // Chunk to keep the PostgREST query string short
+  const chunkSize = 200;
+  for (let i = 0; i < uniqueBands.length; i += chunkSize) {
+    const { data, error } = await supabase
+      .from('articles')
+      .select('id, title, minhash, minhash_bands')
+      .overlaps('minhash_bands', uniqueBands.slice(i, i + chunkSize))
+      .gte('pub_date', since);
+
+    if (error) {
+      return { data: [], error: error.message };
+    }
+
+    for (const row of (data as NearDuplicateCandidate[]) || []) {
+      candidates.set(row.id, row);
+    }
   }
 
-  // Return normalized titles for comparison
-  return new Set(data?.map(row => row.title.toLowerCase().trim()) || []);
+  return { data: Array.from(candidates.values()), error: null };
 }
 
 /**
@@ -0,0 +1,283 @@
+/**
+ * Named-Entity Extraction
+ *
+ * Links articles to companies, agencies, US states, ISOs/RTOs and
+ * countries using a curated gazetteer (no NLP model). Matches are stored
+ * in the `article_entities` table with mention counts, so articles can be
+ * filtered by entity (getArticles, /api/finance/articles).
+ *
+ * Matching rules:
+ * - Aliases are matched case-sensitively on word boundaries ("Shell" but
+ *   not "shell", "EPA" but not "Epa")
+ * - Overlapping matches keep the longest one ("New York ISO" is the ISO,
+ *   not the state; "West Virginia" is not "Virginia")
+ * - Tickers only count as cashtags or with an exchange prefix ("$XOM",
+ *   "NYSE: XOM"), since many are ordinary words or acronyms (COP, E, LNG)
+ */
+
+import { ENERGY_STOCK_SYMBOLS } from './finnhub';
+import { EntityMention, EntityType } from '@/types/article';
+
+/**
+ * Gazetteer entry
+ */
+export interface GazetteerEntity {
+  id: string;            // e.g., 'company:xom', 'agency:ferc', 'state:tx'
+  type: EntityType;
+  name: string;          // Canonical name
+  aliases: string[];     // Surface forms (case-sensitive)
+  ticker?: string;
+}
+
+// Aliases of the tracked stocks (lib/finnhub.ts)
+const STOCK_ALIASES: Record<string, string[]> = {
+  XOM: ['ExxonMobil', 'Exxon Mobil', 'Exxon'],
+  CVX: ['Chevron'],
+  COP: ['ConocoPhillips'],
+  EOG: ['EOG Resources', 'EOG'],
+  SLB: ['Schlumberger', 'SLB'],
+  OXY: ['Occidental Petroleum', 'Occidental'],
+  TTE: ['TotalEnergies', 'Total Energies'],
+  E: ['Eni'],
+  SSL: ['Sasol'],
+  SHEL: ['Shell'],
+};
+
+// Other companies that come up in energy coverage
+const OTHER_COMPANIES: { name: string; aliases: string[]; ticker?: string }[] = [
+  { name: 'Cheniere Energy', aliases: ['Cheniere'], ticker: 'LNG' },
+  { name: 'Venture Global', aliases: ['Venture Global'], ticker: 'VG' },
+  { name: 'QatarEnergy', aliases: ['QatarEnergy', 'Qatar Energy', 'Qatar Petroleum'] },
+  { name: 'Saudi Aramco', aliases: ['Saudi Aramco', 'Aramco'] },
+  { name: 'ADNOC', aliases: ['ADNOC', 'Abu Dhabi National Oil Company'] },
+  { name: 'BP', aliases: ['BP'], ticker: 'BP' },
+  { name: 'Equinor', aliases: ['Equinor'], ticker: 'EQNR' },
+  { name: 'Petrobras', aliases: ['Petrobras'], ticker: 'PBR' },
+  { name: 'Woodside Energy', aliases: ['Woodside'], ticker: 'WDS' },
+  { name: 'NextEra Energy', aliases: ['NextEra'], ticker: 'NEE' },
+  { name: 'Duke Energy', aliases: ['Duke Energy'], ticker: 'DUK' },
+  { name: 'Southern Company', aliases: ['Southern Company', 'Southern Co.'], ticker: 'SO' },
+  { name: 'Dominion Energy', aliases: ['Dominion Energy'], ticker: 'D' },
+  { name: 'Constellation Energy', aliases: ['Constellation Energy'], ticker: 'CEG' },
+  { name: 'Vistra', aliases: ['Vistra'], ticker: 'VST' },
+  { name: 'Sempra', aliases: ['Sempra'], ticker: 'SRE' },
+  { name: 'Kinder Morgan', aliases: ['Kinder Morgan'], ticker: 'KMI' },
+  { name: 'Enbridge', aliases: ['Enbridge'], ticker: 'ENB' },
+  { name: 'TC Energy', aliases: ['TC Energy'], ticker: 'TRP' },
+];
+
+const AGENCIES: { id: string; name: string; aliases: string[] }[] = [
+  { id: 'ferc', name: 'Federal Energy Regulatory Commission', aliases: ['FERC', 'Federal Energy Regulatory Commission'] },
+  { id: 'doe', name: 'Department of Energy', aliases: ['DOE', 'Department of Energy', 'Energy Department'] },
+  { id: 'epa', name: 'Environmental Protection Agency', aliases: ['EPA', 'Environmental Protection Agency'] },
+  { id: 'eia', name: 'Energy Information Administration', aliases: ['EIA', 'Energy Information Administration'] },
+  { id: 'nrc', name: 'Nuclear Regulatory Commission', aliases: ['NRC', 'Nuclear Regulatory Commission'] },
+  { id: 'interior', name: 'Department of the Interior', aliases: ['Interior Department', 'Department of the Interior'] },
+  { id: 'boem', name: 'Bureau of Ocean Energy Management', aliases: ['BOEM', 'Bureau of Ocean Energy Management'] },
+  { id: 'blm', name: 'Bureau of Land Management', aliases: ['BLM', 'Bureau of Land Management'] },
+  { id: 'phmsa', name: 'Pipeline and Hazardous Materials Safety Administration', aliases: ['PHMSA', 'Pipeline and Hazardous Materials Safety Administration'] },
+  { id: 'treasury', name: 'Department of the Treasury', aliases: ['Treasury Department', 'U.S. Treasury', 'Department of the Treasury'] },
+  { id: 'nerc', name: 'North American Electric Reliability Corporation', aliases: ['NERC', 'North American Electric Reliability Corporation'] },
+  { id: 'iea', name: 'International Energy Agency', aliases: ['IEA', 'International Energy Agency'] },
+  { id: 'opec', name: 'OPEC', aliases: ['OPEC', 'OPEC+', 'Organization of the Petroleum Exporting Countries'] },
+];
+
+const ISOS: { id: string; name: string; aliases: string[] }[] = [
+  { id: 'ercot', name: 'ERCOT', aliases: ['ERCOT', 'Electric Reliability Council of Texas'] },
+  { id: 'pjm', name: 'PJM', aliases: ['PJM', 'PJM Interconnection'] },
+  { id: 'caiso', name: 'CAISO', aliases: ['CAISO', 'California ISO', 'California Independent System Operator'] },
+  { id: 'miso', name: 'MISO', aliases: ['MISO', 'Midcontinent Independent System Operator'] },
+  { id: 'spp', name: 'SPP', aliases: ['SPP', 'Southwest Power Pool'] },
+  { id: 'nyiso', name: 'NYISO', aliases: ['NYISO', 'New York ISO', 'New York Independent System Operator'] },
+  { id: 'iso-ne', name: 'ISO-NE', aliases: ['ISO-NE', 'ISO New England'] },
+];
+
+// Postal code, name, aliases (default: the name)
+const US_STATES: [string, string, string[]?][] = [
+  ['AL', 'Alabama'], ['AK', 'Alaska'], ['AZ', 'Arizona'], ['AR', 'Arkansas'], ['CA', 'California'],
+  ['CO', 'Colorado'], ['CT', 'Connecticut'], ['DE', 'Delaware'], ['FL', 'Florida'], ['GA', 'Georgia'],
+  ['HI', 'Hawaii'], ['ID', 'Idaho'], ['IL', 'Illinois'], ['IN', 'Indiana'], ['IA', 'Iowa'],
+  ['KS', 'Kansas'], ['KY', 'Kentucky'], ['LA', 'Louisiana'], ['ME', 'Maine'], ['MD', 'Maryland'],
+  ['MA', 'Massachusetts'], ['MI', 'Michigan'], ['MN', 'Minnesota'], ['MS', 'Mississippi'], ['MO', 'Missouri'],
+  ['MT', 'Montana'], ['NE', 'Nebraska'], ['NV', 'Nevada'], ['NH', 'New Hampshire'], ['NJ', 'New Jersey'],
+  ['NM', 'New Mexico'], ['NY', 'New York'], ['NC', 'North Carolina'], ['ND', 'North Dakota'], ['OH', 'Ohio'],
+  ['OK', 'Oklahoma'], ['OR', 'Oregon'], ['PA', 'Pennsylvania'], ['RI', 'Rhode Island'], ['SC', 'South Carolina'],
+  ['SD', 'South Dakota'], ['TN', 'Tennessee'], ['TX', 'Texas'], ['UT', 'Utah'], ['VT', 'Vermont'],
+  ['VA', 'Virginia'],
+  // Plain "Washington" usually means the federal government
+  ['WA', 'Washington', ['Washington State', 'Washington state']],
+  ['WV', 'West Virginia'], ['WI', 'Wisconsin'], ['WY', 'Wyoming'],
+];
+
+// ISO 3166 alpha-2 code, name, other aliases
+const COUNTRIES: [string, string, string[]][] = [
+  ['US', 'United States', ['U.S.', 'US', 'USA']],
+  ['CA', 'Canada', []],
+  ['MX', 'Mexico', []],
+  ['BR', 'Brazil', []],
+  ['AR', 'Argentina', []],
+  ['GY', 'Guyana', []],
+  ['VE', 'Venezuela', []],
+  ['GB', 'United Kingdom', ['UK', 'U.K.', 'Britain']],
+  ['NO', 'Norway', []],
+  ['NL', 'Netherlands', []],
+  ['DE', 'Germany', []],
+  ['FR', 'France', []],
+  ['IT', 'Italy', []],
+  ['ES', 'Spain', []],
+  ['PL', 'Poland', []],
+  ['RU', 'Russia', []],
+  ['UA', 'Ukraine', []],
+  ['TR', 'Turkey', ['Türkiye']],
+  ['QA', 'Qatar', []],
+  ['SA', 'Saudi Arabia', []],
+  ['AE', 'United Arab Emirates', ['UAE']],
+  ['OM', 'Oman', []],
+  ['KW', 'Kuwait', []],
+  ['IQ', 'Iraq', []],
+  ['IR', 'Iran', []],
+  ['IL', 'Israel', []],
+  ['EG', 'Egypt', []],
+  ['DZ', 'Algeria', []],
+  ['LY', 'Libya', []],
+  ['NG', 'Nigeria', []],
+  ['SN', 'Senegal', []],
+  ['MZ', 'Mozambique', []],
+  ['TZ', 'Tanzania', []],
+  ['ZA', 'South Africa', []],
+  ['CN', 'China', []],
+  ['IN', 'India', []],
+  ['JP', 'Japan', []],
+  ['KR', 'South Korea', ['Korea']],
+  ['TW', 'Taiwan', []],
+  ['ID', 'Indonesia', []],
+  ['MY', 'Malaysia', []],
+  ['VN', 'Vietnam', []],
+  ['AU', 'Australia', []],
+];
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Curated gazetteer: tracked stocks first, then other companies,
+ * agencies, ISOs/RTOs, US states and countries
+ */
+export const ENTITY_GAZETTEER: GazetteerEntity[] = [
+  ...ENERGY_STOCK_SYMBOLS.map((stock) => ({
+    id: `company:${stock.symbol.toLowerCase()}`,
+    type: 'company' as const,
+    name: stock.name,
+    aliases: STOCK_ALIASES[stock.symbol] || [stock.name],
+    ticker: stock.symbol,
+  })),
+  ...OTHER_COMPANIES.map((company) => ({
+    id: `company:${company.ticker ? company.ticker.toLowerCase() : slugify(company.name)}`,
+    type: 'company' as const,
+    ...company,
+  })),
+  ...AGENCIES.map((agency) => ({ ...agency, id: `agency:${agency.id}`, type: 'agency' as const })),
+  ...ISOS.map((iso) => ({ ...iso, id: `iso:${iso.id}`, type: 'iso' as const })),
+  ...US_STATES.map(([code, name, aliases]) => ({
+    id: `state:${code.toLowerCase()}`,
+    type: 'state' as const,
+    name,
+    aliases: aliases || [name],
+  })),
+  ...COUNTRIES.map(([code, name, aliases]) => ({
+    id: `country:${code.toLowerCase()}`,
+    type: 'country' as const,
+    name,
+    aliases: [name, ...aliases],
+  })),
+];
+
+const EXCHANGE_PREFIXES = ['NYSE', 'NASDAQ', 'Nasdaq', 'TSX', 'LSE', 'JSE'];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+interface CompiledEntity {
+  entity: GazetteerEntity;
+  pattern: RegExp;
+}
+
+let compiledGazetteer: CompiledEntity[] | null = null;
+
+function compileGazetteer(): CompiledEntity[] {
+  if (!compiledGazetteer) {
+    compiledGazetteer = ENTITY_GAZETTEER.map((entity) => {
+      // Longest alias first so "Exxon Mobil" wins over "Exxon"
+      const aliases = [...entity.aliases].sort((a, b) => b.length - a.length).map(escapeRegExp);
+      const forms = [`(?:${aliases.join('|')})`];
+      if (entity.ticker) {
+        const ticker = escapeRegExp(entity.ticker);
+        forms.push(`\\$${ticker}`, `(?:${EXCHANGE_PREFIXES.join('|')})\\s*:\\s*${ticker}`);
+      }
+      // Group 1 is the boundary before the match (no lookbehind for ES2017)
+      return {
+        entity,
+        pattern: new RegExp(`(^|[^A-Za-z0-9$])(${forms.join('|')})(?=[^A-Za-z0-9]|$)`, 'g'),
+      };
+    });
+  }
+  return compiledGazetteer;
+}
+
+/**
+ * Extract gazetteer entities from an article
+ *
+ * @param title - Article title
+ * @param content - Article content/snippet (optional)
+ * @returns Entities with mention counts, most mentioned first
+ */
+export function extractEntities(title: string, content?: string): EntityMention[] {
+  const text = `${title}\n${content || ''}`;
+  const spans: { start: number; end: number; entity: GazetteerEntity }[] = [];
+
+  for (const { entity, pattern } of compileGazetteer()) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const start = (match.index ?? 0) + match[1].length;
+      spans.push({ start, end: start + match[2].length, entity });
+    }
+  }
+
+  // Keep the longest of overlapping matches
+  spans.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const counts = new Map<string, EntityMention>();
+  let lastEnd = -1;
+
+  for (const span of spans) {
+    if (span.start < lastEnd) continue;
+    lastEnd = span.end;
+
+    const existing = counts.get(span.entity.id);
+    if (existing) {
+      existing.mentions++;
+    } else {
+      counts.set(span.entity.id, {
+        entityId: span.entity.id,
+        type: span.entity.type,
+        name: span.entity.name,
+        ticker: span.entity.ticker ?? null,
+        mentions: 1,
+      });
+    }
+  }
+
+  // Stable sort keeps order of first mention on ties
+  return Array.from(counts.values()).sort((a, b) => b.mentions - a.mentions);
+}
+
+/**
+ * Find a gazetteer entity by ID (e.g., 'iso:ercot') or ticker (e.g., 'XOM')
+ */
+export function findEntity(idOrTicker: string): GazetteerEntity | undefined {
+  const value = idOrTicker.trim();
+  return (
+    ENTITY_GAZETTEER.find((entity) => entity.id === value.toLowerCase()) ||
+    ENTITY_GAZETTEER.find((entity) => entity.ticker === value.toUpperCase())
+  );
+}
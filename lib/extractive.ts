@@ -0,0 +1,297 @@
+/**
+ * Extractive Summarization
+ *
+ * Deterministic summaries without an LLM: splits the feed snippet into
+ * sentences, ranks them and keeps the best ones in their original order.
+ * Same input, same output - no network, no tokens.
+ *
+ * A sentence scores higher when it
+ * - shares words with the title (it is about the headline's subject)
+ * - comes early (news ledes lead with the key facts)
+ * - carries specifics: figures, dates, deadlines, regulatory actions
+ * Sentences that only repeat the title, feed boilerplate ("The post ...
+ * appeared first on ...") and fragments are skipped.
+ *
+ * Structured summaries add the next-best sentences as key points, gazetteer
+ * organizations (lib/entities.ts), deadlines (lib/regulatory.ts) and a
+ * word-list sentiment.
+ */
+
+import { tokenizeForFingerprint } from './fingerprint';
+import { htmlToText } from './feedFormats';
+import { extractEntities } from './entities';
+import { extractDeadlines } from './regulatory';
+import type { BriefingArticle, BriefingItem, LLMProvider } from './llm';
+import { MarketSentiment, StructuredSummary } from '@/types/article';
+
+const MAX_SUMMARY_SENTENCES = 2;
+const MAX_SUMMARY_LENGTH = 400;
+const MIN_SENTENCE_WORDS = 6;
+const MAX_SENTENCE_WORDS = 60;
+const MAX_HEADLINE_LENGTH = 60;
+const BRIEFING_MAX_TITLE_SIMILARITY = 0.4; // Skip briefing items about the same story
+const MAX_KEY_POINTS = 4;
+
+// Market direction words (stemmed by prefix match)
+const BULLISH_WORDS = [
+  'surge', 'soar', 'rally', 'rallie', 'gain', 'rise', 'rose', 'jump', 'climb', 'record high',
+  'beat', 'boost', 'expan', 'growth', 'upgrade', 'approv', 'profit', 'strong',
+];
+const BEARISH_WORDS = [
+  'plunge', 'slump', 'tumble', 'fall', 'fell', 'drop', 'declin', 'slide', 'sink', 'cut',
+  'loss', 'missed', 'downgrade', 'delay', 'cancel', 'shut', 'outage', 'weak', 'lawsuit', 'halt',
+];
+
+// Feed boilerplate, never part of a summary
+const BOILERPLATE_PATTERNS = [
+  /appeared first on/i,
+  /^(read|click|continue|subscribe|sign up|learn more|see more)\b/i,
+  /^(photo|image|credit|source):/i,
+  /all rights reserved/i,
+];
+
+// Specifics worth keeping: figures, dates, deadlines and regulatory actions
+const SPECIFICS_PATTERN =
+  /\d|\b(deadline|effective|comments?|due|approv\w*|propos\w*|final rule|order\w*|issu\w*|announc\w*|requir\w*|billion|million)\b/i;
+
+/**
+ * Ranked sentence of a text
+ */
+export interface RankedSentence {
+  text: string;
+  index: number; // Position in the text
+  score: number;
+}
+
+/**
+ * Plain text of a snippet (HTML stripped, trailing "[…]" / "..." removed)
+ */
+function toPlainText(text: string): string {
+  return htmlToText(text)
+    .replace(/\s*(\[(…|\.\.\.)\]|…|\.\.\.)\s*$/, '')
+    .trim();
+}
+
+/**
+ * Split text into sentences
+ *
+ * Splits after ., ! or ? followed by a capital letter, digit or quote.
+ * Common abbreviations ("U.S.", "Mr.", "Inc.") don't end a sentence.
+ */
+export function splitSentences(text: string): string[] {
+  const plain = toPlainText(text);
+  if (!plain) return [];
+
+  const sentences: string[] = [];
+  let start = 0;
+  const boundary = /[.!?]["'”’)]?\s+(?=["'“‘(]?[A-Z0-9])/g;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(plain)) !== null) {
+    const candidate = plain.slice(start, match.index + 1);
+    // "U.S. Senate", "Mr. Smith", "Inc. said"
+    if (/(\b[A-Z]\.[A-Z]|\b(Mr|Ms|Mrs|Dr|Inc|Corp|Co|Ltd|No|St|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec))\.$/.test(candidate)) {
+      continue;
+    }
+    sentences.push(plain.slice(start, match.index + match[0].trimEnd().length).trim());
+    start = match.index + match[0].length;
+  }
+  sentences.push(plain.slice(start).trim());
+
+  return sentences.filter((s) => s.length > 0);
+}
+
+/**
+ * Rank the sentences of a text for a summary of the given title
+ *
+ * @param title - Article title
+ * @param text - Snippet / description
+ * @returns Usable sentences, best first (ties keep text order)
+ */
+export function rankSentences(title: string, text: string): RankedSentence[] {
+  const titleTokens = new Set(tokenizeForFingerprint(title));
+  const ranked: RankedSentence[] = [];
+
+  splitSentences(text).forEach((sentence, index) => {
+    const words = sentence.split(/\s+/).length;
+    if (words < MIN_SENTENCE_WORDS) return;
+    if (BOILERPLATE_PATTERNS.some((pattern) => pattern.test(sentence))) return;
+
+    const tokens = tokenizeForFingerprint(sentence);
+    const shared = tokens.filter((token) => titleTokens.has(token)).length;
+    // Only restates the headline
+    if (titleTokens.size > 0 && shared >= titleTokens.size * 0.9 && tokens.length <= titleTokens.size + 2) return;
+
+    const titleOverlap = titleTokens.size > 0 ? shared / titleTokens.size : 0;
+    const position = 1 / (1 + index);
+    const specifics = SPECIFICS_PATTERN.test(sentence) ? 0.3 : 0;
+    const length = words > MAX_SENTENCE_WORDS ? -0.3 : 0;
+
+    ranked.push({ text: sentence, index, score: titleOverlap + position * 0.6 + specifics + length });
+  });
+
+  return ranked.sort((a, b) => b.score - a.score || a.index - b.index);
+}
+
+/**
+ * Shorten text to a max length at a word boundary
+ */
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength - 3);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:]+$/, '')}...`;
+}
+
+/**
+ * Extractive summary of an article
+ *
+ * @param title - Article title
+ * @param content - Snippet / description (optional)
+ * @param maxSentences - Max sentences to keep
+ * @param maxLength - Max summary length in characters
+ * @returns Best sentences in text order, or null if the text has none
+ */
+export function extractiveSummary(
+  title: string,
+  content?: string | null,
+  maxSentences: number = MAX_SUMMARY_SENTENCES,
+  maxLength: number = MAX_SUMMARY_LENGTH
+): string | null {
+  if (!content?.trim()) return null;
+
+  const best = rankSentences(title, content)
+    .slice(0, maxSentences)
+    .sort((a, b) => a.index - b.index);
+  if (best.length === 0) return null;
+
+  let summary = '';
+  for (const sentence of best) {
+    const next = summary ? `${summary} ${sentence.text}` : sentence.text;
+    if (summary && next.length > maxLength) break;
+    summary = next;
+  }
+  return truncate(summary, maxLength);
+}
+
+/**
+ * Word-list market sentiment: bullish/bearish when one side's words clearly
+ * outnumber the other's
+ */
+export function estimateSentiment(text: string): MarketSentiment {
+  const words = text.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  const joined = ` ${words.join(' ')} `;
+  const count = (list: string[]) =>
+    list.reduce((sum, stem) => sum + (stem.includes(' ')
+      ? (joined.includes(` ${stem}`) ? 1 : 0)
+      : words.filter((word) => word.startsWith(stem)).length), 0);
+
+  const bullish = count(BULLISH_WORDS);
+  const bearish = count(BEARISH_WORDS);
+  if (bullish > bearish) return 'bullish';
+  if (bearish > bullish) return 'bearish';
+  return 'neutral';
+}
+
+/**
+ * Extractive structured summary
+ *
+ * @returns Structured summary, or null if the content has no usable sentences
+ */
+export function extractiveStructuredSummary(
+  title: string,
+  content?: string | null,
+  publishedAt?: string
+): StructuredSummary | null {
+  const summary = extractiveSummary(title, content);
+  if (!summary || !content) return null;
+
+  const keyPoints = rankSentences(title, content)
+    .slice(0, MAX_KEY_POINTS)
+    .sort((a, b) => a.index - b.index)
+    .map((sentence) => truncate(sentence.text, 200));
+
+  const organizations = extractEntities(title, content)
+    .filter((entity) => entity.type === 'company' || entity.type === 'agency' || entity.type === 'iso')
+    .map((entity) => entity.name);
+
+  const text = toPlainText(content);
+  return {
+    summary,
+    keyPoints,
+    organizations,
+    deadlines: extractDeadlines(text, publishedAt ? new Date(publishedAt) : undefined),
+    sentiment: estimateSentiment(`${title} ${text}`),
+  };
+}
+
+/**
+ * Jaccard similarity of two titles' word sets
+ */
+function titleSimilarity(a: string, b: string): number {
+  const tokensA = new Set(tokenizeForFingerprint(a));
+  const tokensB = new Set(tokenizeForFingerprint(b));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  const shared = Array.from(tokensA).filter((token) => tokensB.has(token)).length;
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+/**
+ * Extractive market briefing: the newest articles about different stories,
+ * headline = title, summary = best sentences of the stored summary
+ *
+ * @param articles - Articles, newest first
+ * @param count - Max items
+ */
+export function extractiveBriefing(articles: BriefingArticle[], count: number): BriefingItem[] {
+  const picked: BriefingArticle[] = [];
+  for (const article of articles) {
+    if (picked.length >= count) break;
+    if (picked.some((p) => titleSimilarity(p.title, article.title) > BRIEFING_MAX_TITLE_SIMILARITY)) continue;
+    picked.push(article);
+  }
+
+  return picked.map((article) => ({
+    headline: truncate(article.title, MAX_HEADLINE_LENGTH),
+    summary:
+      extractiveSummary(article.title, article.summary, 2, 300) ||
+      truncate(article.summary || article.title, 300),
+  }));
+}
+
+/**
+ * Deterministic provider, used when no LLM API is configured
+ */
+export const extractiveProvider: LLMProvider = {
+  name: 'extractive',
+  model: 'extractive',
+  remote: false,
+  pricing: { inputPer1M: 0, outputPer1M: 0 },
+
+  estimateSummary() {
+    return { tokens: 0, costUsd: 0 };
+  },
+
+  async summarize({ title, content }) {
+    const summary = extractiveSummary(title, content);
+    if (!summary) {
+      return { success: false, error: 'No usable sentences in content', tokensUsed: 0 };
+    }
+    return { success: true, data: summary, tokensUsed: 0 };
+  },
+
+  async summarizeStructured({ title, content, publishedAt }) {
+    const structured = extractiveStructuredSummary(title, content, publishedAt);
+    if (!structured) {
+      return { success: false, error: 'No usable sentences in content', tokensUsed: 0 };
+    }
+    return { success: true, data: structured, tokensUsed: 0 };
+  },
+
+  async briefing(articles, count) {
+    const items = extractiveBriefing(articles, count);
+    if (items.length === 0) {
+      return { success: false, error: 'No articles to brief', tokensUsed: 0 };
+    }
+    return { success: true, data: items, tokensUsed: 0 };
+  },
+};
@@ -0,0 +1,365 @@
+/**
+ * Feed Format Detection & Mapping
+ * 
+ * Detects the format of a fetched feed body and maps its items into
+ * RawFeedItem with a dedicated mapper per format:
+ * - RSS 2.0 (and 0.9x)
+ * - RDF / RSS 1.0
+ * - Atom 1.0
+ * - JSON Feed 1.0 / 1.1
+ * 
+ * XML formats are parsed with rss-parser; extra fields it drops (Atom
+ * links/categories/updated, Dublin Core subjects) are kept via customFields
+ * and mapped here.
+ */
+
+import Parser from 'rss-parser';
+import { RawFeedItem, RawFeedLink } from '@/types/article';
+
+/**
+ * Supported feed formats
+ */
+export type FeedFormat = 'rss2' | 'rss1' | 'atom' | 'json' | 'unknown';
+
+/**
+ * rss-parser item with our customFields attached
+ */
+type ParsedXmlItem = Parser.Item & Record<string, unknown>;
+
+// Configure parser
+const parser = new Parser<Record<string, unknown>, ParsedXmlItem>({
+  customFields: {
+    item: [
+      'media:content',
+      'media:thumbnail',
+      'media:group',
+      'image',
+      'enclosure',
+      'summary',
+      'updated',
+      'published',
+      // Keep raw arrays that rss-parser would otherwise collapse or drop
+      ['link', 'rawLinks', { keepArray: true }],
+      ['category', 'rawCategories', { keepArray: true }],
+      ['author', 'rawAuthors', { keepArray: true }],
+      ['dc:subject', 'dcSubjects', { keepArray: true }],
+    ],
+  },
+});
+
+/**
+ * Detect a feed's format from its body, using Content-Type as a hint
+ * 
+ * @param body - Raw response text
+ * @param contentType - Response Content-Type header (optional)
+ */
+export function detectFeedFormat(body: string, contentType?: string): FeedFormat {
+  const trimmed = body.replace(/^\uFEFF/, '').trimStart();
+  const type = (contentType || '').toLowerCase();
+
+  if (trimmed.startsWith('{')) {
+    return 'json';
+  }
+
+  if (trimmed.startsWith('<')) {
+    // Skip XML declaration, processing instructions, comments and doctype
+    const head = trimmed
+      .slice(0, 2000)
+      .replace(/<\?[\s\S]*?\?>/g, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<!DOCTYPE[^>]*>/gi, '')
+      .trimStart();
+
+    if (/^<rdf:RDF\b/i.test(head)) return 'rss1';
+    if (/^<rss\b/i.test(head)) return 'rss2';
+    if (/^<(\w+:)?feed\b/i.test(head)) return 'atom';
+  }
+
+  // Fall back to the Content-Type hint
+  if (type.includes('json')) return 'json';
+  if (type.includes('atom')) return 'atom';
+  if (type.includes('rdf')) return 'rss1';
+  if (type.includes('rss') || type.includes('xml')) return 'rss2';
+
+  return 'unknown';
+}
+
+/**
+ * Parse a feed body into RawFeedItems
+ * 
+ * @param body - Raw response text
+ * @param format - Detected format (see detectFeedFormat)
+ * @throws Error if the body cannot be parsed as the given format
+ */
+export async function parseFeedBody(body: string, format: FeedFormat): Promise<RawFeedItem[]> {
+  if (format === 'json') {
+    return mapJsonFeed(JSON.parse(body));
+  }
+
+  const parsed = await parser.parseString(body);
+  const items = parsed.items || [];
+
+  switch (format) {
+    case 'atom':
+      return items.map(mapAtomItem);
+    case 'rss1':
+      return items.map(mapRss1Item);
+    default:
+      // rss2 and unknown (rss-parser recognized it, so treat as RSS)
+      return items.map(mapRss2Item);
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Get the text of an xml2js node (string or { _: text })
+ */
+function textOf(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (value && typeof value === 'object' && typeof (value as { _?: unknown })._ === 'string') {
+    return ((value as { _: string })._).trim() || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Get an attribute from an xml2js node
+ */
+function attrOf(value: unknown, name: string): string | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const attrs = (value as { $?: Record<string, unknown> }).$;
+  const attr = attrs?.[name];
+  return typeof attr === 'string' && attr.trim() ? attr.trim() : undefined;
+}
+
+/**
+ * Convert a date string to ISO 8601, or undefined if invalid
+ */
+function toIsoDate(value: unknown): string | undefined {
+  const text = textOf(value);
+  if (!text) return undefined;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Character for a numeric entity; NUL, surrogates and values past U+10FFFF
+ * become U+FFFD as in browsers (String.fromCodePoint throws on out-of-range)
+ */
+function fromEntityCodePoint(code: number): string {
+  if (!Number.isInteger(code) || code <= 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+    return '\uFFFD';
+  }
+  return String.fromCodePoint(code);
+}
+
+/**
+ * Strip HTML tags and decode common entities
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&#(\d+);/g, (_, code) => fromEntityCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => fromEntityCodePoint(parseInt(code, 16)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * De-duplicate a list of category / tag strings (case-insensitive)
+ */
+function uniqueCategories(values: (string | undefined)[]): string[] | undefined {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const value of values) {
+    if (!value) continue;
+    const key = value.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(value);
+  }
+  return result.length > 0 ? result : undefined;
+}
+
+/**
+ * Fields shared by all XML formats (image-related fields used by normalizeFeedItem)
+ */
+function baseXmlItem(item: ParsedXmlItem): RawFeedItem {
+  return {
+    title: item.title,
+    link: item.link,
+    pubDate: item.pubDate,
+    isoDate: item.isoDate,
+    content: item.content,
+    contentSnippet: item.contentSnippet,
+    guid: item.guid,
+    enclosure: item.enclosure as RawFeedItem['enclosure'],
+    image: item.image as RawFeedItem['image'],
+    'media:content': item['media:content'],
+    'media:thumbnail': item['media:thumbnail'],
+  };
+}
+
+// =============================================================================
+// MAPPERS
+// =============================================================================
+
+/**
+ * Map an RSS 2.0 item
+ */
+function mapRss2Item(item: ParsedXmlItem): RawFeedItem {
+  const categories = (item.categories || []) as unknown[];
+
+  return {
+    ...baseXmlItem(item),
+    author: textOf(item.creator) || textOf(item.author),
+    categories: uniqueCategories(categories.map(textOf)),
+  };
+}
+
+/**
+ * Map an RDF / RSS 1.0 item
+ * 
+ * Items are identified by rdf:about; dates and subjects come from Dublin Core.
+ */
+function mapRss1Item(item: ParsedXmlItem): RawFeedItem {
+  const subjects = (item.dcSubjects || []) as unknown[];
+  const isoDate = item.isoDate || toIsoDate(item.date);
+
+  return {
+    ...baseXmlItem(item),
+    guid: item.guid || textOf(item['rdf:about']),
+    isoDate,
+    author: textOf(item.creator),
+    categories: uniqueCategories(subjects.map(textOf)),
+  };
+}
+
+/**
+ * Map an Atom 1.0 entry
+ * 
+ * Keeps every <link> (rel/type), uses the alternate link as the article,
+ * maps <summary> as the snippet, <id> as guid, and keeps <updated>
+ * separately from <published>.
+ */
+function mapAtomItem(item: ParsedXmlItem): RawFeedItem {
+  const rawLinks = (item.rawLinks || []) as unknown[];
+  const links: RawFeedLink[] = rawLinks
+    .map((link) => ({
+      href: attrOf(link, 'href') || '',
+      rel: attrOf(link, 'rel') || 'alternate',
+      type: attrOf(link, 'type'),
+    }))
+    .filter((link) => link.href);
+
+  const alternate = links.find((link) => link.rel === 'alternate') || links[0];
+  const enclosureLink = links.find((link) => link.rel === 'enclosure');
+
+  const rawCategories = (item.rawCategories || []) as unknown[];
+  const categories = rawCategories.map((category) =>
+    attrOf(category, 'label') || attrOf(category, 'term') || textOf(category)
+  );
+
+  const rawAuthors = (item.rawAuthors || []) as unknown[];
+  const authors = rawAuthors
+    .map((author) => {
+      if (author && typeof author === 'object' && 'name' in author) {
+        return textOf((author as { name?: unknown[] }).name?.[0]);
+      }
+      return textOf(author);
+    })
+    .filter((name): name is string => !!name);
+
+  const summary = textOf(item.summary);
+  const published = toIsoDate(item.published);
+  const updated = toIsoDate(item.updated);
+
+  return {
+    ...baseXmlItem(item),
+    link: alternate?.href || item.link,
+    guid: textOf(item.id) || item.guid,
+    // Prefer <published>; fall back to <updated> (rss-parser does the same)
+    isoDate: published || item.isoDate || updated,
+    content: item.content || summary,
+    contentSnippet: item.contentSnippet || (summary ? htmlToText(summary) : undefined),
+    enclosure: enclosureLink
+      ? { url: enclosureLink.href, type: enclosureLink.type }
+      : (item.enclosure as RawFeedItem['enclosure']),
+    links: links.length > 0 ? links : undefined,
+    author: authors.length > 0 ? authors.join(', ') : undefined,
+    categories: uniqueCategories(categories),
+    updated,
+  };
+}
+
+/**
+ * JSON Feed item (https://jsonfeed.org/version/1.1)
+ */
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  image?: string;
+  banner_image?: string;
+  date_published?: string;
+  date_modified?: string;
+  author?: { name?: string };      // 1.0
+  authors?: { name?: string }[];   // 1.1
+  tags?: string[];
+  attachments?: { url?: string; mime_type?: string }[];
+}
+
+/**
+ * Map a JSON Feed document
+ * 
+ * @throws Error if the document is not a JSON Feed
+ */
+function mapJsonFeed(doc: unknown): RawFeedItem[] {
+  const feed = doc as { version?: unknown; items?: unknown };
+  if (
+    !feed ||
+    typeof feed.version !== 'string' ||
+    !feed.version.startsWith('https://jsonfeed.org/version/') ||
+    !Array.isArray(feed.items)
+  ) {
+    throw new Error('JSON document is not a JSON Feed');
+  }
+
+  return (feed.items as JsonFeedItem[]).map((item) => {
+    const content = item.content_html || item.content_text;
+    const snippetSource = item.summary || item.content_text || item.content_html;
+    const authors = item.authors || (item.author ? [item.author] : []);
+    const imageAttachment = (item.attachments || []).find((a) => a.mime_type?.startsWith('image/'));
+    const published = toIsoDate(item.date_published);
+
+    return {
+      title: item.title,
+      link: item.url || item.external_url,
+      guid: item.id !== undefined ? String(item.id) : undefined,
+      pubDate: item.date_published,
+      isoDate: published,
+      content,
+      contentSnippet: snippetSource ? htmlToText(snippetSource) : undefined,
+      image: item.image || item.banner_image,
+      enclosure: imageAttachment?.url
+        ? { url: imageAttachment.url, type: imageAttachment.mime_type }
+        : undefined,
+      author: authors.map((a) => a.name).filter(Boolean).join(', ') || undefined,
+      categories: uniqueCategories(item.tags || []),
+      updated: toIsoDate(item.date_modified),
+    };
+  });
+}
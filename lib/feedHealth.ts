@@ -0,0 +1,154 @@
+/**
+ * Feed Health Tracking
+ * 
+ * Classifies fetch failures and decides when a repeatedly failing feed
+ * should be skipped. Health lives on the `feed_fetch_state` row of each feed
+ * and is updated after every ingestion run (see saveFeedFetchStates).
+ * 
+ * Back-off policy:
+ * - Fewer than BACKOFF_THRESHOLD consecutive failures: fetched every run ('degraded')
+ * - From BACKOFF_THRESHOLD: skipped for BASE_BACKOFF_MS * 2^(n - threshold),
+ *   capped at MAX_BACKOFF_MS ('backoff')
+ * - From QUARANTINE_THRESHOLD: re-probed only at MAX_BACKOFF_MS ('quarantined')
+ * 
+ * A single successful fetch resets the feed to 'healthy'.
+ */
+
+import { FetchFeedResult } from './fetchFeed';
+import { FeedErrorClass, FeedFetchStateRow, FeedHealthStatus, FeedSource } from '@/types/article';
+
+const BACKOFF_THRESHOLD = 3;
+const QUARANTINE_THRESHOLD = 8;
+const BASE_BACKOFF_MS = 2 * 60 * 60 * 1000;  // 2 hours
+const MAX_BACKOFF_MS = 48 * 60 * 60 * 1000;  // 48 hours
+
+/**
+ * Health columns of a feed_fetch_state row
+ */
+export type FeedHealthFields = Pick<
+  FeedFetchStateRow,
+  | 'health_status'
+  | 'consecutive_failures'
+  | 'last_success_at'
+  | 'last_failure_at'
+  | 'last_error'
+  | 'last_error_class'
+  | 'next_attempt_at'
+>;
+
+/**
+ * Classify a failed fetch from its diagnostics
+ * 
+ * @returns Error class, or null if the fetch succeeded
+ */
+export function classifyFetchError(result: FetchFeedResult): FeedErrorClass | null {
+  if (result.error === null) {
+    return null;
+  }
+
+  const status = result.diagnostics?.httpStatus;
+  if (status === 401 || status === 403) return 'forbidden';
+  if (status === 404 || status === 410) return 'not_found';
+  if (status === 429) return 'rate_limited';
+  if (status && status >= 500) return 'http_server';
+  if (status && status >= 400) return 'http_client';
+
+  if (result.diagnostics?.parseError) return 'parse_error';
+  if (result.error.startsWith('Response is HTML')) return 'html_response';
+  if (/timeout|timed out|aborted/i.test(result.error)) return 'timeout';
+
+  return 'network';
+}
+
+/**
+ * Back-off delay for a given number of consecutive failures
+ */
+function getBackoffMs(consecutiveFailures: number): number {
+  if (consecutiveFailures < BACKOFF_THRESHOLD) {
+    return 0;
+  }
+  if (consecutiveFailures >= QUARANTINE_THRESHOLD) {
+    return MAX_BACKOFF_MS;
+  }
+  const exponent = consecutiveFailures - BACKOFF_THRESHOLD;
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, exponent), MAX_BACKOFF_MS);
+}
+
+/**
+ * Compute a feed's health after a fetch
+ * 
+ * @param prior - Health before this fetch (undefined for a first fetch)
+ * @param result - Fetch result from this run
+ */
+export function getNextHealth(
+  prior: FeedHealthFields | undefined,
+  result: FetchFeedResult
+): FeedHealthFields {
+  const errorClass = classifyFetchError(result);
+
+  if (errorClass === null) {
+    return {
+      health_status: 'healthy',
+      consecutive_failures: 0,
+      last_success_at: result.fetchedAt,
+      last_failure_at: prior?.last_failure_at ?? null,
+      last_error: prior?.last_error ?? null,
+      last_error_class: prior?.last_error_class ?? null,
+      next_attempt_at: null,
+    };
+  }
+
+  const consecutiveFailures = (prior?.consecutive_failures ?? 0) + 1;
+  const backoffMs = getBackoffMs(consecutiveFailures);
+
+  let healthStatus: FeedHealthStatus = 'degraded';
+  if (consecutiveFailures >= QUARANTINE_THRESHOLD) {
+    healthStatus = 'quarantined';
+  } else if (backoffMs > 0) {
+    healthStatus = 'backoff';
+  }
+
+  return {
+    health_status: healthStatus,
+    consecutive_failures: consecutiveFailures,
+    last_success_at: prior?.last_success_at ?? null,
+    last_failure_at: result.fetchedAt,
+    last_error: result.error,
+    last_error_class: errorClass,
+    next_attempt_at: backoffMs > 0
+      ? new Date(new Date(result.fetchedAt).getTime() + backoffMs).toISOString()
+      : null,
+  };
+}
+
+/**
+ * Split feeds into those due for fetching and those still backing off
+ * 
+ * Back-off is ignored when the feed URL changed since the failures were
+ * recorded (an admin fixed the URL, so re-probe immediately).
+ */
+export function partitionFeedsByHealth(
+  feeds: FeedSource[],
+  states: Map<string, FeedFetchStateRow>,
+  now: Date = new Date()
+): { due: FeedSource[]; skipped: { feed: FeedSource; state: FeedFetchStateRow }[] } {
+  const due: FeedSource[] = [];
+  const skipped: { feed: FeedSource; state: FeedFetchStateRow }[] = [];
+
+  for (const feed of feeds) {
+    const state = states.get(feed.name);
+
+    if (
+      state &&
+      state.url === feed.url &&
+      state.next_attempt_at &&
+      new Date(state.next_attempt_at).getTime() > now.getTime()
+    ) {
+      skipped.push({ feed, state });
+    } else {
+      due.push(feed);
+    }
+  }
+
+  return { due, skipped };
+}
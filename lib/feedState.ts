@@ -0,0 +1,137 @@
+/**
+ * Per-Feed Fetch State
+ * 
+ * Persists HTTP cache validators (ETag / Last-Modified) plus the last
+ * status and item count for each feed in the `feed_fetch_state` table,
+ * so the next ingestion run can use conditional GET and skip unchanged feeds.
+ * The same row carries the feed's health (see lib/feedHealth.ts).
+ * 
+ * Only the ingestion pipeline uses this - debug routes and the feed tester
+ * always fetch full bodies.
+ */
+
+import { getSupabase } from './db';
+import { FetchFeedResult, FeedValidators } from './fetchFeed';
+import { getNextHealth } from './feedHealth';
+import { FeedFetchStateRow, FeedSource } from '@/types/article';
+
+/**
+ * Load stored fetch state for a set of feeds
+ * 
+ * @param feeds - Feeds about to be fetched
+ * @returns Map of feed name -> stored state (missing feeds have no entry)
+ */
+export async function getFeedFetchStates(
+  feeds: FeedSource[]
+): Promise<Map<string, FeedFetchStateRow>> {
+  const states = new Map<string, FeedFetchStateRow>();
+  if (feeds.length === 0) {
+    return states;
+  }
+
+  try {
+    const supabase = getSupabase();
+    const { data, error } = await supabase
+      .from('feed_fetch_state')
+      .select('*')
+      .in('feed_name', feeds.map((feed) => feed.name));
+
+    if (error) {
+      console.error('[feedState] Error loading fetch state:', error.message);
+      return states;
+    }
+
+    for (const row of (data as FeedFetchStateRow[]) || []) {
+      states.set(row.feed_name, row);
+    }
+  } catch (err) {
+    console.error('[feedState] Error loading fetch state:', err);
+  }
+
+  return states;
+}
+
+/**
+ * Build conditional GET validators from stored state
+ * 
+ * Validators are dropped when the feed URL changed since they were stored.
+ */
+export function getValidatorsByName(
+  feeds: FeedSource[],
+  states: Map<string, FeedFetchStateRow>
+): Map<string, FeedValidators> {
+  const validators = new Map<string, FeedValidators>();
+
+  for (const feed of feeds) {
+    const state = states.get(feed.name);
+    if (!state || state.url !== feed.url) continue;
+    if (!state.etag && !state.last_modified) continue;
+    validators.set(feed.name, { etag: state.etag, lastModified: state.last_modified });
+  }
+
+  return validators;
+}
+
+/**
+ * Persist fetch state and health after an ingestion run
+ * 
+ * Health history is reset when the feed URL changed since the last run.
+ * 
+ * @param results - Fetch results from this run
+ * @param previous - State loaded before the run (keeps item counts across 304s)
+ * @param options.persistValidators - false to keep the previous validators
+ *   (e.g. when inserting articles failed, so the next run re-downloads them)
+ */
+export async function saveFeedFetchStates(
+  results: FetchFeedResult[],
+  previous: Map<string, FeedFetchStateRow>,
+  options: { persistValidators?: boolean } = {}
+): Promise<{ saved: number; error: string | null }> {
+  if (results.length === 0) {
+    return { saved: 0, error: null };
+  }
+
+  const persistValidators = options.persistValidators ?? true;
+
+  const rows: FeedFetchStateRow[] = results.map((result) => {
+    const prior = previous.get(result.source);
+    const sameUrl = prior?.url === result.url;
+    const keepPrior = !persistValidators || result.error !== null;
+
+    return {
+      feed_name: result.source,
+      url: result.url,
+      etag: keepPrior
+        ? (sameUrl ? prior?.etag ?? null : null)
+        : result.validators?.etag ?? null,
+      last_modified: keepPrior
+        ? (sameUrl ? prior?.last_modified ?? null : null)
+        : result.validators?.lastModified ?? null,
+      last_http_status: result.diagnostics?.httpStatus ?? null,
+      // A 304 or failure says nothing about item count - keep the last known value
+      last_item_count: result.error === null && !result.notModified
+        ? result.items.length
+        : prior?.last_item_count ?? null,
+      last_fetched_at: result.fetchedAt,
+      ...getNextHealth(sameUrl ? prior : undefined, result),
+    };
+  });
+
+  try {
+    const supabase = getSupabase();
+    const { error } = await supabase
+      .from('feed_fetch_state')
+      .upsert(rows, { onConflict: 'feed_name' });
+
+    if (error) {
+      console.error('[feedState] Error saving fetch state:', error.message);
+      return { saved: 0, error: error.message };
+    }
+
+    return { saved: rows.length, error: null };
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[feedState] Error saving fetch state:', errorMsg);
+    return { saved: 0, error: errorMsg };
+  }
+}
@@ -1,17 +1,31 @@
-import { FeedSource } from '@/types/article';
+import { ArticleType, FeedKind, FeedMarket, FeedRow, FeedSource, FeedTrustTier, SourceAdapterConfig } from '@/types/article';
+import { getSupabase } from './db';
+import { FEED_KINDS, validateAdapterConfig } from './sourceAdapters';
 
 /**
  * RSS Feed Sources for U.S. Energy Intelligence Platform
  * 
+ * The live feed registry is the Supabase `feeds` table, managed through
+ * the protected /api/admin/feeds routes. The arrays below are the seed.
+ * 
  * Sources are organized by category:
- * 1. Official Government Sources (primary)
+ * 1. Official Government Sources (primary), incl. Federal Register rulemakings
  * 2. Industry Trade Publications
  * 3. News Wire Services
  * 4. Specialty/Sector Publications
  * 
+ * Each source carries a market ('US', 'MZ', 'QA'), the region its publisher
+ * is based in, and a trust tier. Market-specific ingest routes select feeds
+ * with getEnabledFeedsByMarket() instead of matching on names.
+ * 
+ * Sources without usable RSS set `kind: 'html-list'` (or 'json-api') with an
+ * adapterConfig describing how to extract items (see lib/sourceAdapters.ts).
+ * 
  * IMPORTANT:
  * - New sources should be added with `enabled: false`
  * - Validate each source with `npm run test:feeds` before enabling
+ * - html-list sources also need a listing fixture for `npm run test:adapters`
+ *   (offline selector check only - it does not replace the live check)
  * - Check HTTP status + Content-Type to debug failures
  * 
  * Last validated: 2026-01-04
@@ -27,6 +41,9 @@ const GOVERNMENT_SOURCES: FeedSource[] = [
     name: 'EIA',
     url: 'https://www.eia.gov/rss/todayinenergy.xml',
     enabled: true,
+    market: 'US',
+    region: 'US',
+    trustTier: 'official',
     // ✅ Verified working - Energy Information Administration
     // Returns ~21 items, updated daily
   },
@@ -34,22 +51,110 @@ const GOVERNMENT_SOURCES: FeedSource[] = [
     name: 'DOE',
     url: 'https://www.energy.gov/rss.xml',
     enabled: true,
+    market: 'US',
+    region: 'US',
+    trustTier: 'official',
     // ✅ Verified working - Department of Energy
     // Returns ~10 items
   },
   {
     name: 'FERC',
-    url: 'https://www.ferc.gov/news-events/news/rss.xml',
+    url: 'https://www.ferc.gov/news-events/news',
     enabled: false,
-    // ❌ Returns 403 Forbidden (Cloudflare protection)
-    // TODO: Investigate alternative access method
+    market: 'US',
+    region: 'US',
+    trustTier: 'official',
+    // RSS returns 403 Forbidden (Cloudflare protection) - scrape the news listing instead
+    // Drupal views listing: one .views-row per release
+    // Selectors only checked against a synthetic sample (scripts/fixtures/html/ferc.html)
+    // TODO: Validate with `TEST_SOURCE=FERC npm run test:feeds` before enabling
+    kind: 'html-list',
+    adapterConfig: {
+      itemSelector: 'div.views-row',
+      title: { selector: 'a' },
+      link: { selector: 'a', attr: 'href' },
+      date: { selector: 'time', attr: 'datetime' },
+      maxItems: 20,
+    },
   },
   {
     name: 'EPA',
-    url: 'https://www.epa.gov/newsreleases/search/rss',
+    url: 'https://www.epa.gov/newsreleases/search',
+    enabled: false,
+    market: 'US',
+    region: 'US',
+    trustTier: 'official',
+    // RSS URL returns HTML - scrape the news release search listing instead
+    // USWDS collection: one li.usa-collection__item per release
+    // Selectors only checked against a synthetic sample (scripts/fixtures/html/epa.html)
+    // TODO: Validate with `TEST_SOURCE=EPA npm run test:feeds` before enabling
+    kind: 'html-list',
+    adapterConfig: {
+      itemSelector: 'li.usa-collection__item',
+      title: { selector: '.usa-collection__heading a' },
+      link: { selector: '.usa-collection__heading a', attr: 'href' },
+      date: { selector: 'time', attr: 'datetime' },
+      summary: { selector: '.usa-collection__description' },
+      maxItems: 20,
+    },
+  },
+];
+
+// =============================================================================
+// FEDERAL REGISTER (Rulemakings - docket IDs, comment deadlines)
+// =============================================================================
+
+/**
+ * Federal Register documents API URL for one agency's rules and proposed rules
+ *
+ * docket_ids and comments_close_on must be requested explicitly with fields[].
+ * Add NOTICE to the types for notices (high volume for FERC).
+ */
+function federalRegisterUrl(agencySlug: string, types: string[] = ['RULE', 'PRORULE']): string {
+  const fields = [
+    'title', 'type', 'abstract', 'document_number', 'html_url',
+    'publication_date', 'agencies', 'docket_ids', 'comments_close_on',
+  ];
+  const params = [
+    'per_page=50',
+    'order=newest',
+    `conditions[agencies][]=${agencySlug}`,
+    ...types.map((type) => `conditions[type][]=${type}`),
+    ...fields.map((field) => `fields[]=${field}`),
+  ];
+  return `https://www.federalregister.gov/api/v1/documents.json?${params.join('&')}`;
+}
+
+const FEDERAL_REGISTER_SOURCES: FeedSource[] = [
+  {
+    name: 'Federal Register - FERC',
+    url: federalRegisterUrl('federal-energy-regulatory-commission'),
     enabled: false,
-    // ❌ Returns HTML, not valid RSS
-    // TODO: Find correct EPA RSS feed URL
+    market: 'US',
+    region: 'US',
+    trustTier: 'official',
+    kind: 'federal-register',
+    // TODO: Validate with `npm run test:feeds` before enabling
+  },
+  {
+    name: 'Federal Register - EPA',
+    url: federalRegisterUrl('environmental-protection-agency'),
+    enabled: false,
+    market: 'US',
+    region: 'US',
+    trustTier: 'official',
+    kind: 'federal-register',
+    // TODO: Validate with `npm run test:feeds` before enabling
+  },
+  {
+    name: 'Federal Register - DOE',
+    url: federalRegisterUrl('energy-department'),
+    enabled: false,
+    market: 'US',
+    region: 'US',
+    trustTier: 'official',
+    kind: 'federal-register',
+    // TODO: Validate with `npm run test:feeds` before enabling
   },
 ];
 
@@ -62,6 +167,9 @@ const TRADE_SOURCES: FeedSource[] = [
     name: 'Utility Dive',
     url: 'https://www.utilitydive.com/feeds/news/',
     enabled: true,
+    market: 'US',
+    region: 'US',
+    trustTier: 'trade',
     // ✅ Verified working - 10 items
     // Industry news for electric, gas, and water utilities
     // Focus: Grid modernization, regulation, utility business
@@ -70,6 +178,9 @@ const TRADE_SOURCES: FeedSource[] = [
     name: 'Renewable Energy World',
     url: 'https://www.renewableenergyworld.com/feed/',
     enabled: true,
+    market: 'US',
+    region: 'US',
+    trustTier: 'trade',
     // ✅ Verified working - 10 items
     // Renewable energy industry news
     // Focus: Solar, wind, storage, grid integration
@@ -78,6 +189,9 @@ const TRADE_SOURCES: FeedSource[] = [
     name: 'Power Magazine',
     url: 'https://www.powermag.com/feed/',
     enabled: true,
+    market: 'US',
+    region: 'US',
+    trustTier: 'trade',
     // ✅ Verified working - 10 items
     // Electric power generation industry
     // Focus: Power plants, generation technology
@@ -86,6 +200,9 @@ const TRADE_SOURCES: FeedSource[] = [
     name: 'Energy Storage News',
     url: 'https://www.energy-storage.news/feed/',
     enabled: true,
+    market: 'US',
+    region: 'GLOBAL',
+    trustTier: 'trade',
     // ✅ Verified working - 50 items
     // Battery and energy storage industry
     // Focus: Grid storage, EV batteries, technology
@@ -94,6 +211,9 @@ const TRADE_SOURCES: FeedSource[] = [
     name: 'Oil & Gas Journal',
     url: 'https://www.ogj.com/rss',
     enabled: false,
+    market: 'US',
+    region: 'US',
+    trustTier: 'trade',
     // ❌ Returns HTML (bot protection)
     // Leading petroleum industry publication
   },
@@ -108,6 +228,9 @@ const NEWS_SOURCES: FeedSource[] = [
     name: 'Reuters Energy',
     url: 'https://www.reutersagency.com/feed/?best-topics=energy&post_type=best',
     enabled: false,
+    market: 'US',
+    region: 'GLOBAL',
+    trustTier: 'news',
     // ❌ Returns 404 Not Found
     // TODO: Find correct Reuters energy RSS URL
   },
@@ -115,6 +238,9 @@ const NEWS_SOURCES: FeedSource[] = [
     name: 'Reuters Sustainability & Climate (Google News)',
     url: 'https://news.google.com/rss/search?q=site:reuters.com+sustainability+climate+energy',
     enabled: false,
+    market: 'US',
+    region: 'GLOBAL',
+    trustTier: 'aggregator',
     // Alternative: Use Google News RSS to aggregate Reuters sustainability/climate-energy articles
     // Note: Reuters.com has bot protection (401 Unauthorized), so Google News is a workaround
     // This will include articles from reuters.com/sustainability/climate-energy/
@@ -123,6 +249,9 @@ const NEWS_SOURCES: FeedSource[] = [
     name: 'S&P Global Energy',
     url: 'https://www.spglobal.com/commodityinsights/en/rss-feed/energy',
     enabled: false,
+    market: 'US',
+    region: 'GLOBAL',
+    trustTier: 'trade',
     // ❌ Returns 403 Forbidden
     // S&P Global Commodity Insights (formerly Platts)
   },
@@ -137,6 +266,9 @@ const INTERNATIONAL_SOURCES: FeedSource[] = [
     name: 'IEA',
     url: 'https://www.iea.org/rss/news.xml',
     enabled: false,
+    market: 'US',
+    region: 'GLOBAL',
+    trustTier: 'official',
     // ❌ Returns 403 Forbidden (Cloudflare protection)
     // International Energy Agency
   },
@@ -144,6 +276,9 @@ const INTERNATIONAL_SOURCES: FeedSource[] = [
     name: 'IRENA',
     url: 'https://www.irena.org/rss',
     enabled: false,
+    market: 'US',
+    region: 'GLOBAL',
+    trustTier: 'official',
     // ❌ Returns 404 HTML page
     // International Renewable Energy Agency
   },
@@ -159,6 +294,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://finance.yahoo.com/news/rssindex',
     enabled: true,
     articleType: 'finance',
+    market: 'US',
+    region: 'US',
+    trustTier: 'news',
     // ✅ Yahoo Finance RSS - General financial news
     // Good coverage of market movements, earnings, economic data
   },
@@ -167,6 +305,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://search.cnbc.com/rs/search/combinedcms/view.xml?partnerId=wrss01&id=19836768',
     enabled: true,
     articleType: 'finance',
+    market: 'US',
+    region: 'US',
+    trustTier: 'news',
     // ✅ CNBC Energy RSS - Energy sector financial news
     // Focus: Oil prices, energy stocks, commodities
   },
@@ -175,6 +316,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://www.reutersagency.com/feed/?taxonomy=best-sectors&post_type=best',
     enabled: false,
     articleType: 'finance',
+    market: 'US',
+    region: 'GLOBAL',
+    trustTier: 'news',
     // ❌ May require validation - Reuters business/sector news
   },
   {
@@ -182,6 +326,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://feeds.marketwatch.com/marketwatch/realtimeheadlines/',
     enabled: false,
     articleType: 'finance',
+    market: 'US',
+    region: 'US',
+    trustTier: 'news',
     // ❌ May require validation - MarketWatch real-time headlines
   },
   {
@@ -189,6 +336,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://news.google.com/rss/search?q=Mozambique%20energy',
     enabled: false,
     articleType: 'finance',
+    market: 'MZ',
+    region: 'GLOBAL',
+    trustTier: 'aggregator',
     // Broad Mozambique energy coverage via Google News
   },
   {
@@ -196,6 +346,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://news.google.com/rss/search?q=Mozambique%20gas%20LNG%20energy%20finance',
     enabled: false,
     articleType: 'finance',
+    market: 'MZ',
+    region: 'GLOBAL',
+    trustTier: 'aggregator',
     // More finance-focused Mozambique LNG/energy items via Google News
   },
   {
@@ -203,6 +356,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://clubofmozambique.com/news/category/economy/feed/',
     enabled: true,
     articleType: 'finance',
+    market: 'MZ',
+    region: 'MZ',
+    trustTier: 'news',
     // Mozambique economy category feed
   },
   {
@@ -210,6 +366,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://clubofmozambique.com/news/category/mining-energy/feed/',
     enabled: true,
     articleType: 'finance',
+    market: 'MZ',
+    region: 'MZ',
+    trustTier: 'news',
     // Mozambique mining & energy category feed
   },
   {
@@ -217,6 +376,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://clubofmozambique.com/news/category/business/feed/',
     enabled: true,
     articleType: 'finance',
+    market: 'MZ',
+    region: 'MZ',
+    trustTier: 'news',
     // Mozambique business category feed
   },
   {
@@ -224,6 +386,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://www.esi-africa.com/tag/mozambique/feed/',
     enabled: true,
     articleType: 'finance',
+    market: 'MZ',
+    region: 'AFRICA',
+    trustTier: 'trade',
     // Enable after verifying availability; focused on power/energy sector
   },
   {
@@ -231,6 +396,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://www.engineeringnews.co.za/page/energy/feed',
     enabled: false,
     articleType: 'finance',
+    market: 'MZ',
+    region: 'ZA',
+    trustTier: 'trade',
     // Not Mozambique-only; can be title-filtered later for Mozambique if needed
   },
   {
@@ -238,6 +406,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://news.google.com/rss/search?q=Qatar+energy+LNG+natural+gas',
     enabled: false,
     articleType: 'finance',
+    market: 'QA',
+    region: 'GLOBAL',
+    trustTier: 'aggregator',
     // Broad Qatar energy coverage via Google News - focuses on LNG and natural gas
   },
   {
@@ -245,6 +416,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://news.google.com/rss/search?q=Qatar+energy+finance+investment+LNG',
     enabled: false,
     articleType: 'finance',
+    market: 'QA',
+    region: 'GLOBAL',
+    trustTier: 'aggregator',
     // Finance-focused Qatar energy coverage via Google News
   },
   {
@@ -252,6 +426,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://news.google.com/rss/search?q=site:gulf-times.com+Qatar+energy+LNG',
     enabled: false,
     articleType: 'finance',
+    market: 'QA',
+    region: 'GLOBAL',
+    trustTier: 'aggregator',
     // Qatar-specific energy news from Gulf Times via Google News
   },
   {
@@ -259,6 +436,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://qna.org.qa/en/Pages/RSS-Feeds/Economy-Local',
     enabled: false,
     articleType: 'finance',
+    market: 'QA',
+    region: 'QA',
+    trustTier: 'official',
     // ❌ Feed not recognized as RSS 1 or 2 by parser
   },
   {
@@ -266,6 +446,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://qna.org.qa/en/Pages/RSS-Feeds/Economy-International',
     enabled: false,
     articleType: 'finance',
+    market: 'QA',
+    region: 'QA',
+    trustTier: 'official',
     // ❌ Feed not recognized as RSS 1 or 2 by parser
   },
   {
@@ -273,6 +456,9 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://www.gulf-times.com/rssFeed/8',
     enabled: true,
     articleType: 'finance',
+    market: 'QA',
+    region: 'QA',
+    trustTier: 'news',
     // ✅ Verified working - Qatar local news (50 items)
   },
   {
@@ -280,77 +466,407 @@ const FINANCE_SOURCES: FeedSource[] = [
     url: 'https://www.gulf-times.com/rssFeed/2',
     enabled: true,
     articleType: 'finance',
+    market: 'QA',
+    region: 'QA',
+    trustTier: 'news',
     // ✅ Verified working - Business/finance news covering Qatar (50 items)
   },
 ];
 
 // =============================================================================
-// COMBINED FEED LIST
+// SEED FEED LIST
 // =============================================================================
 
-export const FEED_SOURCES: FeedSource[] = [
+/**
+ * Seed data for the `feeds` table
+ *
+ * The live registry is read from Supabase. These arrays are only used to
+ * populate an empty table (see seedFeeds) and as a last-resort fallback
+ * when the table cannot be read (e.g., migration 005 not yet applied).
+ */
+export const SEED_FEED_SOURCES: FeedSource[] = [
   ...GOVERNMENT_SOURCES,
+  ...FEDERAL_REGISTER_SOURCES,
   ...TRADE_SOURCES,
   ...NEWS_SOURCES,
   ...INTERNATIONAL_SOURCES,
   ...FINANCE_SOURCES,
 ];
 
+// =============================================================================
+// FEED REGISTRY (Supabase `feeds` table)
+// =============================================================================
+
+const ARTICLE_TYPES: ArticleType[] = ['policy', 'finance'];
+const FEED_MARKETS: FeedMarket[] = ['US', 'MZ', 'QA'];
+const TRUST_TIERS: FeedTrustTier[] = ['official', 'trade', 'news', 'aggregator'];
+
+/**
+ * Feed fields accepted by the admin API (camelCase, like FeedSource)
+ */
+export interface FeedInput {
+  name?: string;
+  url?: string;
+  enabled?: boolean;
+  articleType?: ArticleType;
+  market?: FeedMarket;
+  region?: string | null;
+  trustTier?: FeedTrustTier;
+  kind?: FeedKind;
+  adapterConfig?: SourceAdapterConfig | null;
+  notes?: string | null;
+}
+
+/**
+ * Convert a database row into a FeedSource
+ */
+function rowToFeedSource(row: FeedRow): FeedSource {
+  return {
+    name: row.name,
+    url: row.url,
+    enabled: row.enabled,
+    articleType: row.article_type || 'policy',
+    market: row.market || 'US',
+    region: row.region ?? undefined,
+    trustTier: row.trust_tier || 'news',
+    kind: row.kind || 'rss',
+    adapterConfig: row.adapter_config ?? undefined,
+  };
+}
+
+/**
+ * Convert admin input into database column values
+ * Only fields present in the input are included (safe for partial updates)
+ */
+function inputToColumns(input: FeedInput): Partial<FeedRow> {
+  const columns: Partial<FeedRow> = {};
+  if (input.name !== undefined) columns.name = input.name.trim();
+  if (input.url !== undefined) columns.url = input.url.trim();
+  if (input.enabled !== undefined) columns.enabled = input.enabled;
+  if (input.articleType !== undefined) columns.article_type = input.articleType;
+  if (input.market !== undefined) columns.market = input.market;
+  if (input.region !== undefined) columns.region = input.region?.trim() || null;
+  if (input.trustTier !== undefined) columns.trust_tier = input.trustTier;
+  if (input.kind !== undefined) columns.kind = input.kind;
+  if (input.adapterConfig !== undefined) columns.adapter_config = input.adapterConfig;
+  if (input.notes !== undefined) columns.notes = input.notes?.trim() || null;
+  return columns;
+}
+
+/**
+ * Validate admin input for a feed
+ *
+ * @param input - Fields to validate
+ * @param partial - true for updates (required fields may be omitted)
+ * @returns Error message, or null if valid
+ */
+export function validateFeedInput(input: FeedInput, partial: boolean = false): string | null {
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      return 'name is required';
+    }
+  }
+
+  if (!partial || input.url !== undefined) {
+    if (typeof input.url !== 'string' || !input.url.trim()) {
+      return 'url is required';
+    }
+    try {
+      const parsed = new URL(input.url.trim());
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        return 'url must be http or https';
+      }
+    } catch {
+      return 'url is not a valid URL';
+    }
+  }
+
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+  if (input.articleType !== undefined && !ARTICLE_TYPES.includes(input.articleType)) {
+    return `articleType must be one of: ${ARTICLE_TYPES.join(', ')}`;
+  }
+  if (input.market !== undefined && !FEED_MARKETS.includes(input.market)) {
+    return `market must be one of: ${FEED_MARKETS.join(', ')}`;
+  }
+  if (input.trustTier !== undefined && !TRUST_TIERS.includes(input.trustTier)) {
+    return `trustTier must be one of: ${TRUST_TIERS.join(', ')}`;
+  }
+  if (input.kind !== undefined && !FEED_KINDS.includes(input.kind)) {
+    return `kind must be one of: ${FEED_KINDS.join(', ')}`;
+  }
+
+  // Adapter config is validated against its kind, so both travel together
+  if (input.adapterConfig !== undefined && input.adapterConfig !== null && input.kind === undefined) {
+    return 'kind is required when adapterConfig is set';
+  }
+  if (input.kind !== undefined) {
+    const adapterError = validateAdapterConfig(input.kind, input.adapterConfig);
+    if (adapterError) {
+      return adapterError;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Insert the seed feeds into the `feeds` table
+ *
+ * Existing rows (matched by name) are left untouched so admin edits
+ * are never overwritten by the seed.
+ */
+export async function seedFeeds(): Promise<{ inserted: number; error: string | null }> {
+  const supabase = getSupabase();
+
+  const rows = SEED_FEED_SOURCES.map((feed) => ({
+    name: feed.name,
+    url: feed.url,
+    enabled: feed.enabled,
+    article_type: feed.articleType || 'policy',
+    market: feed.market || 'US',
+    region: feed.region ?? null,
+    trust_tier: feed.trustTier || 'news',
+    kind: feed.kind || 'rss',
+    adapter_config: feed.adapterConfig ?? null,
+  }));
+
+  const { data, error } = await supabase
+    .from('feeds')
+    .upsert(rows, { onConflict: 'name', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) {
+    return { inserted: 0, error: error.message };
+  }
+
+  return { inserted: data?.length ?? 0, error: null };
+}
+
+/**
+ * Load every feed from the registry
+ *
+ * Seeds the table on first use. Falls back to the seed list if the
+ * table cannot be read so ingestion keeps working before migration 005.
+ */
+async function loadFeeds(allowSeed: boolean = true): Promise<FeedSource[]> {
+  try {
+    const supabase = getSupabase();
+    const { data, error } = await supabase
+      .from('feeds')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (!data || data.length === 0) {
+      if (!allowSeed) {
+        throw new Error('Registry is still empty after seeding');
+      }
+      console.log('[feeds] Registry is empty - seeding from built-in feed list');
+      const seedResult = await seedFeeds();
+      if (seedResult.error) {
+        throw new Error(`Seeding failed: ${seedResult.error}`);
+      }
+      return loadFeeds(false);
+    }
+
+    return (data as FeedRow[]).map(rowToFeedSource);
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+    console.warn(`[feeds] Falling back to seed feed list: ${errorMsg}`);
+    return SEED_FEED_SOURCES;
+  }
+}
+
 /**
  * Get all enabled feed sources
  */
-export function getEnabledFeeds(): FeedSource[] {
-  return FEED_SOURCES.filter((feed) => feed.enabled);
+export async function getEnabledFeeds(): Promise<FeedSource[]> {
+  const feeds = await loadFeeds();
+  return feeds.filter((feed) => feed.enabled);
 }
 
 /**
  * Get all feed sources (including disabled)
  */
-export function getAllFeeds(): FeedSource[] {
-  return FEED_SOURCES;
+export async function getAllFeeds(): Promise<FeedSource[]> {
+  return loadFeeds();
 }
 
 /**
  * Get a feed source by name
  */
-export function getFeedByName(name: string): FeedSource | undefined {
-  return FEED_SOURCES.find((feed) => feed.name === name);
+export async function getFeedByName(name: string): Promise<FeedSource | undefined> {
+  const feeds = await loadFeeds();
+  return feeds.find((feed) => feed.name === name);
 }
 
 /**
- * Get feeds by category
+ * Get enabled feeds by article type
  */
-export function getFeedsByCategory(category: 'government' | 'trade' | 'news' | 'international' | 'finance'): FeedSource[] {
-  switch (category) {
-    case 'government':
-      return GOVERNMENT_SOURCES;
-    case 'trade':
-      return TRADE_SOURCES;
-    case 'news':
-      return NEWS_SOURCES;
-    case 'international':
-      return INTERNATIONAL_SOURCES;
-    case 'finance':
-      return FINANCE_SOURCES;
-    default:
-      return [];
-  }
+export async function getEnabledFeedsByType(articleType: ArticleType): Promise<FeedSource[]> {
+  const feeds = await getEnabledFeeds();
+  return feeds.filter((feed) => (feed.articleType || 'policy') === articleType);
 }
 
 /**
- * Get enabled feeds by article type
+ * Get enabled feeds for a market
+ *
+ * @param market - Market code ('US', 'MZ', 'QA')
+ * @param options.articleType - Restrict to one article type
+ * @param options.localOnly - Only publishers based in the market itself
+ *   (excludes pan-regional outlets and Google News aggregations)
  */
-export function getEnabledFeedsByType(articleType: 'policy' | 'finance'): FeedSource[] {
-  return FEED_SOURCES.filter((feed) => {
-    if (!feed.enabled) return false;
-    const feedType = feed.articleType || 'policy';
-    return feedType === articleType;
+export async function getEnabledFeedsByMarket(
+  market: FeedMarket,
+  options?: { articleType?: ArticleType; localOnly?: boolean }
+): Promise<FeedSource[]> {
+  const feeds = await getEnabledFeeds();
+  return feeds.filter((feed) => {
+    if ((feed.market || 'US') !== market) return false;
+    if (options?.articleType && (feed.articleType || 'policy') !== options.articleType) return false;
+    if (options?.localOnly && feed.region !== market) return false;
+    return true;
   });
 }
 
 /**
  * Get enabled finance feeds
  */
-export function getEnabledFinanceFeeds(): FeedSource[] {
+export async function getEnabledFinanceFeeds(): Promise<FeedSource[]> {
   return getEnabledFeedsByType('finance');
 }
+
+// =============================================================================
+// ADMIN CRUD
+// =============================================================================
+
+/**
+ * List raw feed rows for the admin API
+ */
+export async function listFeedRows(filters?: {
+  enabled?: boolean;
+  market?: FeedMarket;
+  articleType?: ArticleType;
+}): Promise<{ data: FeedRow[]; error: string | null }> {
+  const supabase = getSupabase();
+
+  let query = supabase
+    .from('feeds')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (filters?.enabled !== undefined) {
+    query = query.eq('enabled', filters.enabled);
+  }
+  if (filters?.market) {
+    query = query.eq('market', filters.market);
+  }
+  if (filters?.articleType) {
+    query = query.eq('article_type', filters.articleType);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return { data: [], error: error.message };
+  }
+
+  return { data: (data as FeedRow[]) || [], error: null };
+}
+
+/**
+ * Get a single feed row by id
+ */
+export async function getFeedRow(id: string): Promise<{ data: FeedRow | null; error: string | null }> {
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase
+    .from('feeds')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    return { data: null, error: error.message };
+  }
+
+  return { data: (data as FeedRow) ?? null, error: null };
+}
+
+/**
+ * Create a new feed
+ *
+ * New feeds default to `enabled: false` - validate with `npm run test:feeds` first.
+ */
+export async function createFeed(input: FeedInput): Promise<{ data: FeedRow | null; error: string | null }> {
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase
+    .from('feeds')
+    .insert({
+      enabled: false,
+      article_type: 'policy',
+      market: 'US',
+      trust_tier: 'news',
+      ...inputToColumns(input),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return { data: null, error: error.message };
+  }
+
+  return { data: data as FeedRow, error: null };
+}
+
+/**
+ * Update an existing feed (partial update)
+ *
+ * Also used to enable/disable a feed: `updateFeed(id, { enabled: false })`
+ */
+export async function updateFeed(
+  id: string,
+  input: FeedInput
+): Promise<{ data: FeedRow | null; error: string | null }> {
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase
+    .from('feeds')
+    .update({ ...inputToColumns(input), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return { data: null, error: error.message };
+  }
+
+  return { data: (data as FeedRow) ?? null, error: null };
+}
+
+/**
+ * Delete a feed
+ *
+ * @returns deleted = false if no feed had this id
+ */
+export async function deleteFeed(id: string): Promise<{ deleted: boolean; error: string | null }> {
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase
+    .from('feeds')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    return { deleted: false, error: error.message };
+  }
+
+  return { deleted: (data?.length ?? 0) > 0, error: null };
+}
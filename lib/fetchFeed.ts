@@ -1,20 +1,17 @@
-import Parser from 'rss-parser';
 import { RawFeedItem, FeedSource, ArticleType } from '@/types/article';
+import { FeedFormat } from './feedFormats';
+import { getSourceAdapter } from './sourceAdapters';
 
 // Check if we're in development mode
 const isDev = process.env.NODE_ENV !== 'production';
 
-// Configure parser
-const parser = new Parser({
-  timeout: 15000, // 15 second timeout per feed
-  headers: {
-    'User-Agent': 'Mozilla/5.0 (compatible; EnergyIntelBot/1.0; +https://github.com/energy-intel)',
-    'Accept': 'application/rss+xml, application/xml, application/atom+xml, text/xml, */*',
-  },
-  customFields: {
-    item: ['media:content', 'media:thumbnail', 'media:group', 'image', 'enclosure'],
-  },
-});
+/**
+ * HTTP cache validators for conditional GET
+ */
+export interface FeedValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
 
 /**
  * Result of fetching a single feed
@@ -26,15 +23,39 @@ export interface FetchFeedResult {
   error: string | null;
   fetchedAt: string;
   articleType: ArticleType; // Type of articles from this feed
+  // True when the server answered 304 Not Modified (success, no new items)
+  notModified?: boolean;
+  // Validators from this response, to send on the next run
+  validators?: FeedValidators;
   // Diagnostic info (populated in dev mode)
   diagnostics?: {
     httpStatus?: number;
     contentType?: string;
     responsePreview?: string;
     parseError?: string;
+    feedFormat?: FeedFormat; // Detected body format (rss2, rss1, atom, json)
+    retryAfterMs?: number; // Parsed Retry-After header (429 / 503)
+    retries?: number;      // Retries performed by fetchFeedWithRetry
   };
 }
 
+/**
+ * Retry and concurrency settings for fetchAllFeeds
+ */
+export interface FetchOptions {
+  retries: number;            // Extra attempts for transient failures (timeouts, 429, 5xx)
+  baseDelayMs: number;        // Base for exponential back-off between attempts
+  maxDelayMs: number;         // Cap on any single wait (longer Retry-After = give up)
+  perHostConcurrency: number; // Max simultaneous requests to one host
+}
+
+export const DEFAULT_FETCH_OPTIONS: FetchOptions = {
+  retries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000,
+  perHostConcurrency: 2, // Several Google News feeds share news.google.com
+};
+
 /**
  * Dev-only logging helper
  */
@@ -59,22 +80,39 @@ function devWarn(message: string, data?: unknown) {
  * Uses fetch() + parseString() for better error diagnostics
  * instead of parseURL() which hides HTTP-level errors.
  * 
+ * When validators from a previous run are passed, sends
+ * If-None-Match / If-Modified-Since. A 304 response is a
+ * successful result with no items and `notModified: true`.
+ * 
  * @param feed - Feed source configuration
+ * @param validators - ETag / Last-Modified from the previous fetch (optional)
  * @returns Parsed feed items or error with diagnostics
  */
-export async function fetchFeed(feed: FeedSource): Promise<FetchFeedResult> {
+export async function fetchFeed(
+  feed: FeedSource,
+  validators?: FeedValidators
+): Promise<FetchFeedResult> {
   const fetchedAt = new Date().toISOString();
   const diagnostics: FetchFeedResult['diagnostics'] = {};
+  const adapter = getSourceAdapter(feed);
 
-  devLog(`Fetching: ${feed.name}`, feed.url);
+  devLog(`Fetching: ${feed.name} (${adapter.kind})`, feed.url);
+
+  const headers: Record<string, string> = {
+    'User-Agent': 'Mozilla/5.0 (compatible; EnergyIntelBot/1.0; +https://github.com/energy-intel)',
+    'Accept': adapter.accept,
+  };
+  if (validators?.etag) {
+    headers['If-None-Match'] = validators.etag;
+  }
+  if (validators?.lastModified) {
+    headers['If-Modified-Since'] = validators.lastModified;
+  }
 
   try {
     // Step 1: Fetch the raw response
     const response = await fetch(feed.url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; EnergyIntelBot/1.0; +https://github.com/energy-intel)',
-        'Accept': 'application/rss+xml, application/xml, application/atom+xml, text/xml, */*',
-      },
+      headers,
       signal: AbortSignal.timeout(15000), // 15 second timeout
     });
 
@@ -83,10 +121,36 @@ export async function fetchFeed(feed: FeedSource): Promise<FetchFeedResult> {
 
     devLog(`${feed.name}: HTTP ${response.status}, Content-Type: ${diagnostics.contentType}`);
 
+    // 304 Not Modified - nothing new since the last run
+    if (response.status === 304) {
+      devLog(`${feed.name}: Not modified since last fetch`);
+
+      return {
+        source: feed.name,
+        url: feed.url,
+        items: [],
+        error: null,
+        fetchedAt,
+        articleType: feed.articleType || 'policy',
+        notModified: true,
+        // Keep the previous validators (304 may omit them)
+        validators: {
+          etag: response.headers.get('etag') || validators?.etag || null,
+          lastModified: response.headers.get('last-modified') || validators?.lastModified || null,
+        },
+        diagnostics,
+      };
+    }
+
     // Check for non-OK status
     if (!response.ok) {
       const errorMsg = `HTTP ${response.status}: ${response.statusText}`;
       devWarn(`${feed.name}: ${errorMsg}`);
+
+      const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAfterMs !== null) {
+        diagnostics.retryAfterMs = retryAfterMs;
+      }
       
       // Try to get response preview for debugging
       try {
@@ -112,8 +176,9 @@ export async function fetchFeed(feed: FeedSource): Promise<FetchFeedResult> {
     const text = await response.text();
     
     // Check if response looks like HTML (bot protection, redirect page)
+    // html-list sources expect HTML, so only RSS sources are checked
     const trimmedText = text.trim().toLowerCase();
-    if (trimmedText.startsWith('<!doctype') || trimmedText.startsWith('<html')) {
+    if (adapter.kind === 'rss' && (trimmedText.startsWith('<!doctype') || trimmedText.startsWith('<html'))) {
       const errorMsg = 'Response is HTML, not XML/RSS (possible bot protection or redirect)';
       diagnostics.responsePreview = text.slice(0, 500);
       devWarn(`${feed.name}: ${errorMsg}`);
@@ -130,26 +195,12 @@ export async function fetchFeed(feed: FeedSource): Promise<FetchFeedResult> {
       };
     }
 
-    // Step 3: Parse the XML/RSS
+    // Step 3: Parse with the source adapter (RSS/Atom/JSON Feed, HTML listing, JSON API)
     try {
-      const parsed = await parser.parseString(text);
-      
-      // Map parser output to our RawFeedItem type
-      const items: RawFeedItem[] = (parsed.items || []).map((item) => ({
-        title: item.title,
-        link: item.link,
-        pubDate: item.pubDate,
-        isoDate: item.isoDate,
-        content: item.content,
-        contentSnippet: item.contentSnippet,
-        guid: item.guid,
-        enclosure: item.enclosure,
-        image: (item as RawFeedItem).image,
-        'media:content': (item as RawFeedItem)['media:content'],
-        'media:thumbnail': (item as RawFeedItem)['media:thumbnail'],
-      }));
-
-      devLog(`${feed.name}: ✅ Parsed ${items.length} items`);
+      const { items, feedFormat } = await adapter.parse(text, feed, diagnostics.contentType);
+      diagnostics.feedFormat = feedFormat;
+
+      devLog(`${feed.name}: ✅ Parsed ${items.length} items (${feedFormat || adapter.kind})`);
 
       return {
         source: feed.name,
@@ -158,6 +209,10 @@ export async function fetchFeed(feed: FeedSource): Promise<FetchFeedResult> {
         error: null,
         fetchedAt,
         articleType: feed.articleType || 'policy',
+        validators: {
+          etag: response.headers.get('etag'),
+          lastModified: response.headers.get('last-modified'),
+        },
         diagnostics,
       };
     } catch (parseErr) {
@@ -194,18 +249,137 @@ export async function fetchFeed(feed: FeedSource): Promise<FetchFeedResult> {
   }
 }
 
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = new Date(value);
+  if (!isNaN(date.getTime())) {
+    return Math.max(0, date.getTime() - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * Whether a failed fetch is worth retrying
+ * 
+ * Transient: timeouts / network errors (no HTTP status), 429 and 5xx.
+ * Not transient: other 4xx, HTML instead of a feed, parse errors.
+ */
+function isTransientFailure(result: FetchFeedResult): boolean {
+  if (result.error === null) return false;
+
+  const status = result.diagnostics?.httpStatus;
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+
+  // No HTTP status means the request itself failed (timeout, DNS, reset)
+  return true;
+}
+
+/**
+ * Fetch a single feed, retrying transient failures
+ * 
+ * Waits the server's Retry-After when given, otherwise exponential
+ * back-off with full jitter. Gives up early if Retry-After exceeds
+ * maxDelayMs. The retry count is recorded in diagnostics.retries.
+ */
+export async function fetchFeedWithRetry(
+  feed: FeedSource,
+  validators?: FeedValidators,
+  options: FetchOptions = DEFAULT_FETCH_OPTIONS
+): Promise<FetchFeedResult> {
+  let result = await fetchFeed(feed, validators);
+  let retries = 0;
+
+  while (retries < options.retries && isTransientFailure(result)) {
+    const retryAfterMs = result.diagnostics?.retryAfterMs;
+    if (retryAfterMs !== undefined && retryAfterMs > options.maxDelayMs) {
+      devWarn(`${feed.name}: Retry-After ${retryAfterMs}ms exceeds max delay, not retrying`);
+      break;
+    }
+
+    const backoffCeiling = Math.min(options.baseDelayMs * Math.pow(2, retries), options.maxDelayMs);
+    const delayMs = retryAfterMs ?? Math.round(Math.random() * backoffCeiling);
+
+    retries++;
+    devLog(`${feed.name}: Retry ${retries}/${options.retries} in ${delayMs}ms (${result.error})`);
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+    result = await fetchFeed(feed, validators);
+  }
+
+  return {
+    ...result,
+    diagnostics: { ...result.diagnostics, retries },
+  };
+}
+
+/**
+ * Get the host a feed is served from (used for per-host concurrency)
+ */
+function getFeedHost(feed: FeedSource): string {
+  try {
+    return new URL(feed.url).hostname.toLowerCase();
+  } catch {
+    return feed.url;
+  }
+}
+
 /**
  * Fetch all feeds in parallel with error isolation
  * 
- * Each feed is fetched independently - one failure doesn't affect others
+ * Each feed is fetched independently - one failure doesn't affect others.
+ * Different hosts are fetched in parallel; requests to the same host are
+ * capped at options.perHostConcurrency. Transient failures are retried.
  * 
  * @param feeds - Array of feed sources to fetch
- * @returns Array of fetch results (success or error per feed)
+ * @param validatorsByName - Conditional GET validators keyed by feed name (optional)
+ * @param options - Retry and concurrency settings (merged over DEFAULT_FETCH_OPTIONS)
+ * @returns Array of fetch results in the same order as feeds
  */
-export async function fetchAllFeeds(feeds: FeedSource[]): Promise<FetchFeedResult[]> {
-  const results = await Promise.all(
-    feeds.map((feed) => fetchFeed(feed))
-  );
+export async function fetchAllFeeds(
+  feeds: FeedSource[],
+  validatorsByName?: Map<string, FeedValidators>,
+  options?: Partial<FetchOptions>
+): Promise<FetchFeedResult[]> {
+  const fetchOptions: FetchOptions = { ...DEFAULT_FETCH_OPTIONS, ...options };
+  const concurrency = Math.max(1, fetchOptions.perHostConcurrency);
+
+  // Group feed indexes by host
+  const indexesByHost = new Map<string, number[]>();
+  feeds.forEach((feed, index) => {
+    const host = getFeedHost(feed);
+    const indexes = indexesByHost.get(host) || [];
+    indexes.push(index);
+    indexesByHost.set(host, indexes);
+  });
+
+  const results: FetchFeedResult[] = new Array(feeds.length);
+
+  // Each host gets `concurrency` workers pulling from its own queue
+  const hostQueues = Array.from(indexesByHost.values()).map(async (queue) => {
+    const workers = Array.from({ length: Math.min(concurrency, queue.length) }, async () => {
+      let index = queue.shift();
+      while (index !== undefined) {
+        const feed = feeds[index];
+        results[index] = await fetchFeedWithRetry(feed, validatorsByName?.get(feed.name), fetchOptions);
+        index = queue.shift();
+      }
+    });
+    await Promise.all(workers);
+  });
+
+  await Promise.all(hostQueues);
   
   return results;
 }
@@ -243,12 +417,15 @@ export interface FetchStats {
   totalFeeds: number;
   successfulFeeds: number;
   failedFeeds: number;
+  notModifiedFeeds: number; // Successful 304 responses (subset of successfulFeeds)
   totalItems: number;
   errors: string[];
   perSource: {
     name: string;
     status: 'success' | 'failed';
     itemCount: number;
+    notModified: boolean;
+    retries: number;
     error?: string;
     httpStatus?: number;
     contentType?: string;
@@ -263,6 +440,8 @@ export function getFetchStats(results: FetchFeedResult[]): FetchStats {
     name: r.source,
     status: (r.error === null ? 'success' : 'failed') as 'success' | 'failed',
     itemCount: r.items.length,
+    notModified: !!r.notModified,
+    retries: r.diagnostics?.retries ?? 0,
     error: r.error || undefined,
     httpStatus: r.diagnostics?.httpStatus,
     contentType: r.diagnostics?.contentType,
@@ -270,6 +449,7 @@ export function getFetchStats(results: FetchFeedResult[]): FetchStats {
 
   const successfulFeeds = results.filter((r) => r.error === null).length;
   const failedFeeds = results.filter((r) => r.error !== null).length;
+  const notModifiedFeeds = results.filter((r) => r.notModified).length;
   const totalItems = results.reduce((sum, r) => sum + r.items.length, 0);
   const errors = results
     .filter((r) => r.error !== null)
@@ -279,6 +459,7 @@ export function getFetchStats(results: FetchFeedResult[]): FetchStats {
     totalFeeds: results.length,
     successfulFeeds,
     failedFeeds,
+    notModifiedFeeds,
     totalItems,
     errors,
     perSource,
@@ -294,7 +475,7 @@ export function printFetchSummary(stats: FetchStats): void {
   console.log('\n' + '='.repeat(80));
   console.log('FEED FETCH SUMMARY');
   console.log('='.repeat(80));
-  console.log(`Total: ${stats.totalFeeds} | Success: ${stats.successfulFeeds} | Failed: ${stats.failedFeeds} | Items: ${stats.totalItems}`);
+  console.log(`Total: ${stats.totalFeeds} | Success: ${stats.successfulFeeds} (${stats.notModifiedFeeds} not modified) | Failed: ${stats.failedFeeds} | Items: ${stats.totalItems}`);
   console.log('-'.repeat(80));
   console.log('Source'.padEnd(25) + 'Status'.padEnd(10) + 'Items'.padEnd(8) + 'HTTP'.padEnd(6) + 'Error');
   console.log('-'.repeat(80));
@@ -0,0 +1,155 @@
+/**
+ * Near-Duplicate Fingerprinting (MinHash + LSH)
+ *
+ * Computes a MinHash signature over an article's normalized title and
+ * snippet words, so syndicated stories with small wording changes
+ * ("Shell's LNG..." vs "Shell LNG...") are recognized as the same story.
+ *
+ * - Signature: MINHASH_SIZE min-hash values; the fraction of equal values
+ *   estimates the Jaccard similarity of the two word sets
+ * - LSH bands: the first BAND_COUNT × BAND_ROWS values are grouped into band
+ *   keys stored in articles.minhash_bands (GIN index). Articles sharing a band
+ *   are candidates; pairs with estimated similarity >= NEAR_DUPLICATE_THRESHOLD
+ *   are near-duplicates. Unrelated articles almost never share a band, so
+ *   lookups only load a handful of candidate rows.
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Estimated Jaccard similarity at or above which articles are near-duplicates
+ */
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+const MINHASH_SIZE = 128; // Estimate std. error ≈ 0.04 near the threshold
+const BAND_COUNT = 6;
+const BAND_ROWS = 3; // P(candidate) ≈ 1 - (1 - s³)⁶: 0.99 at s=0.8, 0.05 at s=0.2
+const MAX_SNIPPET_WORDS = 20; // Lede only - outlets truncate and rewrite snippets differently
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have',
+  'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'over', 'says', 'that',
+  'the', 'to', 'was', 'will', 'with',
+]);
+
+/**
+ * Fingerprint stored with an article
+ */
+export interface ArticleFingerprint {
+  minhash: number[];       // MINHASH_SIZE signed 32-bit values
+  minhash_bands: string[]; // LSH band keys, e.g. '0:1a2b3c4d5e6f'
+}
+
+/**
+ * murmur3 32-bit finalizer
+ */
+function mix32(value: number): number {
+  let h = value | 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h | 0;
+}
+
+// One seed per hash function (fixed, so stored signatures stay comparable)
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => mix32(Math.imul(i + 1, 0x9e3779b9)));
+
+/**
+ * Remove a trailing " - Publisher" / " | Publisher" suffix (Google News titles)
+ */
+function stripPublisherSuffix(title: string): string {
+  const match = title.match(/^(.*\S)\s+[-|–—]\s+([^-|–—]+)$/);
+  if (match && match[2].trim().split(/\s+/).length <= 4) {
+    return match[1];
+  }
+  return title;
+}
+
+/**
+ * Normalize text into comparable word tokens
+ *
+ * Lowercases, drops possessives, punctuation and stopwords, and folds
+ * simple plurals ("plants" → "plant").
+ */
+export function tokenizeForFingerprint(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token.length > 0 && !STOPWORDS.has(token))
+    .map((token) => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+/**
+ * Normalized title key (equal keys = same headline, ignoring case,
+ * punctuation, plurals and a trailing publisher name)
+ */
+export function getTitleKey(title: string): string {
+  return tokenizeForFingerprint(stripPublisherSuffix(title)).join(' ');
+}
+
+/**
+ * Compute the fingerprint of an article
+ *
+ * @param title - Article title
+ * @param snippet - Article snippet / description (optional)
+ * @returns Fingerprint, or null if there is no usable text
+ */
+export function computeFingerprint(title: string, snippet?: string): ArticleFingerprint | null {
+  const words = new Set([
+    ...tokenizeForFingerprint(stripPublisherSuffix(title)),
+    ...tokenizeForFingerprint(snippet || '').slice(0, MAX_SNIPPET_WORDS),
+  ]);
+
+  if (words.size === 0) {
+    return null;
+  }
+
+  const minhash = new Array<number>(MINHASH_SIZE).fill(0x7fffffff);
+  words.forEach((word) => {
+    const base = createHash('md5').update(word).digest().readInt32BE(0);
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const value = mix32(base ^ SEEDS[i]);
+      if (value < minhash[i]) minhash[i] = value;
+    }
+  });
+
+  return { minhash, minhash_bands: getMinHashBands(minhash) };
+}
+
+/**
+ * LSH band keys for a signature
+ */
+export function getMinHashBands(minhash: number[]): string[] {
+  const bands: string[] = [];
+  for (let band = 0; band < BAND_COUNT; band++) {
+    const rows = minhash.slice(band * BAND_ROWS, (band + 1) * BAND_ROWS);
+    const key = createHash('md5').update(rows.join(',')).digest('hex').slice(0, 12);
+    bands.push(`${band}:${key}`);
+  }
+  return bands;
+}
+
+/**
+ * Estimated Jaccard similarity of two signatures (0-1)
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+/**
+ * Whether two signatures are near-duplicates
+ */
+export function isNearDuplicate(a: number[], b: number[]): boolean {
+  return estimateSimilarity(a, b) >= NEAR_DUPLICATE_THRESHOLD;
+}
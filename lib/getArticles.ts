@@ -1,5 +1,6 @@
 import { getSupabase } from './db';
-import { ArticleRow, ArticleCategory } from '@/types/article';
+import { CATEGORY_CONFIDENCE_THRESHOLD } from './categorize';
+import { ArticleRow, ArticleCategory, ArticleSubcategory, ArticleWithStory, StoryRow, SummaryDeadline } from '@/types/article';
 
 /**
  * Time range options for archive filtering
@@ -10,13 +11,22 @@ export type TimeRange = 'latest' | '24h' | '7d' | '30d' | '90d';
  * Options for fetching articles
  */
 export interface GetArticlesOptions {
-  category?: ArticleCategory | 'All';
+  category?: ArticleCategory | 'All'; // Matches any label (article_categories), not just the primary one
+  subcategory?: ArticleSubcategory; // Sub-topic of a label (e.g., 'Nuclear'); implies its category
+  minConfidence?: number; // Minimum label confidence for the category/sub-topic filter (default: CATEGORY_CONFIDENCE_THRESHOLD)
   limit?: number;
   offset?: number;
   includeFinance?: boolean; // Whether to include finance articles (default: false)
   timeRange?: TimeRange; // Time range filter for archive
+  docketId?: string; // Only articles linked to this regulatory docket (e.g., 'RM22-14')
+  entity?: string; // Only articles mentioning this entity (e.g., 'company:xom', 'iso:ercot'; see lib/entities.ts)
+  ticker?: string; // Only articles mentioning the company with this ticker (e.g., 'XOM')
+  groupByStory?: boolean; // One lead article per story, with its coverage (default: false)
 }
 
+// Rows fetched per returned article when grouping, so collapsed stories still fill the page
+const STORY_OVERFETCH_FACTOR = 3;
+
 // Finance sources that should be excluded from main feed
 const FINANCE_SOURCES = [
   'Yahoo Finance',
@@ -75,33 +85,135 @@ function getDateRange(timeRange: TimeRange): { start: Date; end: Date } | null {
  * Result from fetching articles
  */
 export interface GetArticlesResult {
-  articles: ArticleRow[];
+  articles: ArticleWithStory[];
   error: string | null;
 }
 
+/**
+ * Collapse articles of the same story into one lead article
+ * 
+ * The lead is the story's lead article if it is among the results,
+ * otherwise the story's first (most recent) article. It takes the
+ * position of the story's first article.
+ */
+async function groupArticlesByStory(
+  articles: ArticleRow[],
+  limit: number
+): Promise<ArticleWithStory[]> {
+  const storyIds = Array.from(
+    new Set(articles.map((a) => a.story_id).filter((id): id is string => !!id))
+  );
+  const stories = new Map<string, StoryRow>();
+
+  if (storyIds.length > 0) {
+    const { data, error } = await getSupabase().from('stories').select('*').in('id', storyIds);
+    if (error) {
+      // Fall back to ungrouped articles
+      console.error('[getArticles] Error loading stories:', error.message);
+    }
+    for (const row of (data as StoryRow[]) || []) {
+      stories.set(row.id, row);
+    }
+  }
+
+  const grouped: ArticleWithStory[] = [];
+  const seenStories = new Set<string>();
+
+  for (const article of articles) {
+    const story = article.story_id ? stories.get(article.story_id) : undefined;
+    if (!story) {
+      grouped.push({ ...article, story: null });
+      continue;
+    }
+    if (seenStories.has(story.id)) continue;
+    seenStories.add(story.id);
+
+    const lead = articles.find((a) => a.id === story.lead_article_id) || article;
+    grouped.push({
+      ...lead,
+      story: {
+        id: story.id,
+        articleCount: story.article_count,
+        sourceCount: story.source_count,
+        otherSources: story.sources.filter((source) => source !== lead.source),
+      },
+    });
+  }
+
+  return grouped.slice(0, limit);
+}
+
 /**
  * Fetch articles from Supabase (server-side only)
  * 
- * @param options - Query options (category, limit, offset, includeFinance, timeRange)
+ * With groupByStory, offset applies to the ungrouped rows.
+ * 
+ * @param options - Query options (category, subcategory, minConfidence, limit, offset, includeFinance, timeRange, docketId, entity, ticker, groupByStory)
  * @returns Articles sorted by pub_date DESC
  */
 export async function getArticles(
   options: GetArticlesOptions = {}
 ): Promise<GetArticlesResult> {
-  const { category, limit = 25, offset = 0, includeFinance = false, timeRange = 'latest' } = options;
+  const {
+    category,
+    subcategory,
+    limit = 25,
+    offset = 0,
+    minConfidence = CATEGORY_CONFIDENCE_THRESHOLD,
+    includeFinance = false,
+    timeRange = 'latest',
+    docketId,
+    entity,
+    ticker,
+    groupByStory = false,
+  } = options;
 
   try {
     const supabase = getSupabase();
+    const rowLimit = groupByStory ? limit * STORY_OVERFETCH_FACTOR : limit;
+    const filterByCategory = !!category && category !== 'All';
+    const filterByLabel = filterByCategory || !!subcategory;
+
+    const filterByEntity = !!entity || !!ticker;
+
+    // Inner joins so the filters match secondary labels / any mentioned entity
+    const columns = [
+      '*',
+      ...(filterByLabel ? ['article_categories!inner(category, subcategory, confidence)'] : []),
+      ...(filterByEntity ? ['article_entities!inner(entity_id, ticker)'] : []),
+    ].join(', ');
 
     let query = supabase
       .from('articles')
-      .select('*')
+      .select<string, ArticleRow & { article_categories?: unknown; article_entities?: unknown }>(columns)
       .order('pub_date', { ascending: false })
-      .range(offset, offset + limit - 1);
+      .range(offset, offset + rowLimit - 1);
 
     // Apply category filter if specified and not "All"
-    if (category && category !== 'All') {
-      query = query.eq('category', category);
+    if (filterByCategory) {
+      query = query.eq('article_categories.category', category);
+    }
+
+    // Sub-topic filter (matches the same label row as the category filter)
+    if (subcategory) {
+      query = query.eq('article_categories.subcategory', subcategory);
+    }
+
+    if (filterByLabel) {
+      query = query.gte('article_categories.confidence', minConfidence);
+    }
+
+    // Coverage of a company, agency, state, ISO or country
+    if (entity) {
+      query = query.eq('article_entities.entity_id', entity.trim().toLowerCase());
+    }
+    if (ticker) {
+      query = query.eq('article_entities.ticker', ticker.trim().toUpperCase());
+    }
+
+    // Related coverage of one proceeding
+    if (docketId) {
+      query = query.contains('docket_ids', [docketId.trim().toUpperCase()]);
     }
 
     // Exclude finance sources from main feed by default
@@ -130,7 +242,10 @@ export async function getArticles(
     // Filter out any Mozambique and Qatar-related sources (catches variations and old entries)
     // This is done in JavaScript to ensure we catch all variations
     // BUT: Keep Mozambique and Qatar articles in archive views (24h, 7d, 30d, 90d) so users can see previously ingested articles
-    let filteredArticles = (data as ArticleRow[]) || [];
+    // Drop the joined labels/entities - callers get plain article rows
+    let filteredArticles = (data || []).map(
+      ({ article_categories: _labels, article_entities: _entities, ...article }) => article as ArticleRow
+    );
     if (!includeFinance && timeRange === 'latest') {
       // Only exclude Mozambique and Qatar articles from the "latest" feed
       // Archive views should include all articles, including Mozambique and Qatar
@@ -142,6 +257,10 @@ export async function getArticles(
       );
     }
 
+    if (groupByStory) {
+      return { articles: await groupArticlesByStory(filteredArticles, limit), error: null };
+    }
+
     return { articles: filteredArticles, error: null };
   } catch (err) {
     const errorMsg = err instanceof Error ? err.message : 'Unknown error';
@@ -200,3 +319,43 @@ export function formatTimeAgo(pubDate: string): string {
   return 'Just now';
 }
 
+
+/**
+ * Whether a summary is only the title (fallback used when summarization failed)
+ */
+function isTitleOnlySummary(title: string, summary: string | null | undefined): boolean {
+  const normalizedSummary = (summary || '').toLowerCase().trim().replace(/\.\.\.$/, '');
+  return !normalizedSummary || title.toLowerCase().trim().startsWith(normalizedSummary);
+}
+
+/**
+ * Teaser text for an article card
+ * 
+ * The summary, or the cleaned feed snippet when there is no real summary.
+ */
+export function getArticleTeaser(article: Pick<ArticleRow, 'title' | 'summary' | 'snippet'>): string {
+  if (article.snippet && isTitleOnlySummary(article.title, article.summary)) {
+    return article.snippet;
+  }
+  return article.summary;
+}
+
+/**
+ * Next upcoming deadline of an article
+ * 
+ * From the structured summary's deadlines and the Federal Register comment
+ * deadline, whichever comes first from today on.
+ */
+export function getNextDeadline(
+  article: Pick<ArticleRow, 'structured_summary' | 'comment_deadline'>
+): SummaryDeadline | null {
+  const today = new Date().toISOString().slice(0, 10);
+  const deadlines: SummaryDeadline[] = [...(article.structured_summary?.deadlines || [])];
+  if (article.comment_deadline) {
+    deadlines.push({ date: article.comment_deadline.slice(0, 10), description: 'Comment period closes' });
+  }
+
+  return deadlines
+    .filter((deadline) => deadline.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date))[0] || null;
+}
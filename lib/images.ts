@@ -1,4 +1,4 @@
-import { ArticleCategory } from '@/types/article';
+import { ArticleCategory, ArticleSubcategory } from '@/types/article';
 
 /**
  * Placeholder image mapping for article categories
@@ -17,15 +17,27 @@ const CATEGORY_PLACEHOLDER_IMAGES: Record<ArticleCategory | 'default', string[]>
   'default': ['/placeholders/default.jpg', '/placeholders/default.png', '/placeholders/default.svg'],
 };
 
+/**
+ * Placeholder images for sub-topics (tried before their category's)
+ */
+const SUBCATEGORY_PLACEHOLDER_IMAGES: Record<ArticleSubcategory, string[]> = {
+  'Nuclear': ['/placeholders/nuclear.jpg', '/placeholders/nuclear.svg'],
+  'Oil': ['/placeholders/oil.jpg', '/placeholders/oil.svg'],
+  'Hydrogen': ['/placeholders/hydrogen.jpg', '/placeholders/hydrogen.svg'],
+  'Grid Storage': ['/placeholders/grid-storage.jpg', '/placeholders/grid-storage.svg'],
+  'Critical Minerals': ['/placeholders/critical-minerals.jpg', '/placeholders/critical-minerals.svg'],
+};
+
 /**
  * Get the image URL for an article
  * 
  * Priority:
  * 1. article.image_url (scraped OpenGraph/Twitter image)
- * 2. Category-based placeholder
- * 3. Default placeholder
+ * 2. Source brand image
+ * 3. Sub-topic / category-based placeholder
+ * 4. Default placeholder
  * 
- * @param article - Article with optional image_url and category
+ * @param article - Article with optional image_url, category and subcategory
  * @returns Image URL string
  */
 const SOURCE_FALLBACK_IMAGES: Record<string, string> = {
@@ -38,6 +50,7 @@ const SOURCE_FALLBACK_IMAGES: Record<string, string> = {
 export function getArticleImage(article: {
   image_url?: string | null;
   category?: ArticleCategory | string;
+  subcategory?: ArticleSubcategory | string | null;
   source?: string | null;
 }): string {
   // Use scraped image_url if available
@@ -51,7 +64,7 @@ export function getArticleImage(article: {
   }
 
   // Use category-based placeholder
-  return getCategoryPlaceholders(article.category)[0];
+  return getCategoryPlaceholders(article.category, article.subcategory)[0];
 }
 
 /**
@@ -76,15 +89,25 @@ function isValidImageUrl(url: string): boolean {
 
 /**
  * Get ordered placeholder candidates for a category.
- * Returns category-specific placeholders first, then defaults.
+ * Returns sub-topic placeholders first, then category-specific ones, then defaults.
  */
-export function getCategoryPlaceholders(category?: ArticleCategory | string): string[] {
+export function getCategoryPlaceholders(
+  category?: ArticleCategory | string,
+  subcategory?: ArticleSubcategory | string | null
+): string[] {
   const normalizedCategory = category as ArticleCategory | undefined;
   const categoryCandidates = normalizedCategory
     ? CATEGORY_PLACEHOLDER_IMAGES[normalizedCategory]
     : undefined;
+  const subcategoryCandidates = subcategory
+    ? SUBCATEGORY_PLACEHOLDER_IMAGES[subcategory as ArticleSubcategory]
+    : undefined;
 
-  const merged = [...(categoryCandidates || []), ...CATEGORY_PLACEHOLDER_IMAGES.default];
+  const merged = [
+    ...(subcategoryCandidates || []),
+    ...(categoryCandidates || []),
+    ...CATEGORY_PLACEHOLDER_IMAGES.default,
+  ];
   return [...new Set(merged)];
 }
 
@@ -1,19 +1,48 @@
-import { getEnabledFeeds, getEnabledFeedsByType } from './feeds';
+import { getEnabledFeeds } from './feeds';
 import { fetchAllFeeds, getFetchStats, FetchFeedResult } from './fetchFeed';
+import { getFeedFetchStates, getValidatorsByName, saveFeedFetchStates } from './feedState';
+import { partitionFeedsByHealth } from './feedHealth';
 import { normalizeFeedItems, PartialArticle } from './normalizeFeedItem';
-import { insertArticles, getExistingArticleIds, getExistingArticleTitles, updateMissingImages, ArticleInsert } from './db';
-import { ArticleCategory, FeedSource } from '@/types/article';
-import { summarizeArticle, isOpenAIConfigured, getFallbackSummary } from './summarize';
+import {
+  insertArticles,
+  getExistingArticleIds,
+  getExistingCanonicalUrls,
+  getExistingArticleTitles,
+  getNearDuplicateCandidates,
+  updateMissingImages,
+  updateArticleSummary,
+  saveArticleCategories,
+  saveArticleEntities,
+  ArticleInsert,
+} from './db';
+import { getTitleKey, isNearDuplicate } from './fingerprint';
+import { assignArticlesToStories } from './stories';
+import { getActiveCategoryRuleset } from './categoryRules';
+import { ArticleCategory, CategoryRuleset, FeedSource } from '@/types/article';
+import { getFallbackSummary } from './summarize';
+import { runSummaryPool } from './summaryPool';
+import {
+  createSummaryBudget,
+  queueDeferredSummaries,
+  removeDeferredSummaries,
+  saveSummaryUsage,
+} from './summaryBudget';
+import { getLLMProvider, LLMProviderName } from './llm';
 
 // Check if we're in development mode
 const isDev = process.env.NODE_ENV !== 'production';
 
+// Summaries stop starting this long after the run began, leaving time to
+// insert before the ingest routes' 60s maxDuration
+const DEFAULT_SUMMARY_DEADLINE_MS = 40_000;
+
 /**
  * Per-source ingestion result
  */
 export interface SourceIngestionResult {
   source: string;
-  fetchStatus: 'success' | 'failed';
+  fetchStatus: 'success' | 'failed' | 'backoff'; // 'backoff' = skipped after repeated failures
+  notModified: boolean;             // HTTP 304 - feed unchanged since last run (success, 0 items)
   fetchError?: string;
   itemsFetched: number;
   itemsNormalized: number;
@@ -34,6 +63,8 @@ export interface IngestionStats {
   totalSources: number;
   successfulSources: number;
   failedSources: number;
+  notModifiedSources: number;       // Successful 304 responses (no new items)
+  backoffSources: number;           // Not fetched - failing feed in back-off / quarantine
   
   // Article stats
   totalItemsFetched: number;
@@ -41,16 +72,24 @@ export interface IngestionStats {
   totalItemsAttempted: number;
   totalItemsInserted: number;       // New rows inserted
   totalItemsDuplicates: number;     // Existing rows skipped (not an error)
+  totalItemsNearDuplicates: number; // Same story under a different ID (batch or last 7 days) - not inserted
   totalItemsSkipped: number;        // Skipped due to validation
   totalDbErrors: number;            // Actual database errors
   
   // AI summarization stats
   summarization: {
-    enabled: boolean;
+    enabled: boolean;          // An LLM API is configured (not extractive)
+    provider: LLMProviderName;
     attempted: number;
     successful: number;
+    structured: number;        // Successful with a structured summary
     failed: number;
     tokensUsed: number;
+    estimatedCostUsd: number;  // From the model's pricing (0 for extractive / free servers)
+    cacheHits: number;         // Served from the summary cache
+    deferred: number;          // Budget exhausted - fallback summary now, queued for /api/resummarize
+    timedOut: number;          // Not started before the summary deadline - queued as well
+    retries: number;           // Retried after a 429 / transient error
   };
   
   // Per-source breakdown
@@ -89,27 +128,41 @@ function validateArticle(article: PartialArticle): { valid: boolean; reason?: st
  * Convert PartialArticle to ArticleInsert with a summary
  * 
  * @param article - Partial article data
- * @param summary - AI-generated or fallback summary
+ * @param summary - Fallback summary (replaced once the AI summary is done)
  */
-function toArticleInsert(article: PartialArticle, summary: string): ArticleInsert {
+function toArticleInsert(
+  article: PartialArticle,
+  summary: string
+): ArticleInsert {
   return {
     id: article.id,
     title: article.title,
+    snippet: article.snippet ?? null,
     link: article.link,
+    canonical_url: article.canonical_url ?? null,
     pub_date: article.pub_date,
     source: article.source,
     category: article.category as ArticleCategory,
+    subcategory: article.subcategory ?? null,
+    category_rules_version: article.category_rules_version ?? null,
     summary,
+    structured_summary: null, // Set with the AI summary (updateArticleSummary)
     // Preserve the source article type so finance feeds are queryable
     article_type: article.article_type || 'policy',
     image_url: article.image_url ?? null,
+    minhash: article.minhash ?? null,
+    minhash_bands: article.minhash_bands ?? null,
+    docket_ids: article.docket_ids ?? [],
+    agency: article.agency ?? null,
+    document_type: article.document_type ?? null,
+    comment_deadline: article.comment_deadline ?? null,
   };
 }
 
 /**
  * Process a single feed result into validated partial articles
  */
-function processFeedResult(result: FetchFeedResult): {
+function processFeedResult(result: FetchFeedResult, ruleset: CategoryRuleset): {
   articles: PartialArticle[];
   skipped: number;
   skipReasons: string[];
@@ -122,7 +175,7 @@ function processFeedResult(result: FetchFeedResult): {
   }
 
   // Normalize raw items (passing articleType from feed source)
-  const normalized = normalizeFeedItems(result.items, result.source, result.articleType);
+  const normalized = normalizeFeedItems(result.items, result.source, result.articleType, ruleset);
   
   // Validate articles
   const articles: PartialArticle[] = [];
@@ -149,20 +202,37 @@ function devLog(message: string, data?: unknown) {
   }
 }
 
+/**
+ * Stop between phases once the caller gave up on the run (task timeout),
+ * so a run reported as timed out doesn't keep writing
+ */
+function throwIfAborted(signal: AbortSignal | undefined, nextPhase: string): void {
+  if (signal?.aborted) {
+    throw new Error(`Ingestion aborted before ${nextPhase}`);
+  }
+}
+
 /**
  * Run the full ingestion pipeline
  * 
- * 1. Fetch all enabled RSS feeds
+ * 1. Fetch all enabled RSS feeds (conditional GET using stored ETag / Last-Modified),
+ *    skipping feeds in back-off after repeated failures
  * 2. Normalize feed items to articles
  * 3. Validate required fields
  * 4. Check for existing articles (to avoid re-summarizing)
- * 5. Generate AI summaries for NEW articles only
- * 6. Insert into Supabase (with duplicate handling)
- * 7. Return detailed statistics
+ * 5. Insert into Supabase (with duplicate handling) with fallback summaries
+ * 6. Generate AI summaries for NEW articles only (worker pool, within the
+ *    summary budget and deadline - the rest is queued for /api/resummarize);
+ *    each one replaces the fallback summary as soon as it is done
+ * 7. Persist per-feed fetch state and health for the next run
+ * 8. Return detailed statistics
+ *
+ * options.signal stops the run between phases (and the summary pool
+ * from starting more articles) once aborted; the run then throws.
  */
 export async function runIngestion(
   feedsOverride?: FeedSource[],
-  options?: { maxItemsPerFeed?: number }
+  options?: { maxItemsPerFeed?: number; summaryDeadlineMs?: number; signal?: AbortSignal }
 ): Promise<IngestionStats> {
   const startedAt = new Date().toISOString();
   const startTime = Date.now();
@@ -170,11 +240,27 @@ export async function runIngestion(
   devLog('Starting ingestion run...');
 
   // Get enabled feeds
-  const feeds = feedsOverride ?? getEnabledFeeds();
+  const feeds = feedsOverride ?? await getEnabledFeeds();
   devLog(`Found ${feeds.length} enabled feeds`);
 
-  // Fetch all feeds in parallel
-  const fetchResults = await fetchAllFeeds(feeds);
+  // Load stored fetch state (validators + health)
+  const fetchStates = await getFeedFetchStates(feeds);
+
+  // Active categorization rules (version is stored on each article)
+  const ruleset = await getActiveCategoryRuleset();
+  devLog(`Using category ruleset ${ruleset.version}`);
+
+  // Skip feeds that are backing off after repeated failures
+  const { due: dueFeeds, skipped: backoffFeeds } = partitionFeedsByHealth(feeds, fetchStates);
+  if (backoffFeeds.length > 0) {
+    devLog(`Skipping ${backoffFeeds.length} feeds in back-off: ${backoffFeeds.map(b => b.feed.name).join(', ')}`);
+  }
+
+  // Stored validators let unchanged feeds answer 304
+  const validatorsByName = getValidatorsByName(dueFeeds, fetchStates);
+
+  // Fetch all due feeds in parallel
+  const fetchResults = await fetchAllFeeds(dueFeeds, validatorsByName);
   const maxItemsPerFeed = options?.maxItemsPerFeed;
   const limitedResults = (maxItemsPerFeed && maxItemsPerFeed > 0)
     ? fetchResults.map(result => ({
@@ -184,17 +270,32 @@ export async function runIngestion(
     : fetchResults;
   const fetchStats = getFetchStats(limitedResults);
   
-  devLog(`Fetch complete: ${fetchStats.successfulFeeds}/${fetchStats.totalFeeds} feeds, ${fetchStats.totalItems} items`);
+  devLog(`Fetch complete: ${fetchStats.successfulFeeds}/${fetchStats.totalFeeds} feeds (${fetchStats.notModifiedFeeds} not modified), ${fetchStats.totalItems} items`);
 
   // Process each feed result
   const perSource: SourceIngestionResult[] = [];
   const allPartialArticles: PartialArticle[] = [];
   const allErrors: string[] = [...fetchStats.errors];
 
+  for (const { feed, state } of backoffFeeds) {
+    perSource.push({
+      source: feed.name,
+      fetchStatus: 'backoff',
+      notModified: false,
+      fetchError: `In ${state.health_status} after ${state.consecutive_failures} failures (${state.last_error_class}) - next attempt ${state.next_attempt_at}`,
+      itemsFetched: 0,
+      itemsNormalized: 0,
+      itemsInserted: 0,
+      itemsSkipped: 0,
+      skipReasons: [],
+    });
+  }
+
   for (const result of limitedResults) {
     const sourceResult: SourceIngestionResult = {
       source: result.source,
       fetchStatus: result.error ? 'failed' : 'success',
+      notModified: !!result.notModified,
       fetchError: result.error || undefined,
       itemsFetched: result.items.length,
       itemsNormalized: 0,
@@ -209,7 +310,7 @@ export async function runIngestion(
     }
 
     // Process feed items
-    const { articles, skipped, skipReasons } = processFeedResult(result);
+    const { articles, skipped, skipReasons } = processFeedResult(result, ruleset);
     
     sourceResult.itemsNormalized = articles.length + skipped;
     sourceResult.itemsSkipped = skipped;
@@ -224,27 +325,59 @@ export async function runIngestion(
   devLog(`Processed ${allPartialArticles.length} articles`);
 
   // Summarization stats
+  const summaryProvider = getLLMProvider();
   const summarizationStats = {
-    enabled: isOpenAIConfigured(),
+    enabled: summaryProvider.remote,
+    provider: summaryProvider.name,
     attempted: 0,
     successful: 0,
+    structured: 0,
     failed: 0,
     tokensUsed: 0,
+    estimatedCostUsd: 0,
+    cacheHits: 0,
+    deferred: 0,
+    timedOut: 0,
+    retries: 0,
   };
 
+  throwIfAborted(options?.signal, 'deduplication');
+
   // ==========================================
-  // DEDUPLICATION: ID-based + Title-based
+  // DEDUPLICATION: ID-based + canonical URL + near-duplicate (title / MinHash)
   // ==========================================
   
-  // Step 1: Deduplicate within current batch by title (keep first occurrence)
-  const seenTitles = new Set<string>();
+  // Near-duplicates (same story, different ID) are counted, not inserted
+  const nearDuplicateIds = new Set<string>();
+
+  // Step 1: Deduplicate within current batch by ID (canonical URL) and
+  // near-duplicate fingerprint (keep first occurrence)
+  const seenIds = new Set<string>();
+  const batchByBand = new Map<string, PartialArticle[]>();
+  const batchByTitle = new Map<string, PartialArticle>();
   const batchDeduped = allPartialArticles.filter(article => {
-    const normalizedTitle = article.title.toLowerCase().trim();
-    if (seenTitles.has(normalizedTitle)) {
-      devLog(`Skipping duplicate title in batch: "${article.title.slice(0, 40)}..."`);
+    if (seenIds.has(article.id)) {
+      devLog(`Skipping duplicate URL in batch: ${article.canonical_url || article.link}`);
+      return false;
+    }
+    seenIds.add(article.id);
+
+    const titleKey = getTitleKey(article.title);
+    const bands = article.minhash_bands || [];
+    const duplicateOf = batchByTitle.get(titleKey) || bands
+      .flatMap(band => batchByBand.get(band) || [])
+      .find(kept => kept.minhash && article.minhash && isNearDuplicate(kept.minhash, article.minhash));
+
+    if (duplicateOf) {
+      devLog(`Skipping near-duplicate in batch: "${article.title.slice(0, 40)}..." ≈ "${duplicateOf.title.slice(0, 40)}..."`);
+      nearDuplicateIds.add(article.id);
       return false;
     }
-    seenTitles.add(normalizedTitle);
+
+    batchByTitle.set(titleKey, article);
+    for (const band of bands) {
+      batchByBand.set(band, [...(batchByBand.get(band) || []), article]);
+    }
     return true;
   });
   
@@ -252,86 +385,93 @@ export async function runIngestion(
     devLog(`Removed ${allPartialArticles.length - batchDeduped.length} duplicates within batch`);
   }
 
-  // Step 2: Check which article IDs already exist in database
-  const allIds = batchDeduped.map(a => a.id);
+  // Step 2: Check which article IDs already exist in database. Rows stored
+  // before IDs hashed the canonical URL are found by their legacy ID.
+  const allIds = batchDeduped.flatMap(a => a.legacy_id && a.legacy_id !== a.id ? [a.id, a.legacy_id] : [a.id]);
   const existingIds = await getExistingArticleIds(allIds);
-  const afterIdDedup = batchDeduped.filter(a => !existingIds.has(a.id));
+  const afterIdOnly = batchDeduped.filter(a => !existingIds.has(a.id) && !(a.legacy_id && existingIds.has(a.legacy_id)));
+
+  // Same canonical URL stored under another ID
+  const canonicalUrls = afterIdOnly
+    .map(a => a.canonical_url)
+    .filter((url): url is string => !!url);
+  const { data: existingCanonicalUrls, error: canonicalError } = await getExistingCanonicalUrls(canonicalUrls);
+  if (canonicalError) {
+    // Without it, stored articles would be inserted again under new IDs
+    throw new Error(`Canonical URL lookup failed: ${canonicalError}`);
+  }
+  const afterIdDedup = afterIdOnly.filter(a => !a.canonical_url || !existingCanonicalUrls.has(a.canonical_url));
+
+  // Stored under another ID - not inserted again
+  const afterIdDedupIds = new Set(afterIdDedup.map(a => a.id));
+  const storedUnderOtherIds = new Set(
+    batchDeduped
+      .filter(a => !existingIds.has(a.id) && !afterIdDedupIds.has(a.id))
+      .map(a => a.id)
+  );
   
-  devLog(`Found ${existingIds.size} existing IDs, ${afterIdDedup.length} remain after ID dedup`);
+  devLog(`Found ${existingIds.size} existing IDs and ${existingCanonicalUrls.size} existing canonical URLs, ${afterIdDedup.length} remain after ID dedup`);
 
   // Prepare image updates for existing articles that are missing image_url
   const imageUpdatesById = new Map<string, string>();
   for (const article of batchDeduped) {
-    if (existingIds.has(article.id) && article.image_url) {
-      imageUpdatesById.set(article.id, article.image_url);
+    const storedId = existingIds.has(article.id) ? article.id : article.legacy_id;
+    if (storedId && existingIds.has(storedId) && article.image_url) {
+      imageUpdatesById.set(storedId, article.image_url);
     }
   }
   const imageUpdates = Array.from(imageUpdatesById, ([id, image_url]) => ({ id, image_url }));
 
-  // Step 3: Check for duplicate titles in database (catches same article with different ID)
-  const remainingTitles = afterIdDedup.map(a => a.title);
-  const existingTitles = await getExistingArticleTitles(remainingTitles);
+  // Step 3: Check for near-duplicates in database (same story with a different ID):
+  // exact title matches, then recent articles sharing a MinHash LSH band
+  const { data: storedTitles, error: titlesError } = await getExistingArticleTitles(afterIdDedup.map(a => a.title));
+  if (titlesError) {
+    allErrors.push(`Title duplicate lookup failed: ${titlesError}`);
+  }
+  const existingTitleKeys = new Set(storedTitles.map(getTitleKey));
+  const { data: candidates, error: candidatesError } = await getNearDuplicateCandidates(
+    afterIdDedup.flatMap(a => a.minhash_bands || [])
+  );
+  if (candidatesError) {
+    allErrors.push(`Near-duplicate lookup failed: ${candidatesError}`);
+  }
+
   const newArticles = afterIdDedup.filter(article => {
-    const normalizedTitle = article.title.toLowerCase().trim();
-    if (existingTitles.has(normalizedTitle)) {
-      devLog(`Skipping article with existing title: "${article.title.slice(0, 40)}..."`);
+    const bands = new Set(article.minhash_bands || []);
+    const duplicateOf = existingTitleKeys.has(getTitleKey(article.title))
+      ? article.title
+      : candidates.find(candidate =>
+          candidate.minhash &&
+          article.minhash &&
+          (candidate.minhash_bands || []).some(band => bands.has(band)) &&
+          isNearDuplicate(candidate.minhash, article.minhash)
+        )?.title;
+
+    if (duplicateOf) {
+      devLog(`Skipping near-duplicate of existing article: "${article.title.slice(0, 40)}..." ≈ "${duplicateOf.slice(0, 40)}..."`);
+      nearDuplicateIds.add(article.id);
       return false;
     }
     return true;
   });
   
   if (newArticles.length < afterIdDedup.length) {
-    devLog(`Removed ${afterIdDedup.length - newArticles.length} articles with duplicate titles in database`);
+    devLog(`Removed ${afterIdDedup.length - newArticles.length} near-duplicates of articles in database`);
   }
   
   devLog(`Final count: ${newArticles.length} new unique articles to process`);
 
-  // Generate summaries for new articles
-  const summaryMap = new Map<string, string>();
-  
-  if (newArticles.length > 0 && summarizationStats.enabled) {
-    devLog(`Generating AI summaries for ${newArticles.length} new articles...`);
-    
-    for (const article of newArticles) {
-      summarizationStats.attempted++;
-      
-      const result = await summarizeArticle(article.title, undefined, article.source);
-      
-      if (result.success && result.summary) {
-        summaryMap.set(article.id, result.summary);
-        summarizationStats.successful++;
-        summarizationStats.tokensUsed += result.tokensUsed || 0;
-      } else {
-        // Use fallback summary on failure
-        summaryMap.set(article.id, getFallbackSummary(article.title));
-        summarizationStats.failed++;
-        if (result.error) {
-          allErrors.push(`Summarization failed for "${article.title.slice(0, 30)}...": ${result.error}`);
-        }
-      }
-      
-      // Small delay between API calls
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-    
-    devLog(`Summarization complete: ${summarizationStats.successful}/${summarizationStats.attempted} successful`);
-  } else if (newArticles.length > 0) {
-    devLog('OpenAI not configured, using fallback summaries');
-    for (const article of newArticles) {
-      summaryMap.set(article.id, getFallbackSummary(article.title));
-    }
-  }
-
-  // Convert to ArticleInsert with summaries
-  const allArticles: ArticleInsert[] = allPartialArticles.map(article => {
-    // Use AI summary if available, otherwise fallback
-    const summary = summaryMap.get(article.id) || getFallbackSummary(article.title);
-    return toArticleInsert(article, summary);
-  });
+  // Insert new articles with a fallback summary first, so each AI summary
+  // can be saved as soon as it is done (near-duplicates and articles
+  // stored under another ID are not inserted)
+  const allArticles: ArticleInsert[] = allPartialArticles
+    .filter(article => !nearDuplicateIds.has(article.id) && !storedUnderOtherIds.has(article.id))
+    .map(article => toArticleInsert(article, getFallbackSummary(article.title, article.snippet)));
 
   // Insert all articles into Supabase
+  throwIfAborted(options?.signal, 'inserting articles');
   let totalInserted = 0;
-  let totalDuplicates = 0;
+  let totalDuplicates = storedUnderOtherIds.size;
   let totalDbErrors = 0;
 
   if (allArticles.length > 0) {
@@ -340,7 +480,7 @@ export async function runIngestion(
     
     // If no errors but fewer inserted than attempted, rest are duplicates
     if (errors.length === 0) {
-      totalDuplicates = allArticles.length - inserted;
+      totalDuplicates += allArticles.length - inserted;
     } else {
       // Actual database errors occurred
       totalDbErrors = allArticles.length - inserted;
@@ -359,6 +499,130 @@ export async function runIngestion(
     }
   }
 
+  // Save all category labels and entity mentions (articles must exist first)
+  if (allArticles.length > 0 && totalDbErrors === 0) {
+    const attemptedIds = new Set(allArticles.map(a => a.id));
+    const { errors } = await saveArticleCategories(
+      allPartialArticles
+        .filter(a => attemptedIds.has(a.id) && a.categories?.length)
+        .map(a => ({ articleId: a.id, categories: a.categories || [] }))
+    );
+    allErrors.push(...errors);
+
+    const { saved: entitiesSaved, errors: entityErrors } = await saveArticleEntities(
+      allPartialArticles
+        .filter(a => attemptedIds.has(a.id) && a.entities?.length)
+        .map(a => ({ articleId: a.id, entities: a.entities || [] }))
+    );
+    allErrors.push(...entityErrors);
+    devLog(`Saved ${entitiesSaved} entity mentions`);
+  }
+
+  // Generate summaries for new articles. If the insert failed, they are
+  // not stored and the next run fetches them again, so nothing is summarized.
+  if (newArticles.length > 0 && totalDbErrors === 0) {
+    devLog(`Generating ${summaryProvider.name} summaries for ${newArticles.length} new articles...`);
+    const budget = await createSummaryBudget();
+
+    // Queue every new article up front; the checkpoint replaces the
+    // fallback summary and dequeues each article as soon as it is done, so
+    // a run killed mid-pool keeps its progress and /api/resummarize
+    // finishes the rest
+    const { error: pendingError } = await queueDeferredSummaries(
+      newArticles.map(article => article.id),
+      'summary pending'
+    );
+    if (pendingError) {
+      allErrors.push(`Queueing pending summaries failed: ${pendingError}`);
+    }
+
+    const pool = await runSummaryPool(
+      newArticles.map(article => ({
+        id: article.id,
+        title: article.title,
+        content: article.snippet,
+        source: article.source,
+        publishedAt: article.pub_date,
+      })),
+      {
+        budget,
+        deadline: startTime + (options?.summaryDeadlineMs ?? DEFAULT_SUMMARY_DEADLINE_MS),
+        signal: options?.signal,
+        checkpoint: async (job, result) => {
+          summarizationStats.attempted++;
+
+          if (result.success && result.summary) {
+            const { error: updateError } = await updateArticleSummary(job.id, result.summary, result.structured ?? null);
+            if (updateError) {
+              // Stays queued for /api/resummarize
+              summarizationStats.failed++;
+              allErrors.push(`Saving summary failed for "${job.title.slice(0, 30)}...": ${updateError}`);
+              return;
+            }
+            summarizationStats.successful++;
+            if (result.structured) {
+              summarizationStats.structured++;
+            }
+          } else {
+            // Failed articles keep their fallback summary
+            summarizationStats.failed++;
+            if (result.error && summaryProvider.remote) {
+              allErrors.push(`Summarization failed for "${job.title.slice(0, 30)}...": ${result.error}`);
+            }
+          }
+
+          const { error: removeError } = await removeDeferredSummaries([job.id]);
+          if (removeError) {
+            allErrors.push(`Dequeueing summary failed for "${job.title.slice(0, 30)}...": ${removeError}`);
+          }
+        },
+      }
+    );
+    summarizationStats.tokensUsed = pool.tokensUsed;
+    summarizationStats.estimatedCostUsd = pool.costUsd;
+    summarizationStats.cacheHits = pool.cacheHits;
+    summarizationStats.retries = pool.retries;
+    summarizationStats.deferred = pool.deferred.length;
+    summarizationStats.timedOut = pool.unfinished.length;
+
+    const { error: usageError } = await saveSummaryUsage(budget);
+    if (usageError) {
+      allErrors.push(`Saving LLM usage failed: ${usageError}`);
+    }
+
+    // Articles the pool didn't start stay queued, with the reason why
+    const queueResults = await Promise.all([
+      queueDeferredSummaries(pool.deferred, budget.exhausted || 'budget exhausted'),
+      queueDeferredSummaries(pool.unfinished, 'summary deadline reached'),
+    ]);
+    for (const { error: queueError } of queueResults) {
+      if (queueError) {
+        allErrors.push(`Queueing deferred summaries failed: ${queueError}`);
+      }
+    }
+
+    devLog(`Summarization complete: ${summarizationStats.successful}/${summarizationStats.attempted} successful, ${summarizationStats.cacheHits} cached, $${summarizationStats.estimatedCostUsd.toFixed(4)}`);
+    if (budget.exhausted) {
+      devLog(`Summary budget exhausted (${budget.exhausted}): ${pool.deferred.length} articles deferred`);
+    }
+    if (pool.unfinished.length > 0) {
+      devLog(`Summary deadline reached: ${pool.unfinished.length} articles queued for /api/resummarize`);
+    }
+  }
+
+  // Articles not summarized yet stay queued for /api/resummarize
+  throwIfAborted(options?.signal, 'story clustering');
+
+  // Group new articles with other coverage of the same event
+  if (totalInserted > 0) {
+    const { assigned, created, error: storyError } = await assignArticlesToStories(allArticles.map(a => a.id));
+    if (storyError) {
+      allErrors.push(`Story clustering failed: ${storyError}`);
+    } else {
+      devLog(`Clustered ${assigned} articles into stories (${created} new stories)`);
+    }
+  }
+
   if (imageUpdates.length > 0) {
     const { updated, errors } = await updateMissingImages(imageUpdates);
     if (updated > 0) {
@@ -369,6 +633,15 @@ export async function runIngestion(
     }
   }
 
+  // Persist fetch state. If inserting failed, keep the previous validators
+  // so the next run downloads the full feeds again instead of getting 304s.
+  const { error: fetchStateError } = await saveFeedFetchStates(fetchResults, fetchStates, {
+    persistValidators: totalDbErrors === 0,
+  });
+  if (fetchStateError) {
+    allErrors.push(`Failed to save feed fetch state: ${fetchStateError}`);
+  }
+
   const completedAt = new Date().toISOString();
   const durationMs = Date.now() - startTime;
 
@@ -385,12 +658,15 @@ export async function runIngestion(
     totalSources: feeds.length,
     successfulSources: fetchStats.successfulFeeds,
     failedSources: fetchStats.failedFeeds,
+    notModifiedSources: fetchStats.notModifiedFeeds,
+    backoffSources: backoffFeeds.length,
     
     totalItemsFetched,
     totalItemsNormalized,
     totalItemsAttempted: allArticles.length,
     totalItemsInserted: totalInserted,
     totalItemsDuplicates: totalDuplicates,
+    totalItemsNearDuplicates: nearDuplicateIds.size,
     totalItemsSkipped,
     totalDbErrors,
     
@@ -418,22 +694,27 @@ export function printIngestionSummary(stats: IngestionStats): void {
   console.log(`Started: ${stats.startedAt}`);
   console.log(`Duration: ${stats.durationMs}ms`);
   console.log('-'.repeat(80));
-  console.log(`Sources: ${stats.successfulSources}/${stats.totalSources} successful`);
+  console.log(`Sources: ${stats.successfulSources}/${stats.totalSources} successful (${stats.notModifiedSources} not modified, ${stats.backoffSources} in back-off)`);
   console.log(`Items Fetched: ${stats.totalItemsFetched}`);
   console.log(`Items Normalized: ${stats.totalItemsNormalized}`);
   console.log(`Items Attempted: ${stats.totalItemsAttempted}`);
   console.log(`Items Inserted: ${stats.totalItemsInserted} (new)`);
   console.log(`Items Duplicates: ${stats.totalItemsDuplicates} (already existed)`);
+  console.log(`Items Near-Duplicates: ${stats.totalItemsNearDuplicates} (same story, not inserted)`);
   console.log(`Items Skipped: ${stats.totalItemsSkipped} (validation)`);
   console.log(`DB Errors: ${stats.totalDbErrors}`);
   console.log('-'.repeat(80));
   console.log('AI SUMMARIZATION:');
   console.log('-'.repeat(80));
-  console.log(`Enabled: ${stats.summarization.enabled ? 'Yes' : 'No'}`);
+  console.log(`Enabled: ${stats.summarization.enabled ? 'Yes' : 'No'} (${stats.summarization.provider})`);
   console.log(`Attempted: ${stats.summarization.attempted}`);
-  console.log(`Successful: ${stats.summarization.successful}`);
+  console.log(`Successful: ${stats.summarization.successful} (${stats.summarization.structured} structured)`);
   console.log(`Failed: ${stats.summarization.failed}`);
   console.log(`Tokens Used: ${stats.summarization.tokensUsed}`);
+  console.log(`Estimated Cost: $${stats.summarization.estimatedCostUsd.toFixed(4)}`);
+  console.log(`Cache Hits: ${stats.summarization.cacheHits}`);
+  console.log(`Deferred: ${stats.summarization.deferred} (budget), ${stats.summarization.timedOut} (deadline)`);
+  console.log(`Retries: ${stats.summarization.retries}`);
   console.log('-'.repeat(80));
   console.log('PER-SOURCE BREAKDOWN:');
   console.log('-'.repeat(80));
@@ -441,7 +722,11 @@ export function printIngestionSummary(stats: IngestionStats): void {
   console.log('-'.repeat(80));
   
   for (const source of stats.perSource) {
-    const status = source.fetchStatus === 'success' ? '✅' : '❌';
+    const status = source.fetchStatus === 'failed'
+      ? '❌'
+      : source.fetchStatus === 'backoff'
+        ? '⏸️'
+        : source.notModified ? '✅ 304' : '✅';
     console.log(
       source.source.padEnd(25) +
       status.padEnd(10) +
@@ -0,0 +1,253 @@
+/**
+ * Ingestion Job Tasks
+ *
+ * Shared task-graph definitions (lib/taskGraph.ts) for the ingest routes:
+ * the per-market routes (/api/ingest-qatar, /api/ingest-mozambique,
+ * /api/ingest-finance) all run
+ *
+ *   load-feeds -> ingestion -> archive ------------> revalidate
+ *                          \-> enrich-images (opt) -/
+ *
+ * and the orchestrator builds its graph from the same steps. Every run is
+ * recorded with its per-task status (lib/jobRuns.ts).
+ */
+
+import { revalidatePath } from 'next/cache';
+import { runIngestion, IngestionStats } from './ingest';
+import { archiveOldFinanceArticles, getSupabase } from './db';
+import { scrapeArticleImage } from './scrapeImage';
+import { recordJobRun } from './jobRuns';
+import { runTaskGraph, TaskDefinition, TaskGraphOptions, TaskGraphResult } from './taskGraph';
+import { FeedSource } from '@/types/article';
+
+export const KEEP_ACTIVE_FINANCE_ARTICLES = 6;
+
+/**
+ * State shared by the tasks of an ingest job
+ */
+export interface IngestJobContext {
+  feeds: FeedSource[] | null;  // null = all enabled feeds
+  stats: IngestionStats | null;
+  archived: number;
+  imagesEnriched: number;
+}
+
+/**
+ * Options of a per-market ingest job
+ */
+export interface MarketIngestJobOptions {
+  logTag: string;                                // e.g., '/api/ingest-qatar'
+  loadFeeds: () => Promise<FeedSource[]>;
+  maxItemsPerFeed?: number;
+  archiveSources: (feeds: FeedSource[]) => string[];
+  imageEnrichmentLimit?: number;                 // Enrich images of the job's sources
+}
+
+/**
+ * Empty context of an ingest job
+ */
+export function createIngestJobContext(): IngestJobContext {
+  return { feeds: null, stats: null, archived: 0, imagesEnriched: 0 };
+}
+
+/**
+ * Scrape cover images for recent articles without one
+ *
+ * @param options - Limit, optional source filter, delay between pages and
+ *   abort signal (stops between articles)
+ * @returns Number of articles updated
+ */
+export async function enrichMissingImages(options: {
+  limit: number;
+  sources?: string[];
+  delayMs?: number;
+  signal?: AbortSignal;
+  logTag: string;
+}): Promise<number> {
+  const { limit, sources, delayMs = 250, signal, logTag } = options;
+  const supabase = getSupabase();
+
+  let query = supabase
+    .from('articles')
+    .select('id, link, source')
+    .is('image_url', null)
+    .order('pub_date', { ascending: false })
+    .limit(limit);
+  if (sources) {
+    query = query.in('source', sources);
+  }
+
+  const { data: articles, error } = await query;
+  if (error) {
+    throw new Error(`Image enrichment query failed: ${error.message}`);
+  }
+
+  let updated = 0;
+  for (const article of articles || []) {
+    if (signal?.aborted) break;
+
+    const scrapeResult = await scrapeArticleImage(article.link);
+    if (scrapeResult.success && scrapeResult.imageUrl) {
+      const { error: updateError } = await supabase
+        .from('articles')
+        .update({
+          image_url: scrapeResult.imageUrl,
+          ...(scrapeResult.canonicalUrl && { canonical_url: scrapeResult.canonicalUrl }),
+        })
+        .eq('id', article.id);
+
+      if (updateError) {
+        console.warn(`[${logTag}] Image update warning for ${article.id}:`, updateError.message);
+      } else {
+        updated++;
+      }
+    }
+
+    // small delay to be polite
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+
+  return updated;
+}
+
+/**
+ * Revalidate the pages showing articles
+ */
+export async function revalidateArticlePages(paths: string[] = ['/', '/finance']): Promise<void> {
+  for (const path of paths) {
+    revalidatePath(path);
+  }
+}
+
+/**
+ * Ingestion task (stats go to the context)
+ */
+export function createIngestionTask(
+  options: { dependsOn?: string[]; maxItemsPerFeed?: number; summaryDeadlineMs?: number; timeoutMs: number }
+): TaskDefinition<IngestJobContext> {
+  return {
+    name: 'ingestion',
+    dependsOn: options.dependsOn,
+    timeoutMs: options.timeoutMs,
+    async run(context, { signal }) {
+      // The signal stops the run between phases once the task times out
+      context.stats = await runIngestion(context.feeds ?? undefined, {
+        maxItemsPerFeed: options.maxItemsPerFeed,
+        summaryDeadlineMs: options.summaryDeadlineMs,
+        signal,
+      });
+    },
+  };
+}
+
+/**
+ * Tasks of a per-market ingest job
+ */
+export function createMarketIngestTasks(options: MarketIngestJobOptions): TaskDefinition<IngestJobContext>[] {
+  const { logTag, imageEnrichmentLimit } = options;
+
+  const tasks: TaskDefinition<IngestJobContext>[] = [
+    {
+      name: 'load-feeds',
+      timeoutMs: 10_000,
+      retries: 1,
+      async run(context) {
+        context.feeds = await options.loadFeeds();
+      },
+    },
+    // Summaries stop early enough for the insert to finish within the
+    // routes' job deadline
+    createIngestionTask({
+      dependsOn: ['load-feeds'],
+      maxItemsPerFeed: options.maxItemsPerFeed,
+      summaryDeadlineMs: 25_000,
+      timeoutMs: 35_000,
+    }),
+    {
+      name: 'archive',
+      dependsOn: ['ingestion'],
+      timeoutMs: 10_000,
+      retries: 1,
+      async run(context) {
+        // Keep only the most recent articles of these sources active
+        const { archived, error } = await archiveOldFinanceArticles(
+          options.archiveSources(context.feeds || []),
+          KEEP_ACTIVE_FINANCE_ARTICLES
+        );
+        context.archived = archived;
+        if (error) {
+          throw new Error(`Archive failed: ${error}`);
+        }
+        if (archived > 0) {
+          console.log(`[${logTag}] Archived ${archived} older articles`);
+        }
+      },
+    },
+  ];
+
+  if (imageEnrichmentLimit) {
+    tasks.push({
+      name: 'enrich-images',
+      dependsOn: ['ingestion'],
+      runOnFailure: true, // Existing articles may still lack images
+      timeoutMs: 20_000,
+      async run(context, { signal }) {
+        context.imagesEnriched = await enrichMissingImages({
+          limit: imageEnrichmentLimit,
+          sources: options.archiveSources(context.feeds || []),
+          delayMs: 200,
+          signal,
+          logTag,
+        });
+        console.log(`[${logTag}] Enriched ${context.imagesEnriched} article images`);
+      },
+    });
+  }
+
+  tasks.push({
+    name: 'revalidate',
+    dependsOn: tasks.map((task) => task.name),
+    runOnFailure: true, // Show whatever was inserted
+    async run() {
+      await revalidateArticlePages();
+    },
+  });
+
+  return tasks;
+}
+
+/**
+ * Run an ingest job's task graph and record the run
+ *
+ * @param jobName - Job name in job_runs / job_run_events
+ * @param tasks - Task definitions
+ * @param context - Shared state
+ * @param host - Request host
+ * @param ranAt - When the job was triggered
+ * @param options - Job deadline (keep it short of the route's maxDuration,
+ *   so timed-out tasks can wind down and the run still gets recorded)
+ */
+export async function runIngestJob(
+  jobName: string,
+  tasks: TaskDefinition<IngestJobContext>[],
+  context: IngestJobContext,
+  host: string | null,
+  ranAt: string = new Date().toISOString(),
+  options: TaskGraphOptions = {}
+): Promise<TaskGraphResult> {
+  const result = await runTaskGraph(jobName, tasks, context, options);
+
+  await recordJobRun({
+    job_name: jobName,
+    ran_at: ranAt,
+    status: result.status,
+    duration_ms: result.durationMs,
+    articles_inserted: context.stats?.totalItemsInserted ?? 0,
+    articles_updated: context.stats?.totalItemsDuplicates ?? 0,
+    images_enriched: context.imagesEnriched,
+    error_message: result.error,
+    host,
+  }, { stats: context.stats, tasks: result.tasks });
+
+  return result;
+}
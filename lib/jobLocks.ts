@@ -0,0 +1,112 @@
+/**
+ * Job Locks
+ *
+ * cron-job.org, Vercel cron and manual triggers can start the same job at
+ * once; overlapping ingestion runs summarize the same new articles twice
+ * before the upsert drops the duplicates. Each job takes a lease in the
+ * `job_locks` table first:
+ *
+ * - acquire_job_lock() (migrations/022_add_job_locks.sql) inserts the lease,
+ *   or takes over one whose expiry has passed - atomically, in one statement
+ * - a second caller gets the current holder back (routes answer 409)
+ * - the lease is released when the job ends; if the function is killed
+ *   before that, the lease expires and the next run reclaims it
+ *
+ * Leases should outlast the route's maxDuration. If the lock table can't be
+ * reached, jobs run unlocked (logged) rather than not at all.
+ */
+
+import { randomUUID } from 'crypto';
+import { getSupabase } from './db';
+
+/**
+ * Row of the job_locks table
+ */
+export interface JobLockRow {
+  lock_name: string;
+  holder_id: string;
+  acquired_at: string;
+  expires_at: string;
+  host: string | null;
+}
+
+/**
+ * A held lease
+ */
+export interface JobLock {
+  name: string;
+  holderId: string;
+  release(): Promise<{ error: string | null }>;
+}
+
+/**
+ * Try to take a job's lease
+ *
+ * @param name - Lock name (jobs sharing work share a name, e.g., 'ingest')
+ * @param options - Lease duration and host (shown to other callers)
+ * @returns lock when acquired; holder when someone else holds it;
+ *   neither (with error) when the lock table is unavailable
+ */
+export async function acquireJobLock(
+  name: string,
+  options: { leaseMs: number; host?: string | null }
+): Promise<{ lock: JobLock | null; holder: JobLockRow | null; error: string | null }> {
+  const holderId = randomUUID();
+
+  try {
+    const { data, error } = await getSupabase().rpc('acquire_job_lock', {
+      p_lock_name: name,
+      p_holder_id: holderId,
+      p_lease_seconds: Math.ceil(options.leaseMs / 1000),
+      p_host: options.host ?? null,
+    });
+
+    if (error) {
+      console.error(`[jobLocks] Error acquiring ${name}, running unlocked:`, error.message);
+      return { lock: null, holder: null, error: error.message };
+    }
+
+    const holder = ((data as JobLockRow[] | null) || [])[0] || null;
+    if (!holder) {
+      return { lock: null, holder: null, error: 'Lock row missing after acquire' };
+    }
+    if (holder.holder_id !== holderId) {
+      console.log(`[jobLocks] ${name} is held since ${holder.acquired_at} (expires ${holder.expires_at})`);
+      return { lock: null, holder, error: null };
+    }
+
+    return {
+      lock: { name, holderId, release: () => releaseJobLock(name, holderId) },
+      holder,
+      error: null,
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error(`[jobLocks] Error acquiring ${name}, running unlocked:`, message);
+    return { lock: null, holder: null, error: message };
+  }
+}
+
+/**
+ * Release a lease (only if still held by this holder - a reclaimed lease
+ * belongs to the next run)
+ */
+export async function releaseJobLock(name: string, holderId: string): Promise<{ error: string | null }> {
+  try {
+    const { error } = await getSupabase()
+      .from('job_locks')
+      .delete()
+      .eq('lock_name', name)
+      .eq('holder_id', holderId);
+
+    if (error) {
+      console.error(`[jobLocks] Error releasing ${name}:`, error.message);
+      return { error: error.message };
+    }
+    return { error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error(`[jobLocks] Error releasing ${name}:`, message);
+    return { error: message };
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Job Run History
+ *
+ * Every cron job run is recorded twice:
+ * - `job_runs`: one row per job, overwritten each run - the "latest" pointer
+ *   read by /api/job-status
+ * - `job_run_events`: append-only, one row per run with the full
+ *   IngestionStats (per-source breakdown, errors, summarization stats) and
+ *   per-task timings - listed by /api/job-runs
+ */
+
+import { getSupabase } from './db';
+import type { IngestionStats } from './ingest';
+
+// partial = some tasks of the job failed (see lib/taskGraph.ts)
+export type JobRunStatus = 'success' | 'partial' | 'error';
+
+/**
+ * Outcome of one task of a job
+ */
+export interface JobTaskTiming {
+  name: string;
+  status: 'success' | 'error' | 'timeout' | 'skipped';
+  durationMs: number;
+  attempts?: number;
+  error?: string | null;
+}
+
+/**
+ * Latest run of a job (job_runs row)
+ */
+export interface JobRunRecord {
+  job_name: string;
+  ran_at: string;
+  status: JobRunStatus;
+  duration_ms: number;
+  articles_inserted: number;
+  articles_updated: number;
+  images_enriched: number;
+  error_message: string | null;
+  host: string | null;
+}
+
+/**
+ * One run in the history (job_run_events row)
+ */
+export interface JobRunEventRow extends JobRunRecord {
+  id: number;
+  stats: IngestionStats | null;
+  tasks: JobTaskTiming[];
+  created_at: string;
+}
+
+/**
+ * Filters and page of the run history
+ */
+export interface JobRunEventQuery {
+  jobName?: string;
+  status?: JobRunStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export const JOB_RUN_STATUSES: JobRunStatus[] = ['success', 'partial', 'error'];
+
+/**
+ * Overwrite the job's latest-run row in job_runs
+ */
+async function updateLatestJobRun(record: JobRunRecord): Promise<{ error: string | null }> {
+  const supabase = getSupabase();
+
+  // Use update instead of upsert to bypass potential RLS issues
+  const { data: updateData, error: updateError } = await supabase
+    .from('job_runs')
+    .update({ ...record, updated_at: new Date().toISOString() })
+    .eq('job_name', record.job_name)
+    .select();
+
+  if (updateError) {
+    console.error('[jobRuns] Update error:', updateError.message);
+  }
+  if (!updateError && updateData && updateData.length > 0) {
+    return { error: null };
+  }
+
+  // No row yet (or the update failed) - insert it
+  const { error: insertError } = await supabase.from('job_runs').insert(record);
+  if (insertError) {
+    console.error('[jobRuns] Insert error:', insertError.message);
+    return { error: insertError.message };
+  }
+  return { error: null };
+}
+
+/**
+ * Record a job run: update the latest pointer and append to the history
+ *
+ * @param record - Run summary
+ * @param details - Full ingestion stats and per-task timings (optional)
+ */
+export async function recordJobRun(
+  record: JobRunRecord,
+  details: { stats?: IngestionStats | null; tasks?: JobTaskTiming[] } = {}
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const [{ error: latestError }, { error: eventError }] = await Promise.all([
+      updateLatestJobRun(record),
+      getSupabase()
+        .from('job_run_events')
+        .insert({ ...record, stats: details.stats ?? null, tasks: details.tasks ?? [] }),
+    ]);
+
+    if (eventError) {
+      console.error('[jobRuns] Event insert error:', eventError.message);
+    }
+    const error = latestError || eventError?.message;
+    if (error) {
+      return { success: false, error };
+    }
+
+    console.log(`[jobRuns] Recorded ${record.job_name} run (${record.status})`);
+    return { success: true };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[jobRuns] Exception:', msg);
+    return { success: false, error: msg };
+  }
+}
+
+/**
+ * List recorded runs, newest first
+ *
+ * @param query - Job name / status filters, limit and offset
+ * @returns Runs of the page and the total matching the filters
+ */
+export async function getJobRunEvents(
+  query: JobRunEventQuery = {}
+): Promise<{ data: JobRunEventRow[]; total: number; error: string | null }> {
+  const { jobName, status, limit = 20, offset = 0 } = query;
+
+  let request = getSupabase()
+    .from('job_run_events')
+    .select('*', { count: 'exact' })
+    .order('ran_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (jobName) {
+    request = request.eq('job_name', jobName);
+  }
+  if (status) {
+    request = request.eq('status', status);
+  }
+
+  const { data, count, error } = await request;
+  if (error) {
+    return { data: [], total: 0, error: error.message };
+  }
+  return { data: (data as JobRunEventRow[]) || [], total: count ?? 0, error: null };
+}
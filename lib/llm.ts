@@ -0,0 +1,538 @@
+/**
+ * LLM Provider Layer
+ *
+ * Article summaries (lib/summarize.ts) and the finance market briefing
+ * (/api/finance/market-summary) go through one provider:
+ * - openai: OpenAI API (OPENAI_API_KEY, OPENAI_MODEL)
+ * - openai-compatible: any server speaking the OpenAI chat API, e.g. a local
+ *   model server (LLM_BASE_URL, optional LLM_API_KEY)
+ * - extractive: deterministic sentence ranking (lib/extractive.ts), no
+ *   network, no tokens - used when no API is configured
+ *
+ * Selection: LLM_PROVIDER if set, else openai-compatible when LLM_BASE_URL is
+ * set, else openai when OPENAI_API_KEY is set, else extractive.
+ * LLM_MODEL overrides the model of either API provider.
+ *
+ * Cost estimates use MODEL_PRICING for OpenAI models; OpenAI-compatible
+ * servers are free unless LLM_COST_PER_1M_INPUT / LLM_COST_PER_1M_OUTPUT
+ * (USD per million tokens) are set, which also override the table.
+ *
+ * The SDK's own retries are disabled: API results carry the rate-limit
+ * headers and a retry hint, and lib/summaryPool.ts backs off across all of
+ * its workers instead of each request retrying on its own.
+ */
+
+import OpenAI from 'openai';
+import { extractiveProvider } from './extractive';
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'extractive';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'openai-compatible', 'extractive'];
+
+/**
+ * Article to summarize
+ */
+export interface SummaryRequest {
+  title: string;
+  content?: string | null; // Feed snippet / description
+  source?: string;
+  publishedAt?: string;     // ISO date, resolves dates without a year
+}
+
+/**
+ * Article used as input for the market briefing
+ */
+export interface BriefingArticle {
+  title: string;
+  summary: string | null;
+  source: string;
+}
+
+/**
+ * One item of the market briefing
+ */
+export interface BriefingItem {
+  headline: string;
+  summary: string;
+}
+
+/**
+ * Result of a provider call
+ */
+export interface LLMResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  tokensUsed: number;
+  costUsd?: number; // Estimated from the model's pricing (absent = free)
+  rateLimit?: RateLimitInfo;  // From the response headers (API providers only)
+  rateLimited?: boolean;      // HTTP 429
+  retryable?: boolean;        // 429, 5xx or connection error - worth another attempt
+  retryAfterMs?: number;      // Server hint for the next attempt
+}
+
+/**
+ * Rate-limit state from the x-ratelimit-* response headers (null = not sent)
+ */
+export interface RateLimitInfo {
+  remainingRequests: number | null;
+  remainingTokens: number | null;
+  resetRequestsMs: number | null; // Until the request limit resets
+  resetTokensMs: number | null;   // Until the token limit resets
+}
+
+/**
+ * Model pricing in USD per million tokens
+ */
+export interface ModelPricing {
+  inputPer1M: number;
+  outputPer1M: number;
+}
+
+/**
+ * Pricing of OpenAI models (USD per million tokens), matched by prefix so
+ * dated snapshots ('gpt-4o-mini-2024-07-18') resolve to their family
+ */
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o-mini': { inputPer1M: 0.15, outputPer1M: 0.6 },
+  'gpt-4o': { inputPer1M: 2.5, outputPer1M: 10 },
+  'gpt-4.1-nano': { inputPer1M: 0.1, outputPer1M: 0.4 },
+  'gpt-4.1-mini': { inputPer1M: 0.4, outputPer1M: 1.6 },
+  'gpt-4.1': { inputPer1M: 2, outputPer1M: 8 },
+  'gpt-4-turbo': { inputPer1M: 10, outputPer1M: 30 },
+  'gpt-3.5-turbo': { inputPer1M: 0.5, outputPer1M: 1.5 },
+};
+
+/**
+ * Expected usage of a call
+ */
+export interface UsageEstimate {
+  tokens: number;
+  costUsd: number;
+}
+
+const SUMMARY_MAX_TOKENS = 200;
+const STRUCTURED_SUMMARY_MAX_TOKENS = 600;
+const CHARS_PER_TOKEN = 4; // Rough average for English text
+
+// Unknown OpenAI models are priced like gpt-4o, so budgets err on the safe side
+const DEFAULT_OPENAI_PRICING = MODEL_PRICING['gpt-4o'];
+const FREE_PRICING: ModelPricing = { inputPer1M: 0, outputPer1M: 0 };
+
+/**
+ * A summarization backend
+ */
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  remote: boolean; // Calls an API (costs tokens, can be rate limited)
+  pricing: ModelPricing;
+  // Upper bound of a summary call (max completion tokens), checked against budgets
+  estimateSummary(request: SummaryRequest, structured: boolean): UsageEstimate;
+  summarize(request: SummaryRequest): Promise<LLMResult<string>>;
+  // Raw JSON object in the STRUCTURED_SUMMARY_SCHEMA shape, validated by the caller
+  summarizeStructured(request: SummaryRequest): Promise<LLMResult<unknown>>;
+  briefing(articles: BriefingArticle[], count: number): Promise<LLMResult<BriefingItem[]>>;
+}
+
+/**
+ * System prompt for energy policy summarization
+ */
+const SUMMARY_SYSTEM_PROMPT = `You are an expert energy policy analyst. Your task is to summarize news articles about U.S. energy policy for busy professionals in the energy sector.
+
+Guidelines:
+- Write exactly 2-3 concise sentences
+- Focus on key policy changes, regulatory impacts, or market implications
+- Highlight compliance requirements or deadlines when mentioned
+- Note any implications for energy security or grid reliability
+- Use professional, objective language
+- Do NOT include phrases like "This article discusses" or "The summary is"
+- Start directly with the key information
+
+Your audience includes:
+- Energy company executives
+- Regulatory compliance officers
+- Policy analysts
+- Grid operators`;
+
+/**
+ * JSON schema of a structured summary (StructuredSummary in types/article.ts)
+ */
+export const STRUCTURED_SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: '2-3 sentence summary' },
+    keyPoints: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Up to 5 short bullet points',
+    },
+    organizations: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Companies, agencies, utilities and grid operators mentioned',
+    },
+    deadlines: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', description: 'YYYY-MM-DD' },
+          description: { type: 'string', description: 'What is due or happens on this date' },
+        },
+        required: ['date', 'description'],
+        additionalProperties: false,
+      },
+    },
+    sentiment: { type: 'string', enum: ['bullish', 'bearish', 'neutral'] },
+  },
+  required: ['summary', 'keyPoints', 'organizations', 'deadlines', 'sentiment'],
+  additionalProperties: false,
+} as const;
+
+/**
+ * Extra instructions for structured summaries
+ */
+const STRUCTURED_SUMMARY_INSTRUCTIONS = `
+
+Respond with a JSON object:
+- summary: the 2-3 sentence summary
+- keyPoints: up to 5 short bullet points (compliance requirements, figures, next steps)
+- organizations: companies, agencies, utilities and grid operators mentioned
+- deadlines: dates or deadlines mentioned, as {"date": "YYYY-MM-DD", "description": "..."}; empty if none
+- sentiment: "bullish", "bearish" or "neutral" for energy markets`;
+
+/**
+ * System prompt for the market briefing
+ */
+function briefingSystemPrompt(count: number): string {
+  return `You are a senior energy markets analyst creating a daily market briefing.
+Generate exactly ${count} market summary items based on the provided recent news articles.
+
+Each summary should:
+- Have a short, impactful headline (max 60 characters)
+- Include a 2-sentence summary focusing on market implications
+- Cover different aspects: oil/gas prices, renewables, policy, commodities, stocks, infrastructure
+
+Format your response as valid JSON array:
+[
+  {"headline": "...", "summary": "..."},
+  ...
+]
+
+Only output the JSON array, no other text.`;
+}
+
+/**
+ * Provider backed by the OpenAI chat completions API
+ *
+ * @param name - 'openai' or 'openai-compatible'
+ * @param client - OpenAI SDK client (with baseURL for compatible servers)
+ * @param model - Model name
+ */
+function createChatProvider(name: LLMProviderName, client: OpenAI, model: string): LLMProvider {
+  const pricing = getModelPricing(name, model);
+
+  // Transient failure: retry hints for the caller
+  function failure(error: unknown): LLMResult<string> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (!(error instanceof OpenAI.APIError)) {
+      return { success: false, error: message, tokensUsed: 0 };
+    }
+
+    const headers = error.headers || {};
+    const getHeader = (header: string) => headers[header];
+    const status = error.status;
+    return {
+      success: false,
+      error: message,
+      tokensUsed: 0,
+      rateLimit: parseRateLimitHeaders(getHeader),
+      rateLimited: status === 429,
+      retryable: status === undefined || status === 429 || status >= 500,
+      retryAfterMs: getRetryAfterMs(getHeader) ?? undefined,
+    };
+  }
+
+  async function complete(
+    system: string,
+    user: string,
+    maxTokens: number,
+    temperature: number,
+    jsonSchema?: { name: string; schema: Record<string, unknown> }
+  ): Promise<LLMResult<string>> {
+    try {
+      const { data: response, response: raw } = await client.chat.completions.create({
+        model,
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: user },
+        ],
+        max_tokens: maxTokens,
+        temperature,
+        ...(jsonSchema && {
+          response_format: {
+            type: 'json_schema' as const,
+            json_schema: { name: jsonSchema.name, schema: jsonSchema.schema, strict: true },
+          },
+        }),
+      }).withResponse();
+
+      const text = response.choices[0]?.message?.content?.trim();
+      const tokensUsed = response.usage?.total_tokens || 0;
+      const costUsd = estimateCostUsd(
+        pricing,
+        response.usage?.prompt_tokens || 0,
+        response.usage?.completion_tokens || 0
+      );
+      const rateLimit = parseRateLimitHeaders((header) => raw.headers.get(header));
+      if (!text) {
+        return { success: false, error: `Empty response from ${name}`, tokensUsed, costUsd, rateLimit };
+      }
+      return { success: true, data: text, tokensUsed, costUsd, rateLimit };
+    } catch (error) {
+      return failure(error);
+    }
+  }
+
+  function summaryPrompt({ title, content, source, publishedAt }: SummaryRequest): string {
+    const contentPart = content ? `\n\nContent:\n${content.slice(0, 2000)}` : '';
+    const sourcePart = source ? ` (from ${source})` : '';
+    const datePart = publishedAt ? `\nPublished: ${publishedAt.slice(0, 10)}` : '';
+
+    return `Summarize this energy news article${sourcePart}:
+
+Title: ${title}${datePart}${contentPart}
+
+Provide a 2-3 sentence summary focusing on policy implications, compliance requirements, or market impacts.`;
+  }
+
+  return {
+    name,
+    model,
+    remote: true,
+    pricing,
+
+    estimateSummary(request, structured) {
+      const system = structured ? SUMMARY_SYSTEM_PROMPT + STRUCTURED_SUMMARY_INSTRUCTIONS : SUMMARY_SYSTEM_PROMPT;
+      const promptTokens = Math.ceil((system.length + summaryPrompt(request).length) / CHARS_PER_TOKEN);
+      const completionTokens = structured ? STRUCTURED_SUMMARY_MAX_TOKENS : SUMMARY_MAX_TOKENS;
+      return {
+        tokens: promptTokens + completionTokens,
+        costUsd: estimateCostUsd(pricing, promptTokens, completionTokens),
+      };
+    },
+
+    async summarize(request) {
+      // Lower temperature for more consistent outputs
+      return complete(SUMMARY_SYSTEM_PROMPT, summaryPrompt(request), SUMMARY_MAX_TOKENS, 0.3);
+    },
+
+    async summarizeStructured(request) {
+      const result = await complete(
+        SUMMARY_SYSTEM_PROMPT + STRUCTURED_SUMMARY_INSTRUCTIONS,
+        summaryPrompt(request),
+        STRUCTURED_SUMMARY_MAX_TOKENS,
+        0.3,
+        { name: 'structured_summary', schema: STRUCTURED_SUMMARY_SCHEMA }
+      );
+      if (!result.success || !result.data) {
+        return { ...result, data: undefined };
+      }
+
+      const { tokensUsed, costUsd, rateLimit } = result;
+      try {
+        return { success: true, data: JSON.parse(result.data), tokensUsed, costUsd, rateLimit };
+      } catch {
+        return { success: false, error: 'Response is not valid JSON', tokensUsed, costUsd, rateLimit };
+      }
+    },
+
+    async briefing(articles, count) {
+      const articleContext = articles
+        .map((a, i) => `${i + 1}. "${a.title}" (${a.source})\n   ${a.summary}`)
+        .join('\n\n');
+
+      const userPrompt = `Based on these recent energy finance articles, create ${count} market summary items:
+
+${articleContext}
+
+Generate diverse summaries covering: oil prices, natural gas, renewable energy, energy stocks, policy impacts, and market trends.`;
+
+      const result = await complete(briefingSystemPrompt(count), userPrompt, 1000, 0.7);
+      const { tokensUsed, costUsd } = result;
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error, tokensUsed, costUsd };
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(result.data);
+      } catch {
+        return { success: false, error: 'Response is not valid JSON', tokensUsed, costUsd };
+      }
+      if (!Array.isArray(parsed)) {
+        return { success: false, error: 'Response is not a JSON array', tokensUsed, costUsd };
+      }
+
+      const items = parsed
+        .slice(0, count)
+        .map((item: { headline?: string; summary?: string }) => ({
+          headline: item.headline || 'Market Update',
+          summary: item.summary || 'No summary available.',
+        }));
+      return { success: true, data: items, tokensUsed, costUsd };
+    },
+  };
+}
+
+/**
+ * Parse a rate-limit reset duration ('1s', '6m0s', '20ms', '1h2m3.5s')
+ *
+ * @returns Milliseconds, or null if unparseable
+ */
+export function parseResetDuration(value: string | null | undefined): number | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed) * 1000; // Plain seconds
+
+  const units: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+  let total = 0;
+  let matched = '';
+  const part = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let match: RegExpExecArray | null;
+  while ((match = part.exec(trimmed)) !== null) {
+    total += parseFloat(match[1]) * units[match[2]];
+    matched += match[0];
+  }
+  return matched === trimmed ? Math.ceil(total) : null;
+}
+
+/**
+ * Rate-limit state from response headers
+ *
+ * @param getHeader - Header lookup (lower-case names)
+ */
+export function parseRateLimitHeaders(
+  getHeader: (name: string) => string | null | undefined
+): RateLimitInfo {
+  const toNumber = (value: string | null | undefined) => {
+    const parsed = value ? parseInt(value, 10) : NaN;
+    return isNaN(parsed) ? null : parsed;
+  };
+  return {
+    remainingRequests: toNumber(getHeader('x-ratelimit-remaining-requests')),
+    remainingTokens: toNumber(getHeader('x-ratelimit-remaining-tokens')),
+    resetRequestsMs: parseResetDuration(getHeader('x-ratelimit-reset-requests')),
+    resetTokensMs: parseResetDuration(getHeader('x-ratelimit-reset-tokens')),
+  };
+}
+
+/**
+ * Server hint for the next attempt: retry-after-ms, retry-after (seconds or
+ * HTTP date), else the rate-limit reset
+ */
+function getRetryAfterMs(getHeader: (name: string) => string | null | undefined): number | null {
+  const retryAfterMs = parseFloat(getHeader('retry-after-ms') || '');
+  if (!isNaN(retryAfterMs)) return retryAfterMs;
+
+  const retryAfter = getHeader('retry-after');
+  if (retryAfter) {
+    const seconds = parseFloat(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const { resetRequestsMs, resetTokensMs } = parseRateLimitHeaders(getHeader);
+  const resets = [resetRequestsMs, resetTokensMs].filter((ms): ms is number => ms !== null);
+  return resets.length > 0 ? Math.max(...resets) : null;
+}
+
+/**
+ * Pricing of a provider's model
+ *
+ * @param name - Provider name
+ * @param model - Model name
+ */
+export function getModelPricing(name: LLMProviderName, model: string): ModelPricing {
+  const input = parseFloat(process.env.LLM_COST_PER_1M_INPUT || '');
+  const output = parseFloat(process.env.LLM_COST_PER_1M_OUTPUT || '');
+  if (name !== 'extractive' && !isNaN(input) && !isNaN(output)) {
+    return { inputPer1M: input, outputPer1M: output };
+  }
+  if (name !== 'openai') {
+    return FREE_PRICING;
+  }
+
+  // Longest matching prefix ('gpt-4o-mini' before 'gpt-4o')
+  const family = Object.keys(MODEL_PRICING)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? MODEL_PRICING[family] : DEFAULT_OPENAI_PRICING;
+}
+
+/**
+ * Estimated cost of a call in USD
+ */
+export function estimateCostUsd(pricing: ModelPricing, promptTokens: number, completionTokens: number): number {
+  return (promptTokens * pricing.inputPer1M + completionTokens * pricing.outputPer1M) / 1_000_000;
+}
+
+/**
+ * Provider name from the environment
+ */
+export function getLLMProviderName(): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+
+  if (configured && PROVIDER_NAMES.includes(configured as LLMProviderName)) {
+    if (configured === 'openai' && !process.env.OPENAI_API_KEY) {
+      console.warn('[llm] LLM_PROVIDER=openai but OPENAI_API_KEY is not set, using extractive');
+      return 'extractive';
+    }
+    if (configured === 'openai-compatible' && !process.env.LLM_BASE_URL) {
+      console.warn('[llm] LLM_PROVIDER=openai-compatible but LLM_BASE_URL is not set, using extractive');
+      return 'extractive';
+    }
+    return configured as LLMProviderName;
+  }
+  if (configured) {
+    console.warn(`[llm] Unknown LLM_PROVIDER "${configured}", falling back to auto-detection`);
+  }
+
+  if (process.env.LLM_BASE_URL) return 'openai-compatible';
+  if (process.env.OPENAI_API_KEY) return 'openai';
+  return 'extractive';
+}
+
+/**
+ * Lazy-initialized provider (re-created if the configuration changes)
+ */
+let cachedProvider: { key: string; provider: LLMProvider } | null = null;
+
+/**
+ * Get the configured LLM provider
+ */
+export function getLLMProvider(): LLMProvider {
+  const name = getLLMProviderName();
+  const model = process.env.LLM_MODEL || process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  const key = `${name}|${process.env.LLM_BASE_URL || ''}|${model}`;
+
+  if (cachedProvider?.key === key) {
+    return cachedProvider.provider;
+  }
+
+  let provider: LLMProvider;
+  if (name === 'openai') {
+    provider = createChatProvider(name, new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: 0 }), model);
+  } else if (name === 'openai-compatible') {
+    // Local servers usually ignore the key, but the SDK requires one
+    const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || 'not-needed';
+    provider = createChatProvider(name, new OpenAI({ apiKey, baseURL: process.env.LLM_BASE_URL, maxRetries: 0 }), model);
+  } else {
+    provider = extractiveProvider;
+  }
+
+  cachedProvider = { key, provider };
+  return provider;
+}
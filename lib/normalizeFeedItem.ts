@@ -1,37 +1,244 @@
 import { createHash } from 'crypto';
-import { RawFeedItem, ArticleInsert, ArticleType } from '@/types/article';
-import { categorizeArticle } from './categorize';
+import { RawFeedItem, ArticleInsert, ArticleType, CategoryRuleset, CategoryScore, EntityMention } from '@/types/article';
+import { categorizeArticleMultiLabel, DEFAULT_CATEGORY_RULESET } from './categorize';
+import { extractDocketIds } from './regulatory';
+import { computeFingerprint } from './fingerprint';
+import { extractEntities } from './entities';
+import { htmlToText } from './feedFormats';
 
 /**
  * Normalized article without summary (summary added later by AI)
  */
 export type PartialArticle = Omit<ArticleInsert, 'summary'> & {
   article_type?: ArticleType;
+  categories?: CategoryScore[]; // Ranked labels (saved to article_categories)
+  entities?: EntityMention[];   // Gazetteer matches (saved to article_entities)
+  legacy_id?: string;           // Pre-canonical ID (see generateLegacyArticleId), not stored
 };
 
+/**
+ * Max stored snippet length (feeds sometimes put the full article in <content>)
+ */
+export const MAX_SNIPPET_LENGTH = 1000;
+
+// Feed boilerplate appended to snippets
+const SNIPPET_BOILERPLATE_PATTERNS = [
+  /\s*The post .{1,300}? appeared first on .{1,100}?\.?\s*$/i,
+  /\s*(Continue reading|Read more|Read the full (story|article)|Click here)\b.{0,80}$/i,
+  /\s*(\[(…|\.\.\.|&hellip;)\])\s*$/,
+];
+
+// Query parameters that only track the click, never select content
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'gclsrc', 'dclid', 'msclkid', 'igshid', 'twclid',
+  'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok',
+  'cmpid', 'ocid', 'ref_src', 'ref_url', 'sr_share', 'smid', 'cmp',
+]);
+const TRACKING_PARAM_PREFIXES = ['utm_', 'pk_', 'mtm_'];
+
+/**
+ * Canonicalize a URL for IDs and dedup
+ * 
+ * Lowercases scheme and host, drops default ports, fragments and tracking
+ * parameters (utm_*, fbclid, ...), and sorts the remaining query parameters.
+ * 
+ * @param rawUrl - URL to canonicalize
+ * @returns Canonical URL, or the trimmed input if it isn't a valid http(s) URL
+ */
+export function canonicalizeUrl(rawUrl: string): string {
+  const trimmed = rawUrl.trim();
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return trimmed;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return trimmed;
+  }
+
+  url.hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+  url.hash = '';
+
+  const isGoogleNews = url.hostname === 'news.google.com';
+  for (const key of Array.from(url.searchParams.keys())) {
+    const lower = key.toLowerCase();
+    if (
+      TRACKING_PARAMS.has(lower) ||
+      TRACKING_PARAM_PREFIXES.some((prefix) => lower.startsWith(prefix)) ||
+      // Google News adds oc/hl/gl/ceid to wrapper links
+      (isGoogleNews && ['oc', 'hl', 'gl', 'ceid'].includes(lower))
+    ) {
+      url.searchParams.delete(key);
+    }
+  }
+  url.searchParams.sort();
+
+  return url.href;
+}
+
+/**
+ * Read a protobuf varint
+ */
+function readVarint(bytes: Buffer, start: number): { value: number; next: number } | null {
+  let value = 0;
+  let shift = 0;
+  for (let pos = start; pos < bytes.length && shift < 35; pos++) {
+    value += (bytes[pos] & 0x7f) * Math.pow(2, shift);
+    if ((bytes[pos] & 0x80) === 0) {
+      return { value, next: pos + 1 };
+    }
+    shift += 7;
+  }
+  return null;
+}
+
+/**
+ * Decode the publisher URL from a Google News article ID
+ * 
+ * Older IDs ("CBMi...") are base64 protobuf with the URL as a string
+ * field. Newer IDs ("AU_yqL...") only resolve through Google, so return null.
+ */
+function decodeGoogleNewsArticleId(articleId: string): string | null {
+  const bytes = Buffer.from(articleId, 'base64url');
+  let pos = 0;
+
+  while (pos < bytes.length) {
+    const tag = readVarint(bytes, pos);
+    if (!tag) return null;
+    pos = tag.next;
+
+    const wireType = tag.value & 0x07;
+    if (wireType === 0) {
+      const value = readVarint(bytes, pos);
+      if (!value) return null;
+      pos = value.next;
+    } else if (wireType === 2) {
+      const length = readVarint(bytes, pos);
+      if (!length || length.next + length.value > bytes.length) return null;
+      const field = bytes.subarray(length.next, length.next + length.value).toString('utf8');
+      if (/^https?:\/\//.test(field)) return field;
+      pos = length.next + length.value;
+    } else if (wireType === 1) {
+      pos += 8;
+    } else if (wireType === 5) {
+      pos += 4;
+    } else {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a Google News wrapper link to the publisher URL
+ * 
+ * Handles `news.google.com/rss/articles/<id>` (and /articles/) when the
+ * publisher URL is exposed: a `url` query parameter, a decodable article
+ * ID, or a non-Google link in the item's description.
+ * 
+ * @returns Publisher URL, or null if the link isn't a wrapper or can't be resolved
+ */
+export function unwrapGoogleNewsUrl(link: string, item?: RawFeedItem): string | null {
+  let url: URL;
+  try {
+    url = new URL(link.trim());
+  } catch {
+    return null;
+  }
+
+  if (url.hostname.toLowerCase() !== 'news.google.com') {
+    return null;
+  }
+
+  const direct = url.searchParams.get('url');
+  if (direct && /^https?:\/\//.test(direct)) {
+    return direct;
+  }
+
+  const articleMatch = url.pathname.match(/^\/(?:rss\/)?articles\/([A-Za-z0-9_-]+)/);
+  if (articleMatch) {
+    const decoded = decodeGoogleNewsArticleId(articleMatch[1]);
+    if (decoded) return decoded;
+  }
+
+  // Some items link the publisher directly in the description
+  const hrefs = Array.from((item?.content || '').matchAll(/href=["'](https?:\/\/[^"']+)["']/gi));
+  for (const match of hrefs) {
+    try {
+      const host = new URL(match[1]).hostname.toLowerCase();
+      if (!host.endsWith('google.com')) return match[1];
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the canonical URL for a feed item
+ * 
+ * Unwraps Google News redirects, then canonicalizes (see canonicalizeUrl).
+ */
+export function getCanonicalUrl(item: RawFeedItem): string | null {
+  if (!item.link || !item.link.trim()) {
+    return null;
+  }
+
+  const publisherUrl = unwrapGoogleNewsUrl(item.link, item);
+  return canonicalizeUrl(publisherUrl || item.link);
+}
+
 /**
  * Generate a stable unique ID for an article
  * 
- * Prefers guid from RSS feed, falls back to hashing the link
+ * Prefers the canonical URL so the same story via a Google News wrapper,
+ * with tracking parameters, or from the publisher gets one ID. Falls back
+ * to the feed guid, then title + date.
  * 
  * @param item - Raw feed item
+ * @param canonicalUrl - Canonical URL (computed from item.link if omitted)
  * @returns Stable unique ID string
  */
-export function generateArticleId(item: RawFeedItem): string {
-  // Prefer guid if available
+export function generateArticleId(item: RawFeedItem, canonicalUrl?: string | null): string {
+  const url = canonicalUrl === undefined ? getCanonicalUrl(item) : canonicalUrl;
+
+  // Prefer the canonical URL
+  if (url) {
+    return createHash('sha256').update(url).digest('hex').slice(0, 16);
+  }
+
+  // Fallback: hash the guid
+  if (item.guid && item.guid.trim()) {
+    return createHash('sha256').update(item.guid.trim()).digest('hex').slice(0, 16);
+  }
+
+  // Last resort: hash title + pubDate
+  const fallback = `${item.title || ''}:${item.pubDate || item.isoDate || ''}`;
+  return createHash('sha256').update(fallback).digest('hex').slice(0, 16);
+}
+
+/**
+ * Generate the ID an article got before IDs hashed the canonical URL
+ * 
+ * Rows stored before that keep their old IDs (and a canonical_url backfilled
+ * from the raw link), so ingestion also checks this ID to recognize them.
+ * 
+ * @param item - Raw feed item
+ * @returns ID from the guid, else the link, else title + date
+ */
+export function generateLegacyArticleId(item: RawFeedItem): string {
   if (item.guid && item.guid.trim()) {
-    // Clean guid - remove any URL prefixes, keep just the identifier
-    const cleanGuid = item.guid.trim();
-    // Hash it to ensure consistent length and format
-    return createHash('sha256').update(cleanGuid).digest('hex').slice(0, 16);
+    return createHash('sha256').update(item.guid.trim()).digest('hex').slice(0, 16);
   }
 
-  // Fallback: hash the link
   if (item.link && item.link.trim()) {
     return createHash('sha256').update(item.link.trim()).digest('hex').slice(0, 16);
   }
 
-  // Last resort: hash title + pubDate
   const fallback = `${item.title || ''}:${item.pubDate || item.isoDate || ''}`;
   return createHash('sha256').update(fallback).digest('hex').slice(0, 16);
 }
@@ -39,7 +246,8 @@ export function generateArticleId(item: RawFeedItem): string {
 /**
  * Parse publication date from feed item
  * 
- * Prefers isoDate (already ISO format), falls back to pubDate
+ * Prefers isoDate (already ISO format), falls back to pubDate,
+ * then to the last-updated date (Atom <updated>, JSON Feed date_modified)
  * 
  * @param item - Raw feed item
  * @returns ISO 8601 date string
@@ -58,6 +266,10 @@ export function parsePublicationDate(item: RawFeedItem): string {
     }
   }
 
+  if (item.updated) {
+    return item.updated;
+  }
+
   // Fallback to current time if no date available
   return new Date().toISOString();
 }
@@ -171,6 +383,44 @@ function extractImgSrcFromHtml(value: string, baseUrl?: string): string | null {
   return normalizeImageUrl(match[1], baseUrl);
 }
 
+/**
+ * Cleaned excerpt of a feed item
+ * 
+ * Strips HTML (including escaped HTML and script/style blocks), decodes
+ * entities, removes feed boilerplate ("The post ... appeared first on ...",
+ * "Continue reading", trailing "[…]") and caps the length at a word boundary.
+ * 
+ * @param item - Raw feed item
+ * @param title - Article title (a snippet that only repeats it is dropped)
+ * @returns Plain-text snippet, or null if there is none
+ */
+export function cleanSnippet(item: RawFeedItem, title?: string): string | null {
+  let raw = item.contentSnippet || item.content || '';
+  if (!raw.trim()) return null;
+
+  // Some feeds escape their HTML ("&lt;p&gt;...")
+  if (/&lt;\/?[a-z]/i.test(raw)) {
+    raw = raw.replace(/&lt;/g, '<').replace(/&gt;/g, '>');
+  }
+  raw = raw.replace(/<(script|style|figure|figcaption)[^>]*>[\s\S]*?<\/\1>/gi, ' ');
+
+  let text = htmlToText(raw);
+  for (const pattern of SNIPPET_BOILERPLATE_PATTERNS) {
+    text = text.replace(pattern, '');
+  }
+  text = text.trim();
+
+  if (!text || (title && text.toLowerCase() === title.trim().toLowerCase())) {
+    return null;
+  }
+
+  if (text.length > MAX_SNIPPET_LENGTH) {
+    const cut = text.slice(0, MAX_SNIPPET_LENGTH - 1);
+    const lastSpace = cut.lastIndexOf(' ');
+    text = `${lastSpace > MAX_SNIPPET_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+  }
+  return text;
+}
 
 /**
  * Normalize a raw feed item into a partial article
@@ -180,12 +430,14 @@ function extractImgSrcFromHtml(value: string, baseUrl?: string): string | null {
  * @param item - Raw feed item from RSS parser
  * @param source - Source name (e.g., 'FERC', 'EPA')
  * @param articleType - Type of article ('policy' or 'finance')
+ * @param ruleset - Categorization rules (default: built-in ruleset)
  * @returns Partial article ready for categorization and summarization
  */
 export function normalizeFeedItem(
   item: RawFeedItem,
   source: string,
-  articleType: ArticleType = 'policy'
+  articleType: ArticleType = 'policy',
+  ruleset: CategoryRuleset = DEFAULT_CATEGORY_RULESET
 ): PartialArticle | null {
   // Skip items without title or link
   if (!item.title?.trim() || !item.link?.trim()) {
@@ -194,18 +446,45 @@ export function normalizeFeedItem(
   }
 
   const title = item.title.trim();
-  const content = item.contentSnippet || item.content || '';
+  const cleanedSnippet = cleanSnippet(item, title);
+  const snippet = cleanedSnippet || '';
+  // Feed-provided categories/tags help keyword categorization
+  const content = item.categories?.length
+    ? `${snippet} ${item.categories.join(' ')}`
+    : snippet;
   const imageUrl = extractFeedImage(item);
+  const canonicalUrl = getCanonicalUrl(item);
+  const fingerprint = computeFingerprint(title, snippet);
+  const categories = categorizeArticleMultiLabel(title, content, ruleset);
+
+  // Docket IDs from the source (Federal Register) plus any mentioned in the text
+  const docketIds = Array.from(new Set([
+    ...(item.regulatory?.docketIds || []),
+    ...extractDocketIds(`${title} ${snippet}`),
+  ]));
   
   return {
-    id: generateArticleId(item),
+    id: generateArticleId(item, canonicalUrl),
+    legacy_id: generateLegacyArticleId(item),
     title,
+    snippet: cleanedSnippet,
     link: item.link.trim(),
+    canonical_url: canonicalUrl,
     pub_date: parsePublicationDate(item),
     source,
-    category: categorizeArticle(title, content),
+    category: categories[0].category,
+    subcategory: categories[0].subcategory ?? null,
+    categories,
+    category_rules_version: ruleset.version,
+    entities: extractEntities(title, snippet),
     article_type: articleType,
     image_url: imageUrl,
+    docket_ids: docketIds,
+    agency: item.regulatory?.agency ?? null,
+    document_type: item.regulatory?.documentType ?? null,
+    comment_deadline: item.regulatory?.commentDeadline ?? null,
+    minhash: fingerprint?.minhash ?? null,
+    minhash_bands: fingerprint?.minhash_bands ?? null,
   };
 }
 
@@ -215,15 +494,17 @@ export function normalizeFeedItem(
  * @param items - Raw feed items
  * @param source - Source name
  * @param articleType - Type of article ('policy' or 'finance')
+ * @param ruleset - Categorization rules (default: built-in ruleset)
  * @returns Array of partial articles (nulls filtered out)
  */
 export function normalizeFeedItems(
   items: RawFeedItem[],
   source: string,
-  articleType: ArticleType = 'policy'
+  articleType: ArticleType = 'policy',
+  ruleset: CategoryRuleset = DEFAULT_CATEGORY_RULESET
 ): PartialArticle[] {
   return items
-    .map((item) => normalizeFeedItem(item, source, articleType))
+    .map((item) => normalizeFeedItem(item, source, articleType, ruleset))
     .filter((article): article is PartialArticle => article !== null);
 }
 
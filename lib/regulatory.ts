@@ -0,0 +1,226 @@
+/**
+ * Regulatory Document Helpers
+ *
+ * - Docket ID extraction from free text (FERC dockets, Regulations.gov
+ *   dockets such as EPA-HQ-OAR-2021-0317), so coverage of the same
+ *   proceeding can be linked via articles.docket_ids
+ * - Deadline extraction from free text ("comments are due March 3")
+ * - Parsing of Federal Register documents API responses
+ *   (https://www.federalregister.gov/developers/documentation/api/v1)
+ */
+
+import { RawFeedItem, RegulatoryDocumentType, SummaryDeadline } from '@/types/article';
+
+/**
+ * FERC docket prefixes (e.g., RM = rulemaking, ER = electric rates, CP = gas certificates)
+ */
+const FERC_DOCKET_PREFIXES = [
+  'AC', 'AD', 'CP', 'EC', 'EG', 'EL', 'ER', 'ES', 'GP', 'HB', 'IN', 'IS', 'OA',
+  'OR', 'PF', 'PL', 'PR', 'QF', 'RC', 'RD', 'RM', 'RP', 'RR', 'RT', 'SA', 'TS', 'TX',
+];
+
+// RM22-14 or RM22-14-000 (sub-docket suffix is dropped so filings link to one proceeding)
+const FERC_DOCKET_PATTERN = new RegExp(
+  `\\b(${FERC_DOCKET_PREFIXES.join('|')})(\\d{2})-(\\d{1,5})(?:-\\d{3})?\\b`,
+  'g'
+);
+
+/**
+ * Regulations.gov agency prefixes for energy-related dockets (a bare
+ * "ERCOT-2025-2026" or "MISO-2025-2026" is a year range, not a docket)
+ */
+const REGULATIONS_GOV_AGENCIES = [
+  'BLM', 'BOEM', 'BSEE', 'CEQ', 'DOE', 'DOI', 'DOT', 'EERE', 'EPA', 'FWS', 'IRS',
+  'MARAD', 'NHTSA', 'NOAA', 'NRC', 'OSHA', 'OSM', 'PHMSA', 'TREAS', 'USCG',
+];
+
+// Regulations.gov style: EPA-HQ-OAR-2021-0317, PHMSA-2021-0046, EERE-2022-BT-STD-0022
+const REGULATIONS_GOV_DOCKET_PATTERN = new RegExp(
+  `\\b(?:${REGULATIONS_GOV_AGENCIES.join('|')})(?:-[A-Z0-9]{2,5}){0,3}-(?:19|20)\\d{2}(?:-[A-Z]{2,4}){0,2}-\\d{4}\\b`,
+  'g'
+);
+
+/**
+ * Extract regulatory docket IDs from text
+ *
+ * @param text - Title, snippet or a Federal Register docket string
+ *   (e.g., "Docket No. RM22-14-000")
+ * @returns Unique docket IDs in order of appearance
+ */
+export function extractDocketIds(text: string): string[] {
+  if (!text) return [];
+
+  const found: { index: number; id: string }[] = [];
+
+  for (const match of Array.from(text.matchAll(FERC_DOCKET_PATTERN))) {
+    found.push({ index: match.index ?? 0, id: `${match[1]}${match[2]}-${match[3]}` });
+  }
+  for (const match of Array.from(text.matchAll(REGULATIONS_GOV_DOCKET_PATTERN))) {
+    found.push({ index: match.index ?? 0, id: match[0] });
+  }
+
+  found.sort((a, b) => a.index - b.index);
+  return Array.from(new Set(found.map((f) => f.id)));
+}
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+// "March 3", "Mar. 3rd, 2026", "Sept 30"
+const MONTH_DATE_PATTERN =
+  /\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+((?:19|20)\d{2}))?\b/g;
+
+// 2026-03-03
+const ISO_DATE_PATTERN = /\b((?:19|20)\d{2})-(\d{2})-(\d{2})\b/g;
+
+// Words that make a date a deadline rather than a past event
+const DEADLINE_CUE_PATTERN =
+  /\b(deadline|due|by|before|until|through|no later than|effective|expires?|closes?|takes? effect|must|comments?|submit\w*|file|filings?)\b/i;
+
+const MAX_DEADLINES = 5;
+const MAX_DEADLINE_DESCRIPTION_LENGTH = 140;
+
+/**
+ * Format a date as YYYY-MM-DD, or null if it doesn't exist (e.g., Feb 30)
+ */
+function toIsoDay(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Extract dates and deadlines from text
+ *
+ * Only dates in a sentence with a deadline cue ("due", "by", "effective",
+ * "comments"...) count. Dates without a year get the year that puts them
+ * closest after the reference date (up to a month back).
+ *
+ * @param text - Title and/or snippet
+ * @param referenceDate - Date the text was published (default: now)
+ * @returns Deadlines by date, with the sentence that mentions them
+ */
+export function extractDeadlines(text: string, referenceDate: Date = new Date()): SummaryDeadline[] {
+  if (!text) return [];
+
+  const found = new Map<string, string>();
+  const sentences = text.replace(/([.!?])\s+(?=["“]?[A-Z])/g, '$1\n').split('\n');
+
+  for (const sentence of sentences) {
+    if (!DEADLINE_CUE_PATTERN.test(sentence)) continue;
+
+    const description = sentence.trim().length > MAX_DEADLINE_DESCRIPTION_LENGTH
+      ? `${sentence.trim().slice(0, MAX_DEADLINE_DESCRIPTION_LENGTH - 3)}...`
+      : sentence.trim();
+
+    for (const match of Array.from(sentence.matchAll(MONTH_DATE_PATTERN))) {
+      const month = MONTHS.findIndex((m) => m.startsWith(match[1].toLowerCase())) + 1;
+      const day = parseInt(match[2], 10);
+      let year = match[3] ? parseInt(match[3], 10) : referenceDate.getUTCFullYear();
+      let date = toIsoDay(year, month, day);
+      if (date && !match[3]) {
+        // "March 3" in a December article means next March
+        const monthAgo = new Date(referenceDate.getTime() - 31 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        if (date < monthAgo) {
+          year++;
+          date = toIsoDay(year, month, day);
+        }
+      }
+      if (date && !found.has(date)) found.set(date, description);
+    }
+
+    for (const match of Array.from(sentence.matchAll(ISO_DATE_PATTERN))) {
+      const date = toIsoDay(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+      if (date && !found.has(date)) found.set(date, description);
+    }
+  }
+
+  return Array.from(found.entries())
+    .map(([date, description]) => ({ date, description }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(0, MAX_DEADLINES);
+}
+
+/**
+ * Map a Federal Register document type to ours
+ */
+export function toRegulatoryDocumentType(type: string | undefined): RegulatoryDocumentType | undefined {
+  switch ((type || '').trim().toLowerCase()) {
+    case 'rule':
+    case 'final rule':
+      return 'final_rule';
+    case 'proposed rule':
+      return 'proposed_rule';
+    case 'notice':
+      return 'notice';
+    case 'presidential document':
+      return 'presidential_document';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Document from the Federal Register documents API
+ *
+ * docket_ids and comments_close_on are only returned when requested
+ * with fields[] (see federalRegisterUrl in lib/feeds.ts).
+ */
+interface FederalRegisterDocument {
+  document_number?: string;
+  title?: string;
+  type?: string;
+  abstract?: string | null;
+  html_url?: string;
+  publication_date?: string;
+  agencies?: { name?: string; raw_name?: string }[];
+  docket_ids?: string[] | null;
+  comments_close_on?: string | null;
+}
+
+/**
+ * Parse a Federal Register documents API response
+ *
+ * Docket strings are normalized with extractDocketIds; ones that don't
+ * match a known pattern are kept as given.
+ *
+ * @throws Error if the body is not a documents listing
+ */
+export function parseFederalRegisterDocuments(body: string): RawFeedItem[] {
+  const response = JSON.parse(body) as { results?: unknown };
+
+  if (!Array.isArray(response.results)) {
+    // An empty search returns { count: 0 } without results
+    if ((response as { count?: number }).count === 0) {
+      return [];
+    }
+    throw new Error('Response is not a Federal Register documents listing');
+  }
+
+  return (response.results as FederalRegisterDocument[]).map((doc) => {
+    const docketIds = (doc.docket_ids || []).flatMap((docket) => {
+      const extracted = extractDocketIds(docket);
+      return extracted.length > 0 ? extracted : [docket.replace(/^Docket (No\.|Nos\.|ID:?)\s*/i, '').trim()];
+    });
+    const agency = doc.agencies?.map((a) => a.name || a.raw_name).find(Boolean);
+
+    return {
+      title: doc.title,
+      link: doc.html_url,
+      guid: doc.document_number ? `federalregister:${doc.document_number}` : doc.html_url,
+      pubDate: doc.publication_date,
+      isoDate: doc.publication_date ? new Date(`${doc.publication_date}T00:00:00Z`).toISOString() : undefined,
+      contentSnippet: doc.abstract || undefined,
+      regulatory: {
+        docketIds: Array.from(new Set(docketIds.filter(Boolean))),
+        agency,
+        documentType: toRegulatoryDocumentType(doc.type),
+        commentDeadline: doc.comments_close_on || undefined,
+      },
+    };
+  });
+}
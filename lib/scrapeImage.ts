@@ -5,6 +5,8 @@
  * Enhanced with multiple fallback strategies for sites without OG tags.
  */
 
+import { canonicalizeUrl } from './normalizeFeedItem';
+
 const isDev = process.env.NODE_ENV !== 'production';
 
 /**
@@ -13,6 +15,7 @@ const isDev = process.env.NODE_ENV !== 'production';
 export interface ScrapeResult {
   success: boolean;
   imageUrl?: string;
+  canonicalUrl?: string; // From <link rel="canonical"> when the page was fetched
   error?: string;
 }
 
@@ -32,6 +35,34 @@ function getRandomUserAgent(): string {
   return USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
 }
 
+/**
+ * Extract the canonical URL from <link rel="canonical">
+ * 
+ * @returns Canonicalized absolute URL, or undefined if absent/invalid
+ */
+function extractCanonicalUrl(html: string, baseUrl: string): string | undefined {
+  const patterns = [
+    /<link[^>]+rel=["']canonical["'][^>]+href=["']([^"']+)["']/i,
+    /<link[^>]+href=["']([^"']+)["'][^>]+rel=["']canonical["']/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = html.match(pattern);
+    if (match && match[1]) {
+      try {
+        const resolved = new URL(match[1].trim(), baseUrl);
+        if (resolved.protocol === 'http:' || resolved.protocol === 'https:') {
+          return canonicalizeUrl(resolved.href);
+        }
+      } catch {
+        // Ignore malformed canonical links
+      }
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * Extract image URL from HTML content with multiple fallbacks
  * 
@@ -508,20 +539,21 @@ export async function scrapeArticleImage(articleUrl: string): Promise<ScrapeResu
     const html = await response.text();
     const limitedHtml = html.slice(0, 100000);
 
-    // Extract image URL
+    // Extract image URL (and canonical URL while we have the page)
     const imageUrl = extractImageFromHtml(limitedHtml, articleUrl);
+    const canonicalUrl = extractCanonicalUrl(limitedHtml, response.url || articleUrl);
 
     if (imageUrl) {
       if (isDev) {
         console.log(`[scrapeImage] Found image for ${articleUrl.slice(0, 50)}: ${imageUrl.slice(0, 80)}`);
       }
-      return { success: true, imageUrl };
+      return { success: true, imageUrl, canonicalUrl };
     }
 
     // Domain-specific fallback when HTML parsing fails despite a valid post.
     const clubFallback = await fetchClubOfMozambiqueImage(articleUrl);
     if (clubFallback) {
-      return { success: true, imageUrl: clubFallback };
+      return { success: true, imageUrl: clubFallback, canonicalUrl };
     }
 
     // Reader proxy can also recover images that our HTML extractor misses,
@@ -535,11 +567,11 @@ export async function scrapeArticleImage(articleUrl: string): Promise<ScrapeResu
             `[scrapeImage] Recovered via reader proxy (no-image path): ${articleUrl.slice(0, 50)} -> ${proxyImage.slice(0, 80)}`
           );
         }
-        return { success: true, imageUrl: proxyImage };
+        return { success: true, imageUrl: proxyImage, canonicalUrl };
       }
     }
 
-    return { success: false, error: 'No image found' };
+    return { success: false, canonicalUrl, error: 'No image found' };
   } catch (err) {
     const errorMsg = err instanceof Error ? err.message : 'Unknown error';
     if (isDev) {
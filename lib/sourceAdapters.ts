@@ -0,0 +1,468 @@
+/**
+ * Source Adapters
+ *
+ * Turns a fetched response body into RawFeedItems for each FeedKind:
+ * - rss: RSS / Atom / JSON Feed (see feedFormats.ts)
+ * - html-list: News listing pages for agencies without usable feeds (FERC, EPA)
+ * - json-api: Arbitrary JSON APIs mapped with dot paths
+ * - federal-register: Federal Register documents API (see regulatory.ts)
+ *
+ * fetchFeed handles the HTTP side (conditional GET, retries, diagnostics)
+ * and hands the body to the adapter, so every kind flows into the same
+ * normalizeFeedItems → dedup → categorize → summarize path.
+ */
+
+import {
+  RawFeedItem,
+  FeedSource,
+  FeedKind,
+  HtmlFieldSelector,
+  HtmlListConfig,
+  JsonApiConfig,
+  SourceAdapterConfig,
+} from '@/types/article';
+import { FeedFormat, detectFeedFormat, parseFeedBody, htmlToText } from './feedFormats';
+import { parseFederalRegisterDocuments } from './regulatory';
+
+/**
+ * Result of parsing a response body
+ */
+export interface AdapterParseResult {
+  items: RawFeedItem[];
+  feedFormat?: FeedFormat; // Only set by the rss adapter
+}
+
+/**
+ * A source adapter for one FeedKind
+ */
+export interface SourceAdapter {
+  kind: FeedKind;
+  accept: string; // Accept header to send
+  parse(body: string, feed: FeedSource, contentType?: string): Promise<AdapterParseResult>;
+}
+
+export const FEED_KINDS: FeedKind[] = ['rss', 'html-list', 'json-api', 'federal-register'];
+
+// =============================================================================
+// RSS ADAPTER
+// =============================================================================
+
+const rssAdapter: SourceAdapter = {
+  kind: 'rss',
+  accept: 'application/rss+xml, application/atom+xml, application/feed+json, application/xml, text/xml, application/json, */*',
+  async parse(body, _feed, contentType) {
+    const feedFormat = detectFeedFormat(body, contentType);
+    const items = await parseFeedBody(body, feedFormat);
+    return { items, feedFormat };
+  },
+};
+
+// =============================================================================
+// HTML LIST ADAPTER
+// =============================================================================
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+/**
+ * One compound selector part, e.g. `li.views-row` or `#news`
+ */
+interface SimpleSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+}
+
+/**
+ * An element found in an HTML string
+ */
+interface HtmlElement {
+  attrs: Record<string, string>;
+  inner: string;
+}
+
+/**
+ * Parse a selector like `div.views-row h3 a` into compound parts
+ *
+ * Supports tag, .class, #id and the descendant combinator (space).
+ *
+ * @throws Error for unsupported syntax (attributes, pseudo-classes, >, +, ~)
+ */
+function parseSelector(selector: string): SimpleSelector[] {
+  return selector.trim().split(/\s+/).map((part) => {
+    const match = part.match(/^([a-z][a-z0-9-]*)?((?:[.#][\w-]+)*)$/i);
+    if (!match || (!match[1] && !match[2])) {
+      throw new Error(`Unsupported selector: "${part}"`);
+    }
+    const simple: SimpleSelector = { tag: match[1]?.toLowerCase(), classes: [] };
+    for (const token of match[2].match(/[.#][\w-]+/g) || []) {
+      if (token.startsWith('#')) simple.id = token.slice(1);
+      else simple.classes.push(token.slice(1));
+    }
+    return simple;
+  });
+}
+
+/**
+ * Parse the attributes of an opening tag
+ */
+function parseAttributes(attrText: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([\w:-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let match;
+  while ((match = pattern.exec(attrText)) !== null) {
+    attrs[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attrs;
+}
+
+/**
+ * Find the end of an element's content by counting nested same-name tags
+ *
+ * @returns Index of the matching closing tag (or end of html if unclosed)
+ */
+function findClosingTag(html: string, tag: string, from: number): { innerEnd: number; outerEnd: number } {
+  const pattern = new RegExp(`<(/?)${tag}\\b[^>]*?(/?)>`, 'gi');
+  pattern.lastIndex = from;
+  let depth = 1;
+  let match;
+  while ((match = pattern.exec(html)) !== null) {
+    if (match[1]) {
+      depth--;
+      if (depth === 0) {
+        return { innerEnd: match.index, outerEnd: pattern.lastIndex };
+      }
+    } else if (!match[2]) {
+      depth++;
+    }
+  }
+  return { innerEnd: html.length, outerEnd: html.length };
+}
+
+/**
+ * Find elements matching one compound selector (not nested in each other)
+ */
+function findElements(html: string, simple: SimpleSelector): HtmlElement[] {
+  const elements: HtmlElement[] = [];
+  const tagPattern = simple.tag ? simple.tag : '[a-z][a-z0-9-]*';
+  const openTag = new RegExp(`<(${tagPattern})\\b([^>]*)>`, 'gi');
+
+  let match;
+  while ((match = openTag.exec(html)) !== null) {
+    const tag = match[1].toLowerCase();
+    const attrs = parseAttributes(match[2]);
+    const classes = (attrs.class || '').split(/\s+/);
+
+    if (simple.id && attrs.id !== simple.id) continue;
+    if (!simple.classes.every((cls) => classes.includes(cls))) continue;
+
+    const innerStart = openTag.lastIndex;
+    if (VOID_TAGS.has(tag) || match[2].trim().endsWith('/')) {
+      elements.push({ attrs, inner: '' });
+      continue;
+    }
+
+    const { innerEnd, outerEnd } = findClosingTag(html, tag, innerStart);
+    elements.push({ attrs, inner: html.slice(innerStart, innerEnd) });
+    openTag.lastIndex = outerEnd;
+  }
+
+  return elements;
+}
+
+/**
+ * Select elements with a descendant selector
+ */
+function selectAll(html: string, selector: string): HtmlElement[] {
+  let scopes: HtmlElement[] = [{ attrs: {}, inner: html }];
+  for (const simple of parseSelector(selector)) {
+    scopes = scopes.flatMap((scope) => findElements(scope.inner, simple));
+  }
+  return scopes;
+}
+
+/**
+ * Read one field from a listing entry
+ *
+ * Uses the first matching element that yields a value (so a `pattern`
+ * can pick e.g. the one table cell that holds a date).
+ */
+function readField(entry: HtmlElement, field: HtmlFieldSelector, defaultAttr?: string): string | undefined {
+  const elements = field.selector ? selectAll(entry.inner, field.selector) : [entry];
+  const attr = field.attr ?? defaultAttr;
+
+  for (const element of elements) {
+    const raw = attr ? element.attrs[attr.toLowerCase()] : element.inner;
+    if (raw === undefined) continue;
+
+    let value = htmlToText(raw);
+    if (field.pattern) {
+      const match = value.match(new RegExp(field.pattern, 'i'));
+      if (!match) continue;
+      value = (match[1] ?? match[0]).trim();
+    }
+
+    if (value) return value;
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve a possibly-relative URL
+ */
+function resolveUrl(href: string, baseUrl: string): string | undefined {
+  try {
+    const resolved = new URL(href, baseUrl);
+    if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') return undefined;
+    resolved.hash = '';
+    return resolved.href;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert a listing date to ISO 8601, or undefined if unparseable
+ */
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value.replace(/\s+/g, ' ').trim());
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Split a listing page into entries
+ */
+function findEntries(html: string, config: HtmlListConfig): HtmlElement[] {
+  if (config.itemSelector) {
+    return selectAll(html, config.itemSelector);
+  }
+
+  const entries: HtmlElement[] = [];
+  const pattern = new RegExp(config.itemPattern as string, 'gi');
+  let match;
+  while ((match = pattern.exec(html)) !== null) {
+    entries.push({ attrs: {}, inner: match[1] ?? match[0] });
+    if (match[0].length === 0) pattern.lastIndex++;
+  }
+  return entries;
+}
+
+/**
+ * Parse a news listing page using the feed's HtmlListConfig
+ *
+ * @throws Error if no entries (or no entries with title + link) are found,
+ *   which usually means the page layout changed
+ */
+export function parseHtmlList(html: string, feed: FeedSource): RawFeedItem[] {
+  const config = (feed.adapterConfig || {}) as HtmlListConfig;
+  const baseUrl = config.baseUrl || feed.url;
+  const entries = findEntries(html, config);
+
+  if (entries.length === 0) {
+    throw new Error('No listing entries matched itemSelector/itemPattern');
+  }
+
+  const seen = new Set<string>();
+  const items: RawFeedItem[] = [];
+
+  for (const entry of entries) {
+    const title = readField(entry, config.title || { selector: 'a' });
+    const href = readField(entry, config.link || { selector: 'a' }, 'href');
+    const link = href ? resolveUrl(href, baseUrl) : undefined;
+    if (!title || !link || seen.has(link)) continue;
+    seen.add(link);
+
+    const rawDate = config.date ? readField(entry, config.date) : undefined;
+    const summary = config.summary ? readField(entry, config.summary) : undefined;
+
+    items.push({
+      title,
+      link,
+      guid: link,
+      pubDate: rawDate,
+      isoDate: toIsoDate(rawDate),
+      contentSnippet: summary,
+    });
+
+    if (config.maxItems && items.length >= config.maxItems) break;
+  }
+
+  if (items.length === 0) {
+    throw new Error(`${entries.length} listing entries matched but none had a title and link`);
+  }
+
+  return items;
+}
+
+const htmlListAdapter: SourceAdapter = {
+  kind: 'html-list',
+  accept: 'text/html, application/xhtml+xml, */*',
+  async parse(body, feed) {
+    return { items: parseHtmlList(body, feed) };
+  },
+};
+
+// =============================================================================
+// JSON API ADAPTER
+// =============================================================================
+
+/**
+ * Read a dot path ('data.items', 'links.0.href') from a JSON value
+ */
+function getPath(value: unknown, path: string): unknown {
+  if (!path) return value;
+  return path.split('.').reduce<unknown>((current, key) => {
+    if (current === null || current === undefined) return undefined;
+    return (current as Record<string, unknown>)[key];
+  }, value);
+}
+
+/**
+ * Read a dot path as a trimmed string
+ */
+function getStringPath(value: unknown, path: string | undefined): string | undefined {
+  if (!path) return undefined;
+  const result = getPath(value, path);
+  if (typeof result === 'string') return result.trim() || undefined;
+  if (typeof result === 'number') return String(result);
+  return undefined;
+}
+
+/**
+ * Parse a JSON API response using the feed's JsonApiConfig
+ *
+ * @throws Error if the body is not JSON or itemsPath is not an array
+ */
+export function parseJsonApi(body: string, feed: FeedSource): RawFeedItem[] {
+  const config = feed.adapterConfig as JsonApiConfig;
+  const baseUrl = config.baseUrl || feed.url;
+  const records = getPath(JSON.parse(body), config.itemsPath);
+
+  if (!Array.isArray(records)) {
+    throw new Error(`itemsPath "${config.itemsPath}" is not an array`);
+  }
+
+  return records.map((record) => {
+    const href = getStringPath(record, config.link);
+    const link = href ? resolveUrl(href, baseUrl) : undefined;
+    const rawDate = getStringPath(record, config.date);
+    const summary = getStringPath(record, config.summary);
+
+    return {
+      title: getStringPath(record, config.title),
+      link,
+      guid: getStringPath(record, config.id) || link,
+      pubDate: rawDate,
+      isoDate: toIsoDate(rawDate),
+      contentSnippet: summary ? htmlToText(summary) : undefined,
+    };
+  });
+}
+
+const jsonApiAdapter: SourceAdapter = {
+  kind: 'json-api',
+  accept: 'application/json, */*',
+  async parse(body, feed) {
+    return { items: parseJsonApi(body, feed) };
+  },
+};
+
+// =============================================================================
+// FEDERAL REGISTER ADAPTER
+// =============================================================================
+
+const federalRegisterAdapter: SourceAdapter = {
+  kind: 'federal-register',
+  accept: 'application/json, */*',
+  async parse(body) {
+    return { items: parseFederalRegisterDocuments(body) };
+  },
+};
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const SOURCE_ADAPTERS: Record<FeedKind, SourceAdapter> = {
+  'rss': rssAdapter,
+  'html-list': htmlListAdapter,
+  'json-api': jsonApiAdapter,
+  'federal-register': federalRegisterAdapter,
+};
+
+/**
+ * Get the adapter for a feed (defaults to rss)
+ */
+export function getSourceAdapter(feed: FeedSource): SourceAdapter {
+  return SOURCE_ADAPTERS[feed.kind || 'rss'];
+}
+
+/**
+ * Check that a regex string compiles
+ */
+function isValidPattern(pattern: unknown): boolean {
+  if (typeof pattern !== 'string') return false;
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate the adapter config for a feed kind
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateAdapterConfig(
+  kind: FeedKind,
+  config: SourceAdapterConfig | null | undefined
+): string | null {
+  if (kind === 'rss' || kind === 'federal-register') {
+    return null;
+  }
+
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return `adapterConfig is required for kind "${kind}"`;
+  }
+
+  if (kind === 'json-api') {
+    const json = config as JsonApiConfig;
+    if (typeof json.itemsPath !== 'string') return 'adapterConfig.itemsPath is required';
+    if (typeof json.title !== 'string' || !json.title) return 'adapterConfig.title is required';
+    if (typeof json.link !== 'string' || !json.link) return 'adapterConfig.link is required';
+    return null;
+  }
+
+  const html = config as HtmlListConfig;
+  if (!html.itemSelector && !html.itemPattern) {
+    return 'adapterConfig.itemSelector or adapterConfig.itemPattern is required';
+  }
+  if (html.itemPattern !== undefined && !isValidPattern(html.itemPattern)) {
+    return 'adapterConfig.itemPattern is not a valid regex';
+  }
+
+  const selectors = [html.itemSelector];
+  for (const name of ['title', 'link', 'date', 'summary'] as const) {
+    const field = html[name];
+    if (field === undefined) continue;
+    if (typeof field !== 'object' || field === null) return `adapterConfig.${name} must be an object`;
+    if (field.pattern !== undefined && !isValidPattern(field.pattern)) {
+      return `adapterConfig.${name}.pattern is not a valid regex`;
+    }
+    selectors.push(field.selector);
+  }
+
+  for (const selector of selectors) {
+    if (selector === undefined) continue;
+    try {
+      parseSelector(String(selector));
+    } catch (err) {
+      return `adapterConfig: ${err instanceof Error ? err.message : 'invalid selector'}`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,219 @@
+/**
+ * Ticker-linked News
+ *
+ * Connects the stock cards of the finance page with articles: stored
+ * articles are linked to a company via article_entities (see
+ * lib/entities.ts), Finnhub company news fills the gaps.
+ *
+ * Finnhub often returns headlines we already stored (same link, or the same
+ * story syndicated under another URL), so its items are dropped when their
+ * canonical URL or title key matches any stored article - including ones
+ * without an entity row for the ticker (e.g., ingested before entity
+ * extraction).
+ */
+
+import { getExistingArticleTitles, getExistingCanonicalUrls, getSupabase } from './db';
+import { fetchCompanyNews, ENERGY_STOCK_SYMBOLS } from './finnhub';
+import { canonicalizeUrl } from './normalizeFeedItem';
+import { getTitleKey } from './fingerprint';
+
+/**
+ * Window of the related headlines and of the larger mention count
+ */
+export const STOCK_NEWS_WINDOW_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_MENTION_ROWS = 5000;
+
+/**
+ * Articles mentioning a company in the last 24 hours / 7 days
+ */
+export interface TickerMentionCounts {
+  last24h: number;
+  last7d: number;
+}
+
+/**
+ * One related headline, either stored or from Finnhub
+ */
+export interface StockNewsItem {
+  id: string;
+  title: string;
+  summary: string | null;
+  source: string;
+  link: string;
+  pubDate: string;
+  imageUrl: string | null;
+  origin: 'article' | 'finnhub';
+}
+
+/**
+ * Article fields used for the related headlines
+ */
+interface MentionedArticle {
+  id: string;
+  title: string;
+  summary: string | null;
+  source: string;
+  link: string;
+  canonical_url: string | null;
+  pub_date: string;
+  image_url: string | null;
+}
+
+/**
+ * Whether a symbol is one of the stocks on the finance page
+ */
+export function isEnergyStockSymbol(symbol: string): boolean {
+  return ENERGY_STOCK_SYMBOLS.some((s) => s.symbol === symbol.toUpperCase());
+}
+
+/**
+ * Count articles mentioning each ticker
+ *
+ * Uses the article's publication date, not when the entity was stored.
+ *
+ * @param tickers - Stock symbols (e.g., ['XOM', 'CVX'])
+ * @returns Counts per ticker (zero for tickers without mentions)
+ */
+export async function getTickerMentionCounts(
+  tickers: string[]
+): Promise<{ data: Record<string, TickerMentionCounts>; error: string | null }> {
+  const counts: Record<string, TickerMentionCounts> = {};
+  const symbols = Array.from(new Set(tickers.map((t) => t.toUpperCase())));
+  for (const symbol of symbols) {
+    counts[symbol] = { last24h: 0, last7d: 0 };
+  }
+  if (symbols.length === 0) {
+    return { data: counts, error: null };
+  }
+
+  const now = Date.now();
+  const since = new Date(now - STOCK_NEWS_WINDOW_DAYS * DAY_MS).toISOString();
+  const { data, error } = await getSupabase()
+    .from('article_entities')
+    .select<string, { ticker: string; articles: { pub_date: string } }>('ticker, articles!inner(pub_date)')
+    .in('ticker', symbols)
+    .gte('articles.pub_date', since)
+    .limit(MAX_MENTION_ROWS);
+
+  if (error) {
+    return { data: counts, error: error.message };
+  }
+
+  for (const row of data || []) {
+    const entry = counts[row.ticker];
+    if (!entry) continue;
+    entry.last7d++;
+    if (now - new Date(row.articles.pub_date).getTime() <= DAY_MS) {
+      entry.last24h++;
+    }
+  }
+
+  return { data: counts, error: null };
+}
+
+/**
+ * Related headlines for a stock: stored articles mentioning the company,
+ * merged with Finnhub company news, newest first
+ *
+ * Finnhub errors (missing key, rate limit) only drop its items.
+ *
+ * @param symbol - Stock symbol (e.g., 'XOM')
+ * @param limit - Max headlines to return
+ */
+export async function getStockNews(
+  symbol: string,
+  limit = 20
+): Promise<{
+  data: { items: StockNewsItem[]; mentions: TickerMentionCounts; finnhubDuplicates: number } | null;
+  error: string | null;
+}> {
+  const ticker = symbol.toUpperCase();
+  const now = new Date();
+  const since = new Date(now.getTime() - STOCK_NEWS_WINDOW_DAYS * DAY_MS);
+
+  const [articlesResult, companyNews] = await Promise.all([
+    getSupabase()
+      .from('articles')
+      .select<string, MentionedArticle & { article_entities: unknown }>(
+        'id, title, summary, source, link, canonical_url, pub_date, image_url, article_entities!inner(ticker)'
+      )
+      .eq('article_entities.ticker', ticker)
+      .gte('pub_date', since.toISOString())
+      .order('pub_date', { ascending: false })
+      .limit(MAX_MENTION_ROWS),
+    // Finnhub takes YYYY-MM-DD dates
+    fetchCompanyNews(ticker, since.toISOString().slice(0, 10), now.toISOString().slice(0, 10)),
+  ]);
+
+  if (articlesResult.error) {
+    return { data: null, error: articlesResult.error.message };
+  }
+
+  const articles = articlesResult.data || [];
+  const knownUrls = new Set<string>();
+  const knownTitles = new Set<string>();
+  const mentions: TickerMentionCounts = { last24h: 0, last7d: articles.length };
+
+  const items: StockNewsItem[] = articles.map((article) => {
+    knownUrls.add(article.canonical_url || canonicalizeUrl(article.link));
+    knownTitles.add(getTitleKey(article.title));
+    if (now.getTime() - new Date(article.pub_date).getTime() <= DAY_MS) {
+      mentions.last24h++;
+    }
+    return {
+      id: article.id,
+      title: article.title,
+      summary: article.summary,
+      source: article.source,
+      link: article.link,
+      pubDate: article.pub_date,
+      imageUrl: article.image_url,
+      origin: 'article',
+    };
+  });
+
+  // Stored articles not linked to the ticker
+  const finnhubNews = companyNews.filter((news) => news.headline && news.url);
+  const [storedUrls, storedTitles] = await Promise.all([
+    getExistingCanonicalUrls(finnhubNews.map((news) => canonicalizeUrl(news.url))),
+    getExistingArticleTitles(finnhubNews.map((news) => news.headline)),
+  ]);
+  if (storedUrls.error || storedTitles.error) {
+    console.warn(`[stockNews] Stored article lookup failed for ${ticker}:`, storedUrls.error || storedTitles.error);
+  }
+  storedUrls.data.forEach((url) => knownUrls.add(url));
+  storedTitles.data.forEach((title) => knownTitles.add(getTitleKey(title)));
+
+  let finnhubDuplicates = 0;
+  for (const news of finnhubNews) {
+    const url = canonicalizeUrl(news.url);
+    const titleKey = getTitleKey(news.headline);
+    if (knownUrls.has(url) || (titleKey && knownTitles.has(titleKey))) {
+      finnhubDuplicates++;
+      continue;
+    }
+    // Finnhub can list one story twice as well
+    knownUrls.add(url);
+    knownTitles.add(titleKey);
+
+    items.push({
+      id: `finnhub-${news.id}`,
+      title: news.headline,
+      summary: news.summary || null,
+      source: news.source,
+      link: news.url,
+      pubDate: new Date(news.datetime * 1000).toISOString(),
+      imageUrl: news.image || null,
+      origin: 'finnhub',
+    });
+  }
+
+  items.sort((a, b) => new Date(b.pubDate).getTime() - new Date(a.pubDate).getTime());
+
+  return {
+    data: { items: items.slice(0, limit), mentions, finnhubDuplicates },
+    error: null,
+  };
+}
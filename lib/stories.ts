@@ -0,0 +1,305 @@
+/**
+ * Story Clustering
+ *
+ * Groups coverage of the same event from several sources (e.g., a DOE
+ * announcement covered by EIA, Utility Dive and Power Magazine) into one
+ * row of the `stories` table, linked via articles.story_id.
+ *
+ * Runs after each ingestion: every new article joins the best matching
+ * story of an article published within STORY_WINDOW_HOURS, or starts a new
+ * story. Two articles match when
+ * - their MinHash similarity (title + lede words) is >= STORY_SIMILARITY_THRESHOLD, or
+ * - they share a regulatory docket ID, or
+ * - their similarity is >= STORY_MIN_SIMILARITY and they share at least
+ *   MIN_SHARED_ENTITIES entities (agencies, companies, figures such as "$7 billion")
+ *
+ * Near-duplicates never get this far (see lib/fingerprint.ts) - this is
+ * about different write-ups of one event.
+ */
+
+import { randomUUID } from 'crypto';
+import { getSupabase } from './db';
+import { estimateSimilarity } from './fingerprint';
+import { StoryRow } from '@/types/article';
+
+/**
+ * Max time between two articles of one story
+ */
+export const STORY_WINDOW_HOURS = 72;
+
+const STORY_SIMILARITY_THRESHOLD = 0.5;
+const STORY_MIN_SIMILARITY = 0.2;
+const MIN_SHARED_ENTITIES = 2;
+const MAX_CANDIDATES = 2000;
+
+// Capitalized words that start headlines without naming anything
+const NON_ENTITY_WORDS = new Set([
+  'a', 'after', 'an', 'as', 'at', 'by', 'for', 'from', 'how', 'in', 'new',
+  'of', 'on', 'over', 'the', 'to', 'what', 'why', 'with',
+]);
+
+// Figures with a currency or unit ("$7 billion", "500 MW", "2.5 bcm")
+const FIGURE_PATTERN =
+  /(?:[$€£]\s?\d[\d,.]*(?:\s?(?:billion|million|bn|mn|b|m)\b)?|\b\d[\d,.]*\s?(?:%|billion|million|bn|gw|mw|kw|twh|gwh|mwh|bcm|mtpa|bpd|barrels)\b)/gi;
+
+/**
+ * Article fields used for clustering
+ */
+interface ClusterArticle {
+  id: string;
+  title: string;
+  source: string;
+  pub_date: string;
+  story_id: string | null;
+  minhash: number[] | null;
+  docket_ids: string[] | null;
+}
+
+const CLUSTER_COLUMNS = 'id, title, source, pub_date, story_id, minhash, docket_ids';
+
+/**
+ * Extract entities from a headline
+ *
+ * Acronyms (DOE, FERC, LNG), figures with a unit, docket IDs and - for
+ * sentence-case headlines - capitalized names. In Title Case headlines
+ * every word is capitalized, so only acronyms and figures are used.
+ *
+ * @param title - Article title
+ * @param docketIds - Docket IDs of the article (optional)
+ * @returns Lowercased entity keys
+ */
+export function extractStoryEntities(title: string, docketIds?: string[] | null): Set<string> {
+  const entities = new Set<string>((docketIds || []).map((id) => `docket:${id.toUpperCase()}`));
+
+  for (const match of Array.from(title.matchAll(FIGURE_PATTERN))) {
+    // "$7 billion", "$7bn" and "$7B" are one figure
+    entities.add(
+      match[0]
+        .toLowerCase()
+        .replace(/[\s,]/g, '')
+        .replace(/^([$€£][\d.]+)(billion|bn|b)$/, '$1bn')
+        .replace(/^([$€£][\d.]+)(million|mn|m)$/, '$1mn')
+    );
+  }
+
+  const words = title.split(/[^A-Za-z0-9&'’-]+/).filter(Boolean);
+  const capitalized = words.filter((word) => /^[A-Z]/.test(word));
+  const isTitleCase = capitalized.length > words.length / 2;
+
+  words.forEach((word, index) => {
+    const clean = word.replace(/['’]s$/, '');
+    if (/^[A-Z][A-Z0-9&]+$/.test(clean)) {
+      entities.add(clean.toLowerCase());
+    } else if (!isTitleCase && index > 0 && /^[A-Z][a-z]/.test(clean) && !NON_ENTITY_WORDS.has(clean.toLowerCase())) {
+      entities.add(clean.toLowerCase());
+    }
+  });
+
+  return entities;
+}
+
+/**
+ * Score how well an article matches another (null = not the same story)
+ */
+function scoreStoryMatch(article: ClusterArticle, other: ClusterArticle): number | null {
+  const hoursApart = Math.abs(new Date(article.pub_date).getTime() - new Date(other.pub_date).getTime()) / 3600000;
+  if (hoursApart > STORY_WINDOW_HOURS) {
+    return null;
+  }
+
+  const similarity = article.minhash && other.minhash ? estimateSimilarity(article.minhash, other.minhash) : 0;
+  const entities = extractStoryEntities(article.title, article.docket_ids);
+  const otherEntities = extractStoryEntities(other.title, other.docket_ids);
+  const shared = Array.from(entities).filter((entity) => otherEntities.has(entity));
+  const sharesDocket = shared.some((entity) => entity.startsWith('docket:'));
+
+  if (
+    similarity >= STORY_SIMILARITY_THRESHOLD ||
+    sharesDocket ||
+    (similarity >= STORY_MIN_SIMILARITY && shared.length >= MIN_SHARED_ENTITIES)
+  ) {
+    return similarity + 0.1 * shared.length;
+  }
+  return null;
+}
+
+/**
+ * Load articles by ID in chunks
+ */
+async function getClusterArticlesById(ids: string[]): Promise<{ data: ClusterArticle[]; error: string | null }> {
+  const supabase = getSupabase();
+  const articles: ClusterArticle[] = [];
+
+  // Chunk to keep the PostgREST query string short
+  const chunkSize = 200;
+  for (let i = 0; i < ids.length; i += chunkSize) {
+    const { data, error } = await supabase
+      .from('articles')
+      .select(CLUSTER_COLUMNS)
+      .in('id', ids.slice(i, i + chunkSize));
+
+    if (error) {
+      return { data: [], error: error.message };
+    }
+    articles.push(...((data as ClusterArticle[]) || []));
+  }
+
+  return { data: articles, error: null };
+}
+
+/**
+ * Recompute counts, sources, dates and lead article of stories
+ *
+ * @param storyIds - Stories whose articles changed
+ */
+export async function refreshStories(storyIds: string[]): Promise<{ error: string | null }> {
+  if (storyIds.length === 0) {
+    return { error: null };
+  }
+
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('articles')
+    .select('id, title, source, pub_date, story_id')
+    .in('story_id', storyIds)
+    .order('pub_date', { ascending: true });
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  const byStory = new Map<string, { id: string; title: string; source: string; pub_date: string }[]>();
+  for (const row of (data as { id: string; title: string; source: string; pub_date: string; story_id: string }[]) || []) {
+    byStory.set(row.story_id, [...(byStory.get(row.story_id) || []), row]);
+  }
+
+  const now = new Date().toISOString();
+  const rows: Omit<StoryRow, 'created_at'>[] = [];
+  byStory.forEach((articles, id) => {
+    // Earliest article leads (usually the primary source's announcement)
+    const lead = articles[0];
+    const sources = Array.from(new Set(articles.map((a) => a.source)));
+    rows.push({
+      id,
+      title: lead.title,
+      lead_article_id: lead.id,
+      article_count: articles.length,
+      source_count: sources.length,
+      sources,
+      first_pub_date: lead.pub_date,
+      last_pub_date: articles[articles.length - 1].pub_date,
+      updated_at: now,
+    });
+  });
+
+  if (rows.length === 0) {
+    return { error: null };
+  }
+
+  const { error: upsertError } = await supabase.from('stories').upsert(rows, { onConflict: 'id' });
+  return { error: upsertError ? upsertError.message : null };
+}
+
+/**
+ * Assign articles without a story to an existing or new story
+ *
+ * Articles are processed oldest first, so articles of the same run can
+ * cluster with each other. Articles that already have a story are left alone.
+ *
+ * @param articleIds - IDs of newly ingested articles
+ * @returns Number of articles assigned and stories created
+ */
+export async function assignArticlesToStories(
+  articleIds: string[]
+): Promise<{ assigned: number; created: number; error: string | null }> {
+  if (articleIds.length === 0) {
+    return { assigned: 0, created: 0, error: null };
+  }
+
+  try {
+    const supabase = getSupabase();
+
+    const { data: loaded, error: loadError } = await getClusterArticlesById(Array.from(new Set(articleIds)));
+    if (loadError) {
+      return { assigned: 0, created: 0, error: loadError };
+    }
+
+    const pending = loaded
+      .filter((a) => !a.story_id)
+      .sort((a, b) => new Date(a.pub_date).getTime() - new Date(b.pub_date).getTime());
+    if (pending.length === 0) {
+      return { assigned: 0, created: 0, error: null };
+    }
+
+    // Clustered articles around the time range of this batch
+    const windowMs = STORY_WINDOW_HOURS * 60 * 60 * 1000;
+    const since = new Date(new Date(pending[0].pub_date).getTime() - windowMs).toISOString();
+    const { data: recent, error: recentError } = await supabase
+      .from('articles')
+      .select(CLUSTER_COLUMNS)
+      .not('story_id', 'is', null)
+      .gte('pub_date', since)
+      .order('pub_date', { ascending: false })
+      .limit(MAX_CANDIDATES);
+
+    if (recentError) {
+      return { assigned: 0, created: 0, error: recentError.message };
+    }
+
+    const clustered: ClusterArticle[] = (recent as ClusterArticle[]) || [];
+    const newStories: Omit<StoryRow, 'created_at' | 'updated_at'>[] = [];
+    const idsByStory = new Map<string, string[]>();
+
+    for (const article of pending) {
+      let best: { storyId: string; score: number } | null = null;
+      for (const other of clustered) {
+        const score = scoreStoryMatch(article, other);
+        if (score !== null && other.story_id && (!best || score > best.score)) {
+          best = { storyId: other.story_id, score };
+        }
+      }
+
+      let storyId = best?.storyId;
+      if (!storyId) {
+        storyId = randomUUID();
+        newStories.push({
+          id: storyId,
+          title: article.title,
+          lead_article_id: article.id,
+          article_count: 1,
+          source_count: 1,
+          sources: [article.source],
+          first_pub_date: article.pub_date,
+          last_pub_date: article.pub_date,
+        });
+      }
+
+      clustered.push({ ...article, story_id: storyId });
+      idsByStory.set(storyId, [...(idsByStory.get(storyId) || []), article.id]);
+    }
+
+    // Stories first (articles.story_id references stories.id)
+    if (newStories.length > 0) {
+      const { error } = await supabase.from('stories').insert(newStories);
+      if (error) {
+        return { assigned: 0, created: 0, error: error.message };
+      }
+    }
+
+    let assigned = 0;
+    for (const [storyId, ids] of Array.from(idsByStory)) {
+      const { error } = await supabase.from('articles').update({ story_id: storyId }).in('id', ids);
+      if (error) {
+        return { assigned, created: newStories.length, error: error.message };
+      }
+      assigned += ids.length;
+    }
+
+    const { error: refreshError } = await refreshStories(Array.from(idsByStory.keys()));
+    return { assigned, created: newStories.length, error: refreshError };
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[stories] Clustering error:', errorMsg);
+    return { assigned: 0, created: 0, error: errorMsg };
+  }
+}
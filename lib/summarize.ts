@@ -1,133 +1,293 @@
 /**
  * AI Summarization Module
  * 
- * Uses OpenAI to generate concise summaries of energy policy articles.
+ * Generates concise summaries of energy policy articles through the
+ * configured LLM provider (see lib/llm.ts): OpenAI, an OpenAI-compatible
+ * server, or the offline extractive summarizer.
  * Summaries are 2-3 sentences focused on compliance and energy security implications.
  * 
+ * API summaries are cached by content hash (lib/summaryCache.ts); spending
+ * limits are enforced by the callers (lib/summaryBudget.ts).
+ * 
  * IMPORTANT: This module is ONLY called during ingestion, never at page load.
  */
 
-import OpenAI from 'openai';
+import { getLLMProvider, LLMResult, RateLimitInfo, UsageEstimate } from './llm';
+import { extractiveSummary } from './extractive';
+import { getCachedSummary, getSummaryContentHash, saveCachedSummary } from './summaryCache';
+import { MarketSentiment, StructuredSummary, SummaryDeadline } from '@/types/article';
 
 // Check if we're in development mode
 const isDev = process.env.NODE_ENV !== 'production';
 
 /**
- * Lazy-initialized OpenAI client
+ * Result of a summarization attempt
  */
-let openaiClient: OpenAI | null = null;
+export interface SummarizeResult {
+  success: boolean;
+  summary?: string;
+  structured?: StructuredSummary; // Structured mode only
+  error?: string;
+  tokensUsed?: number;
+  costUsd?: number;  // Estimated API cost
+  cached?: boolean;  // Served from the summary cache (no tokens spent)
+  rateLimit?: RateLimitInfo; // Latest rate-limit headers (API providers only)
+  rateLimited?: boolean;     // HTTP 429 - back off before the next call
+  retryable?: boolean;       // Transient failure, worth another attempt
+  retryAfterMs?: number;
+}
 
-function getOpenAI(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is not set');
-    }
-    openaiClient = new OpenAI({ apiKey });
+/**
+ * Summarization options
+ */
+export interface SummarizeOptions {
+  structured?: boolean; // Also return key points, organizations, deadlines and sentiment
+  publishedAt?: string; // Article date (resolves deadlines without a year)
+  refreshCache?: boolean; // Ignore a cached summary (the new one replaces it)
+}
+
+const SENTIMENTS: MarketSentiment[] = ['bullish', 'bearish', 'neutral'];
+const MAX_KEY_POINTS = 5;
+const MAX_ORGANIZATIONS = 10;
+const MAX_DEADLINES = 5;
+
+/**
+ * Non-empty trimmed strings of an array (others dropped), or null if not an array
+ */
+function toStringList(value: unknown, max: number): string[] | null {
+  if (!Array.isArray(value)) return null;
+  const items = value
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return Array.from(new Set(items)).slice(0, max);
+}
+
+/**
+ * Validate a structured summary returned by a provider
+ * 
+ * The summary, sentiment and the three lists are required. Invalid list
+ * entries (non-strings, deadlines without a real YYYY-MM-DD date) are
+ * dropped rather than failing the whole summary.
+ * 
+ * @param value - Parsed JSON
+ * @returns Normalized structured summary, or an error
+ */
+export function validateStructuredSummary(
+  value: unknown
+): { data: StructuredSummary | null; error: string | null } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { data: null, error: 'Structured summary must be an object' };
   }
-  return openaiClient;
+  const raw = value as Record<string, unknown>;
+
+  const summary = typeof raw.summary === 'string' ? raw.summary.trim() : '';
+  if (!summary) {
+    return { data: null, error: 'Missing summary' };
+  }
+
+  const sentiment = typeof raw.sentiment === 'string' ? raw.sentiment.trim().toLowerCase() : '';
+  if (!SENTIMENTS.includes(sentiment as MarketSentiment)) {
+    return { data: null, error: `Invalid sentiment: ${String(raw.sentiment)}` };
+  }
+
+  const keyPoints = toStringList(raw.keyPoints, MAX_KEY_POINTS);
+  const organizations = toStringList(raw.organizations, MAX_ORGANIZATIONS);
+  if (!keyPoints || !organizations || !Array.isArray(raw.deadlines)) {
+    return { data: null, error: 'keyPoints, organizations and deadlines must be arrays' };
+  }
+
+  const deadlines: SummaryDeadline[] = [];
+  for (const item of raw.deadlines) {
+    const deadline = item as { date?: unknown; description?: unknown };
+    if (typeof deadline?.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(deadline.date)) continue;
+    const date = new Date(`${deadline.date}T00:00:00Z`);
+    if (isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== deadline.date) continue;
+    deadlines.push({
+      date: deadline.date,
+      description: typeof deadline.description === 'string' ? deadline.description.trim() : '',
+    });
+  }
+  deadlines.sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    data: {
+      summary,
+      keyPoints,
+      organizations,
+      deadlines: deadlines.slice(0, MAX_DEADLINES),
+      sentiment: sentiment as MarketSentiment,
+    },
+    error: null,
+  };
 }
 
 /**
- * Get the model to use for summarization
- * Defaults to gpt-4o-mini for cost efficiency
+ * Retry hints of a failed provider call
  */
-function getModel(): string {
-  return process.env.OPENAI_MODEL || 'gpt-4o-mini';
+function retryHints(result: LLMResult<unknown>): Pick<SummarizeResult, 'rateLimit' | 'rateLimited' | 'retryable' | 'retryAfterMs'> {
+  return {
+    rateLimit: result.rateLimit,
+    rateLimited: result.rateLimited,
+    retryable: result.retryable,
+    retryAfterMs: result.retryAfterMs,
+  };
 }
 
 /**
- * System prompt for energy policy summarization
+ * Log a failed provider call (extractive misses are expected, not errors)
  */
-const SYSTEM_PROMPT = `You are an expert energy policy analyst. Your task is to summarize news articles about U.S. energy policy for busy professionals in the energy sector.
-
-Guidelines:
-- Write exactly 2-3 concise sentences
-- Focus on key policy changes, regulatory impacts, or market implications
-- Highlight compliance requirements or deadlines when mentioned
-- Note any implications for energy security or grid reliability
-- Use professional, objective language
-- Do NOT include phrases like "This article discusses" or "The summary is"
-- Start directly with the key information
-
-Your audience includes:
-- Energy company executives
-- Regulatory compliance officers
-- Policy analysts
-- Grid operators`;
+function logFailure(remote: boolean, errorMsg: string): void {
+  if (remote) {
+    console.error(`[summarize] ❌ Error: ${errorMsg}`);
+  } else if (isDev) {
+    console.log(`[summarize] No extractive summary: ${errorMsg}`);
+  }
+}
 
 /**
- * Result of a summarization attempt
+ * Worst-case usage of summarizing an article with the configured provider
+ * (zero for extractive), for budget checks before calling summarizeArticle
+ * 
+ * @param title - Article title
+ * @param content - Article content or snippet (optional)
+ * @param source - Source name for context
+ * @param options - Structured mode and article date
  */
-export interface SummarizeResult {
-  success: boolean;
-  summary?: string;
-  error?: string;
-  tokensUsed?: number;
+export function estimateSummaryUsage(
+  title: string,
+  content?: string | null,
+  source?: string,
+  options: SummarizeOptions = {}
+): UsageEstimate {
+  return getLLMProvider().estimateSummary(
+    { title, content, source, publishedAt: options.publishedAt },
+    Boolean(options.structured)
+  );
 }
 
 /**
- * Summarize a single article using OpenAI
+ * Summarize a single article with the configured provider
+ * 
+ * In structured mode the provider returns JSON (STRUCTURED_SUMMARY_SCHEMA
+ * in lib/llm.ts); if that fails or doesn't validate, the plain summary is
+ * generated instead (without `structured`).
+ * 
+ * API summaries of the same content, provider, model, mode and publication
+ * day are served from the cache (lib/summaryCache.ts). A structured request
+ * whose JSON failed caches its plain fallback, which later structured
+ * requests don't accept - they try the structured call again.
  * 
  * @param title - Article title
  * @param content - Article content or snippet (optional)
  * @param source - Source name for context
+ * @param options - Structured mode and article date
  * @returns SummarizeResult with summary or error
  */
 export async function summarizeArticle(
   title: string,
-  content?: string,
-  source?: string
+  content?: string | null,
+  source?: string,
+  options: SummarizeOptions = {}
 ): Promise<SummarizeResult> {
-  try {
-    const openai = getOpenAI();
-    const model = getModel();
-
-    // Build the user prompt
-    const contentPart = content ? `\n\nContent:\n${content.slice(0, 2000)}` : '';
-    const sourcePart = source ? ` (from ${source})` : '';
-    
-    const userPrompt = `Summarize this energy news article${sourcePart}:
-
-Title: ${title}${contentPart}
-
-Provide a 2-3 sentence summary focusing on policy implications, compliance requirements, or market impacts.`;
+  const provider = getLLMProvider();
+  const request = { title, content, source, publishedAt: options.publishedAt };
+  let tokensUsed = 0;
+  let costUsd = 0;
 
-    if (isDev) {
-      console.log(`[summarize] Calling ${model} for: ${title.slice(0, 50)}...`);
+  const contentHash = provider.remote
+    ? getSummaryContentHash({
+        title,
+        content,
+        provider: provider.name,
+        model: provider.model,
+        structured: Boolean(options.structured),
+        publishedAt: options.publishedAt,
+      })
+    : null;
+  if (contentHash && !options.refreshCache) {
+    const cached = await getCachedSummary(contentHash);
+    if (cached && (!options.structured || cached.structured_summary)) {
+      if (isDev) {
+        console.log(`[summarize] Cache hit for: ${title.slice(0, 50)}...`);
+      }
+      return {
+        success: true,
+        summary: cached.summary,
+        structured: options.structured ? cached.structured_summary ?? undefined : undefined,
+        tokensUsed: 0,
+        costUsd: 0,
+        cached: true,
+      };
     }
+  }
 
-    const response = await openai.chat.completions.create({
-      model,
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: userPrompt },
-      ],
-      max_tokens: 200,
-      temperature: 0.3, // Lower temperature for more consistent outputs
+  // Remember a remote summary for the next article with the same content
+  const cache = async (summary: string, structured: StructuredSummary | null) => {
+    if (!contentHash) return;
+    await saveCachedSummary({
+      content_hash: contentHash,
+      provider: provider.name,
+      model: provider.model,
+      summary,
+      structured_summary: structured,
+      tokens_used: tokensUsed,
+      cost_usd: costUsd,
     });
+  };
+
+  if (isDev) {
+    console.log(`[summarize] Calling ${provider.name}/${provider.model} for: ${title.slice(0, 50)}...`);
+  }
+
+  if (options.structured) {
+    const result = await provider.summarizeStructured(request);
+    tokensUsed += result.tokensUsed;
+    costUsd += result.costUsd || 0;
 
-    const summary = response.choices[0]?.message?.content?.trim();
-    const tokensUsed = response.usage?.total_tokens || 0;
+    const { data: structured, error } = result.success
+      ? validateStructuredSummary(result.data)
+      : { data: null, error: result.error || `Empty response from ${provider.name}` };
 
-    if (!summary) {
-      return { success: false, error: 'Empty response from OpenAI' };
+    // Rate limited / server error: the plain call would fail the same way
+    if (!structured && result.retryable) {
+      logFailure(provider.remote, `Structured summary failed: ${error}`);
+      return { success: false, error: error || undefined, tokensUsed, costUsd, ...retryHints(result) };
     }
 
-    if (isDev) {
-      console.log(`[summarize] ✅ Generated ${summary.length} chars, ${tokensUsed} tokens`);
+    if (structured) {
+      if (isDev) {
+        console.log(`[summarize] ✅ Generated structured summary (${structured.keyPoints.length} key points, ${structured.deadlines.length} deadlines), ${tokensUsed} tokens`);
+      }
+      await cache(structured.summary, structured);
+      return { success: true, summary: structured.summary, structured, tokensUsed, costUsd, rateLimit: result.rateLimit };
     }
+    logFailure(provider.remote, `Structured summary failed, using plain summary: ${error}`);
+  }
 
-    return {
-      success: true,
-      summary,
-      tokensUsed,
-    };
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`[summarize] ❌ Error: ${errorMsg}`);
-    return { success: false, error: errorMsg };
+  const result = await provider.summarize(request);
+  tokensUsed += result.tokensUsed;
+  costUsd += result.costUsd || 0;
+
+  if (!result.success || !result.data) {
+    const errorMsg = result.error || `Empty response from ${provider.name}`;
+    logFailure(provider.remote, errorMsg);
+    return { success: false, error: errorMsg, tokensUsed, costUsd, ...retryHints(result) };
   }
+
+  if (isDev) {
+    console.log(`[summarize] ✅ Generated ${result.data.length} chars, ${tokensUsed} tokens`);
+  }
+
+  await cache(result.data, null);
+
+  return {
+    success: true,
+    summary: result.data,
+    tokensUsed,
+    costUsd,
+    rateLimit: result.rateLimit,
+  };
 }
 
 /**
@@ -141,7 +301,7 @@ Provide a 2-3 sentence summary focusing on policy implications, compliance requi
  * @returns Map of article id -> summary (or null if failed)
  */
 export async function summarizeArticles(
-  articles: { id: string; title: string; content?: string; source?: string }[],
+  articles: { id: string; title: string; content?: string | null; source?: string }[],
   delayMs: number = 200
 ): Promise<{
   results: Map<string, string | null>;
@@ -172,8 +332,8 @@ export async function summarizeArticles(
       failCount++;
     }
 
-    // Small delay between requests to respect rate limits
-    if (i < articles.length - 1 && delayMs > 0) {
+    // Small delay between requests to respect rate limits (API providers only)
+    if (i < articles.length - 1 && delayMs > 0 && getLLMProvider().remote) {
       await new Promise((resolve) => setTimeout(resolve, delayMs));
     }
   }
@@ -182,16 +342,25 @@ export async function summarizeArticles(
 }
 
 /**
- * Check if OpenAI is configured
+ * Check if an LLM API (OpenAI or OpenAI-compatible) is configured
+ * 
+ * Without one, summaries come from the extractive provider.
  */
 export function isOpenAIConfigured(): boolean {
-  return !!process.env.OPENAI_API_KEY;
+  return getLLMProvider().remote;
 }
 
 /**
- * Get a fallback summary when AI is unavailable
+ * Get a fallback summary when the provider fails
+ * 
+ * Best sentences of the content if there are any, else the title.
  */
-export function getFallbackSummary(title: string): string {
+export function getFallbackSummary(title: string, content?: string | null): string {
+  const extractive = extractiveSummary(title, content);
+  if (extractive) {
+    return extractive;
+  }
+
   // Use the title as a basic summary, truncated if needed
   const maxLength = 200;
   if (title.length <= maxLength) {
@@ -0,0 +1,300 @@
+/**
+ * Summarization Budget
+ *
+ * Caps what API summaries may spend per run and per UTC day. Callers of
+ * summarizeArticle check the worst-case estimate of each call against the
+ * budget first (estimateSummaryUsage in lib/summarize.ts); once a call
+ * doesn't fit, the budget stays exhausted for the rest of the run and the
+ * remaining articles are deferred:
+ *
+ * - they get a fallback summary for now
+ * - their IDs go to the `summary_queue` table
+ * - /api/resummarize summarizes queued articles first
+ *
+ * Daily usage is kept in `llm_usage_daily`, so limits hold across the cron
+ * runs of a day. Limits (unset = default, 'unlimited' = no limit):
+ * - SUMMARY_BUDGET_RUN_USD (default 0.50)
+ * - SUMMARY_BUDGET_DAY_USD (default 5.00)
+ * - SUMMARY_BUDGET_RUN_TOKENS (default unlimited)
+ * - SUMMARY_BUDGET_DAY_TOKENS (default unlimited)
+ *
+ * Extractive summaries cost nothing and are never deferred.
+ */
+
+import { getSupabase } from './db';
+import { getLLMProvider, UsageEstimate } from './llm';
+
+const DEFAULT_RUN_BUDGET_USD = 0.5;
+const DEFAULT_DAY_BUDGET_USD = 5;
+
+/**
+ * Spending limits (null = unlimited)
+ */
+export interface SummaryBudgetLimits {
+  runCostUsd: number | null;
+  dayCostUsd: number | null;
+  runTokens: number | null;
+  dayTokens: number | null;
+}
+
+/**
+ * Tokens, cost and number of calls spent
+ */
+export interface SummaryUsage {
+  tokens: number;
+  costUsd: number;
+  calls: number;
+}
+
+/**
+ * Budget of one run
+ */
+export interface SummaryBudget {
+  limits: SummaryBudgetLimits;
+  run: SummaryUsage;
+  day: SummaryUsage;          // Today, including this run
+  exhausted: string | null;   // Which limit was hit, once a call didn't fit
+  canAfford(estimate: UsageEstimate): boolean;
+  record(tokens: number, costUsd: number): void;
+}
+
+/**
+ * Row of the llm_usage_daily table
+ */
+interface LLMUsageDailyRow {
+  day: string;
+  tokens_used: number;
+  cost_usd: number;
+  calls: number;
+}
+
+/**
+ * Parse a limit from the environment
+ */
+function parseLimit(value: string | undefined, defaultValue: number | null): number | null {
+  const trimmed = value?.trim().toLowerCase();
+  if (!trimmed) return defaultValue;
+  if (trimmed === 'unlimited') return null;
+
+  const parsed = parseFloat(trimmed);
+  return isNaN(parsed) || parsed < 0 ? defaultValue : parsed;
+}
+
+/**
+ * Spending limits from the environment
+ */
+export function getSummaryBudgetLimits(): SummaryBudgetLimits {
+  return {
+    runCostUsd: parseLimit(process.env.SUMMARY_BUDGET_RUN_USD, DEFAULT_RUN_BUDGET_USD),
+    dayCostUsd: parseLimit(process.env.SUMMARY_BUDGET_DAY_USD, DEFAULT_DAY_BUDGET_USD),
+    runTokens: parseLimit(process.env.SUMMARY_BUDGET_RUN_TOKENS, null),
+    dayTokens: parseLimit(process.env.SUMMARY_BUDGET_DAY_TOKENS, null),
+  };
+}
+
+/**
+ * Current UTC day (YYYY-MM-DD)
+ */
+function getUsageDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Load today's usage
+ */
+async function getDailyUsage(day: string): Promise<{ data: SummaryUsage; error: string | null }> {
+  const empty: SummaryUsage = { tokens: 0, costUsd: 0, calls: 0 };
+  try {
+    const { data, error } = await getSupabase()
+      .from('llm_usage_daily')
+      .select('*')
+      .eq('day', day)
+      .maybeSingle();
+
+    if (error) {
+      return { data: empty, error: error.message };
+    }
+    const row = data as LLMUsageDailyRow | null;
+    return {
+      data: row ? { tokens: row.tokens_used, costUsd: Number(row.cost_usd), calls: row.calls } : empty,
+      error: null,
+    };
+  } catch (err) {
+    return { data: empty, error: err instanceof Error ? err.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Create the budget of a run, starting from today's stored usage
+ *
+ * If today's usage can't be loaded, only this run's spending counts
+ * against the daily limit.
+ */
+export async function createSummaryBudget(
+  limits: SummaryBudgetLimits = getSummaryBudgetLimits()
+): Promise<SummaryBudget> {
+  const run: SummaryUsage = { tokens: 0, costUsd: 0, calls: 0 };
+  let day: SummaryUsage = { tokens: 0, costUsd: 0, calls: 0 };
+
+  if (getLLMProvider().remote) {
+    const { data, error } = await getDailyUsage(getUsageDay());
+    if (error) {
+      console.error('[summaryBudget] Error loading daily usage:', error);
+    }
+    day = data;
+  }
+
+  const over = (limit: number | null, spent: number, next: number) => limit !== null && spent + next > limit;
+
+  const budget: SummaryBudget = {
+    limits,
+    run,
+    day,
+    exhausted: null,
+
+    canAfford(estimate) {
+      if (budget.exhausted) return false;
+      if (estimate.tokens === 0 && estimate.costUsd === 0) return true;
+
+      if (over(limits.runCostUsd, run.costUsd, estimate.costUsd)) {
+        budget.exhausted = `run budget of $${limits.runCostUsd} reached`;
+      } else if (over(limits.dayCostUsd, day.costUsd, estimate.costUsd)) {
+        budget.exhausted = `daily budget of $${limits.dayCostUsd} reached`;
+      } else if (over(limits.runTokens, run.tokens, estimate.tokens)) {
+        budget.exhausted = `run budget of ${limits.runTokens} tokens reached`;
+      } else if (over(limits.dayTokens, day.tokens, estimate.tokens)) {
+        budget.exhausted = `daily budget of ${limits.dayTokens} tokens reached`;
+      }
+      return !budget.exhausted;
+    },
+
+    record(tokens, costUsd) {
+      if (tokens === 0 && costUsd === 0) return;
+      for (const usage of [run, day]) {
+        usage.tokens += tokens;
+        usage.costUsd += costUsd;
+        usage.calls++;
+      }
+    },
+  };
+  return budget;
+}
+
+/**
+ * Add a run's spending to today's stored usage
+ *
+ * Re-reads the row right before writing, so overlapping runs lose at most
+ * the usage of the other run's last write.
+ */
+export async function saveSummaryUsage(budget: SummaryBudget): Promise<{ error: string | null }> {
+  if (budget.run.calls === 0) {
+    return { error: null };
+  }
+
+  const day = getUsageDay();
+  const { data: stored, error: loadError } = await getDailyUsage(day);
+  if (loadError) {
+    console.error('[summaryBudget] Error loading daily usage:', loadError);
+    return { error: loadError };
+  }
+
+  const row: LLMUsageDailyRow = {
+    day,
+    tokens_used: stored.tokens + budget.run.tokens,
+    cost_usd: stored.costUsd + budget.run.costUsd,
+    calls: stored.calls + budget.run.calls,
+  };
+
+  try {
+    const { error } = await getSupabase()
+      .from('llm_usage_daily')
+      .upsert({ ...row, updated_at: new Date().toISOString() }, { onConflict: 'day' });
+
+    if (error) {
+      console.error('[summaryBudget] Error saving daily usage:', error.message);
+      return { error: error.message };
+    }
+    return { error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[summaryBudget] Error saving daily usage:', message);
+    return { error: message };
+  }
+}
+
+/**
+ * Queue articles whose summary was deferred (articles must exist first)
+ *
+ * @param articleIds - Article IDs
+ * @param reason - Why they were deferred (e.g., the exhausted limit)
+ */
+export async function queueDeferredSummaries(
+  articleIds: string[],
+  reason: string
+): Promise<{ queued: number; error: string | null }> {
+  if (articleIds.length === 0) {
+    return { queued: 0, error: null };
+  }
+
+  const queuedAt = new Date().toISOString();
+  try {
+    const { error } = await getSupabase()
+      .from('summary_queue')
+      .upsert(
+        articleIds.map((id) => ({ article_id: id, reason, queued_at: queuedAt })),
+        { onConflict: 'article_id' }
+      );
+
+    if (error) {
+      console.error('[summaryBudget] Error queueing deferred summaries:', error.message);
+      return { queued: 0, error: error.message };
+    }
+    return { queued: articleIds.length, error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[summaryBudget] Error queueing deferred summaries:', message);
+    return { queued: 0, error: message };
+  }
+}
+
+/**
+ * IDs of queued articles, oldest first
+ *
+ * @param limit - Max IDs to return
+ */
+export async function getDeferredSummaryIds(limit: number): Promise<{ data: string[]; error: string | null }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from('summary_queue')
+      .select('article_id')
+      .order('queued_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      return { data: [], error: error.message };
+    }
+    return { data: (data || []).map((row: { article_id: string }) => row.article_id), error: null };
+  } catch (err) {
+    return { data: [], error: err instanceof Error ? err.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Remove articles from the queue once summarized
+ */
+export async function removeDeferredSummaries(articleIds: string[]): Promise<{ error: string | null }> {
+  if (articleIds.length === 0) {
+    return { error: null };
+  }
+
+  try {
+    const { error } = await getSupabase()
+      .from('summary_queue')
+      .delete()
+      .in('article_id', articleIds);
+
+    return { error: error ? error.message : null };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Unknown error' };
+  }
+}
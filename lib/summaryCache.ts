@@ -0,0 +1,109 @@
+/**
+ * Summary Cache
+ *
+ * Remote summaries are stored in the `summary_cache` table keyed by a hash
+ * of the article's title and snippet, so the same content is never paid for
+ * twice: syndicated copies, re-ingested items and /api/resummarize?force=true
+ * reuse the stored summary instead of calling the API again.
+ *
+ * The key also covers what the summary depends on besides the content:
+ * provider, model, mode (plain / structured) and the publication day
+ * (part of the prompt; structured deadlines like "within 30 days" are
+ * resolved against it). Switching LLM_PROVIDER or the model therefore
+ * never serves another model's summaries.
+ *
+ * Extractive summaries are free and deterministic, so they are not cached.
+ * Cache errors never fail a summary - the provider is called instead.
+ */
+
+import { createHash } from 'crypto';
+import { getSupabase } from './db';
+import { StructuredSummary } from '@/types/article';
+
+/**
+ * Row of the summary_cache table
+ */
+export interface SummaryCacheRow {
+  content_hash: string;
+  provider: string;
+  model: string;
+  summary: string;
+  structured_summary: StructuredSummary | null;
+  tokens_used: number;
+  cost_usd: number;
+  created_at?: string;
+}
+
+/**
+ * What a cached summary was generated from
+ */
+export interface SummaryCacheKey {
+  title: string;
+  content?: string | null;
+  provider: string;
+  model: string;
+  structured: boolean;
+  publishedAt?: string | null;
+}
+
+/**
+ * Hash of the content and settings a summary is generated from
+ *
+ * Whitespace and case of the text are normalized, so reformatted copies of
+ * a snippet share an entry. Only the day of publishedAt counts, as in the
+ * prompt.
+ */
+export function getSummaryContentHash(key: SummaryCacheKey): string {
+  const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const mode = key.structured ? 'structured' : 'plain';
+  const publishedDay = key.publishedAt ? key.publishedAt.slice(0, 10) : '';
+  return createHash('sha256')
+    .update([key.provider, key.model, mode, publishedDay, normalize(key.title), normalize(key.content || '')].join('\n'))
+    .digest('hex');
+}
+
+/**
+ * Load a cached summary
+ *
+ * @param contentHash - From getSummaryContentHash()
+ * @returns Cached row, or null when missing or the lookup failed
+ */
+export async function getCachedSummary(contentHash: string): Promise<SummaryCacheRow | null> {
+  try {
+    const { data, error } = await getSupabase()
+      .from('summary_cache')
+      .select('*')
+      .eq('content_hash', contentHash)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[summaryCache] Error loading cached summary:', error.message);
+      return null;
+    }
+    return (data as SummaryCacheRow | null) || null;
+  } catch (err) {
+    console.error('[summaryCache] Error loading cached summary:', err);
+    return null;
+  }
+}
+
+/**
+ * Store a summary (replaces an older entry for the same content)
+ */
+export async function saveCachedSummary(row: SummaryCacheRow): Promise<{ error: string | null }> {
+  try {
+    const { error } = await getSupabase()
+      .from('summary_cache')
+      .upsert(row, { onConflict: 'content_hash' });
+
+    if (error) {
+      console.error('[summaryCache] Error saving summary:', error.message);
+      return { error: error.message };
+    }
+    return { error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[summaryCache] Error saving summary:', message);
+    return { error: message };
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Summarization Worker Pool
+ *
+ * Summarizes articles with a bounded number of concurrent calls, so a run
+ * with dozens of new articles fits in the route's maxDuration:
+ *
+ * - Concurrency: SUMMARY_CONCURRENCY workers (default 4; 1 for extractive)
+ * - Rate limits: when the x-ratelimit-* headers show the requests or tokens
+ *   left running out, all workers pause until the limit resets (at most
+ *   MAX_BACKOFF_MS, and never past the deadline or an abort)
+ * - 429: all workers pause for the server's retry hint (or exponential
+ *   backoff) plus jitter, then the article is retried; 5xx / connection
+ *   errors retry that article only
+ * - Budget: articles that don't fit the summary budget are not started
+ *   (lib/summaryBudget.ts); calls already in flight can overshoot it by up
+ *   to concurrency - 1 calls
+ * - Deadline / signal: no article starts after the deadline or once the
+ *   signal is aborted (e.g., the task timed out); the rest is returned as
+ *   unfinished for the caller to queue
+ * - Checkpoint: called after each finished article, so callers can persist
+ *   progress before a timeout ends the run
+ */
+
+import { getLLMProvider, RateLimitInfo } from './llm';
+import { estimateSummaryUsage, summarizeArticle, SummarizeResult } from './summarize';
+import { SummaryBudget } from './summaryBudget';
+
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 16;
+const DEFAULT_MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+const TOKENS_PER_CALL = 1000; // Rough tokens of one summary call, for the header check
+
+/**
+ * Article to summarize
+ */
+export interface SummaryJob {
+  id: string;
+  title: string;
+  content?: string | null;
+  source?: string;
+  publishedAt?: string;
+}
+
+/**
+ * Pool options
+ */
+export interface SummaryPoolOptions {
+  concurrency?: number;     // Defaults to SUMMARY_CONCURRENCY
+  structured?: boolean;     // Structured summaries (default true)
+  refreshCache?: boolean;   // Ignore cached summaries
+  budget?: SummaryBudget;   // Articles over budget are deferred
+  deadline?: number;        // Epoch ms: no article starts after this
+  signal?: AbortSignal;     // No article starts once aborted
+  maxAttempts?: number;     // Per article, including retries (default 4)
+  checkpoint?: (job: SummaryJob, result: SummarizeResult) => Promise<void>;
+}
+
+/**
+ * Pool outcome
+ */
+export interface SummaryPoolResult {
+  results: Map<string, SummarizeResult>; // Final result per started article
+  deferred: string[];       // Not started - budget exhausted
+  unfinished: string[];     // Not started - deadline reached or aborted
+  tokensUsed: number;
+  costUsd: number;
+  cacheHits: number;
+  retries: number;
+  rateLimitPauses: number;  // 429s and exhausted header limits
+}
+
+/**
+ * Number of workers from SUMMARY_CONCURRENCY
+ */
+export function getSummaryConcurrency(): number {
+  const parsed = parseInt(process.env.SUMMARY_CONCURRENCY || '', 10);
+  if (isNaN(parsed) || parsed < 1) return DEFAULT_CONCURRENCY;
+  return Math.min(parsed, MAX_CONCURRENCY);
+}
+
+/**
+ * Backoff before attempt n + 1: the server's hint or exponential, capped,
+ * plus up to 50% jitter so workers don't retry in lockstep
+ */
+export function getBackoffMs(attempt: number, retryAfterMs?: number): number {
+  const base = Math.min(MAX_BACKOFF_MS, Math.max(retryAfterMs ?? 0, BASE_BACKOFF_MS * 2 ** (attempt - 1)));
+  return Math.round(base * (1 + Math.random() * 0.5));
+}
+
+/**
+ * Pause needed before the next call, from the latest rate-limit headers
+ *
+ * Capped at MAX_BACKOFF_MS: reset times can be minutes away (e.g., "6m0s"),
+ * and a call after a shorter pause at worst gets a 429 and backs off.
+ *
+ * @param rateLimit - Parsed headers
+ * @param concurrency - Calls that may start at once
+ * @returns Milliseconds (0 = no pause)
+ */
+export function getRateLimitPauseMs(rateLimit: RateLimitInfo | undefined, concurrency: number): number {
+  if (!rateLimit) return 0;
+
+  let pause = 0;
+  if (rateLimit.remainingRequests !== null && rateLimit.remainingRequests < concurrency) {
+    pause = Math.max(pause, rateLimit.resetRequestsMs ?? BASE_BACKOFF_MS);
+  }
+  if (rateLimit.remainingTokens !== null && rateLimit.remainingTokens < concurrency * TOKENS_PER_CALL) {
+    pause = Math.max(pause, rateLimit.resetTokensMs ?? BASE_BACKOFF_MS);
+  }
+  return Math.min(pause, MAX_BACKOFF_MS);
+}
+
+/**
+ * Wait, returning early once the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Summarize articles with a pool of workers
+ *
+ * Articles start in order; results arrive in completion order.
+ *
+ * @param jobs - Articles to summarize
+ * @param options - Concurrency, budget, deadline, signal and checkpoint
+ */
+export async function runSummaryPool(
+  jobs: SummaryJob[],
+  options: SummaryPoolOptions = {}
+): Promise<SummaryPoolResult> {
+  const provider = getLLMProvider();
+  const concurrency = provider.remote ? options.concurrency ?? getSummaryConcurrency() : 1;
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const { budget, deadline, signal, checkpoint } = options;
+  const stopped = () => Boolean(signal?.aborted || (deadline && Date.now() >= deadline));
+  const summaryOptions = { structured: options.structured ?? true, refreshCache: options.refreshCache };
+
+  const pool: SummaryPoolResult = {
+    results: new Map(),
+    deferred: [],
+    unfinished: [],
+    tokensUsed: 0,
+    costUsd: 0,
+    cacheHits: 0,
+    retries: 0,
+    rateLimitPauses: 0,
+  };
+
+  // Shared by all workers: no call starts before this time
+  let pausedUntil = 0;
+  const pause = (ms: number) => {
+    pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    pool.rateLimitPauses++;
+  };
+  // Never sleeps past the deadline or after an abort - callers check
+  // stopped() afterwards
+  const waitForPause = async () => {
+    while (Date.now() < pausedUntil && !stopped()) {
+      const until = deadline ? Math.min(pausedUntil, deadline) : pausedUntil;
+      await sleep(until - Date.now(), signal);
+    }
+  };
+
+  async function summarize(job: SummaryJob): Promise<SummarizeResult> {
+    let previous: SummarizeResult | undefined;
+    for (let attempt = 1; ; attempt++) {
+      await waitForPause();
+      // Retry cut short by the deadline or an abort: keep the last failure
+      if (previous && stopped()) {
+        return previous;
+      }
+      const result = await summarizeArticle(job.title, job.content, job.source, {
+        ...summaryOptions,
+        publishedAt: job.publishedAt,
+      });
+
+      pool.tokensUsed += result.tokensUsed || 0;
+      pool.costUsd += result.costUsd || 0;
+      budget?.record(result.tokensUsed || 0, result.costUsd || 0);
+
+      const headerPause = getRateLimitPauseMs(result.rateLimit, concurrency);
+      if (headerPause > 0) {
+        pause(headerPause);
+      }
+
+      if (result.success || !result.retryable || attempt >= maxAttempts) {
+        return result;
+      }
+
+      const backoff = getBackoffMs(attempt, result.retryAfterMs);
+      if (signal?.aborted || (deadline && Date.now() + backoff >= deadline)) {
+        return result;
+      }
+      console.warn(`[summaryPool] ${result.rateLimited ? 'Rate limited' : 'Transient error'}, retrying "${job.title.slice(0, 40)}..." in ${backoff}ms (attempt ${attempt + 1}/${maxAttempts})`);
+      pool.retries++;
+      if (result.rateLimited) {
+        pause(backoff);
+      } else {
+        await sleep(backoff, signal);
+      }
+      previous = result;
+    }
+  }
+
+  let next = 0;
+  async function worker(): Promise<void> {
+    while (next < jobs.length) {
+      const job = jobs[next++];
+
+      await waitForPause();
+      if (stopped()) {
+        pool.unfinished.push(job.id);
+        continue;
+      }
+      const estimate = estimateSummaryUsage(job.title, job.content, job.source, {
+        ...summaryOptions,
+        publishedAt: job.publishedAt,
+      });
+      if (budget && !budget.canAfford(estimate)) {
+        pool.deferred.push(job.id);
+        continue;
+      }
+
+      const result = await summarize(job);
+      if (result.cached) {
+        pool.cacheHits++;
+      }
+      pool.results.set(job.id, result);
+
+      if (checkpoint) {
+        await checkpoint(job, result);
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, jobs.length) }, () => worker()));
+  return pool;
+}
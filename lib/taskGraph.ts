@@ -0,0 +1,248 @@
+/**
+ * Task Graph Runner
+ *
+ * Cron jobs (the orchestrator, the per-market ingest routes) are defined as
+ * named tasks with dependencies instead of one try/catch, so a failing step
+ * only affects the steps that need it:
+ *
+ * - dependsOn: tasks that must finish first; by default they must also
+ *   succeed, else the task is skipped. With runOnFailure the task runs once
+ *   they finished, whatever their status (e.g., cache revalidation).
+ * - timeoutMs: the attempt fails with status 'timeout'; the task's signal is
+ *   aborted and the runner waits for the task to stop, so a retry, a
+ *   dependent task or the caller's job lock release never overlaps a
+ *   timed-out run that is still writing. Long tasks must check the signal.
+ * - retries: extra attempts after an error or timeout, retryDelayMs apart
+ * - deadline (per job): no attempt starts after it and each attempt's
+ *   timeout is cut to end by it, so the whole graph fits the route's
+ *   maxDuration; tasks left over are skipped
+ *
+ * Independent tasks run concurrently. Tasks share state through the
+ * context object passed to every run. Each task's status, attempts and
+ * duration end up in the job run record (lib/jobRuns.ts).
+ */
+
+import type { JobRunStatus, JobTaskTiming } from './jobRuns';
+
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+/**
+ * Per-attempt information passed to a task
+ */
+export interface TaskAttempt {
+  attempt: number;     // 1-based
+  signal: AbortSignal; // Aborted on timeout
+}
+
+/**
+ * One step of a job
+ */
+export interface TaskDefinition<C> {
+  name: string;
+  dependsOn?: string[];
+  runOnFailure?: boolean;  // Run even if a dependency failed or was skipped
+  timeoutMs?: number;
+  retries?: number;        // Extra attempts (default 0)
+  retryDelayMs?: number;
+  run: (context: C, attempt: TaskAttempt) => Promise<void>;
+}
+
+/**
+ * Job-wide options
+ */
+export interface TaskGraphOptions {
+  deadline?: number;       // Epoch ms: no attempt starts (or runs) past this
+}
+
+/**
+ * Outcome of a job
+ */
+export interface TaskGraphResult {
+  status: JobRunStatus;    // success = all tasks succeeded, error = none did, else partial
+  tasks: JobTaskTiming[];  // In definition order
+  durationMs: number;
+  error: string | null;    // First task error
+}
+
+/**
+ * Check names are unique, dependencies exist and there are no cycles
+ */
+export function validateTaskGraph<C>(tasks: TaskDefinition<C>[]): { error: string | null } {
+  const byName = new Map<string, TaskDefinition<C>>();
+  for (const task of tasks) {
+    if (byName.has(task.name)) {
+      return { error: `Duplicate task: ${task.name}` };
+    }
+    byName.set(task.name, task);
+  }
+
+  for (const task of tasks) {
+    const missing = (task.dependsOn || []).find((dep) => !byName.has(dep));
+    if (missing) {
+      return { error: `Task ${task.name} depends on unknown task ${missing}` };
+    }
+  }
+
+  // Depth-first search for a path back to a task being visited
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (name: string, path: string[]): string | null => {
+    if (state.get(name) === 'done') return null;
+    if (state.get(name) === 'visiting') return [...path, name].join(' -> ');
+    state.set(name, 'visiting');
+    for (const dep of byName.get(name)?.dependsOn || []) {
+      const cycle = visit(dep, [...path, name]);
+      if (cycle) return cycle;
+    }
+    state.set(name, 'done');
+    return null;
+  };
+  for (const task of tasks) {
+    const cycle = visit(task.name, []);
+    if (cycle) {
+      return { error: `Dependency cycle: ${cycle}` };
+    }
+  }
+
+  return { error: null };
+}
+
+/**
+ * Run one attempt, failing it after the timeout
+ *
+ * On timeout the signal is aborted and the attempt returns once the task
+ * has settled (whatever it then returns or throws).
+ *
+ * @param timeoutMs - The task's timeout, cut to the job deadline
+ */
+async function runAttempt<C>(
+  jobName: string,
+  task: TaskDefinition<C>,
+  context: C,
+  attempt: number,
+  timeoutMs: number | undefined
+): Promise<{ status: 'success' | 'error' | 'timeout'; error: string | null }> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<'timeout'>((resolve) => {
+    if (timeoutMs) {
+      timer = setTimeout(() => {
+        controller.abort();
+        resolve('timeout');
+      }, timeoutMs);
+    }
+  });
+
+  const run = task.run(context, { attempt, signal: controller.signal }).then(() => 'done' as const);
+
+  try {
+    const outcome = await Promise.race([run, timeout]);
+    if (outcome === 'timeout') {
+      // Still running until it notices the aborted signal
+      console.warn(`[${jobName}] Task ${task.name} timed out after ${timeoutMs}ms, waiting for it to stop...`);
+      await run.catch(() => undefined);
+      return { status: 'timeout', error: `Timed out after ${timeoutMs}ms` };
+    }
+    return { status: 'success', error: null };
+  } catch (error) {
+    return { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run a task graph
+ *
+ * An invalid graph (unknown dependency, cycle) runs nothing and returns an
+ * error.
+ *
+ * @param jobName - Log tag (e.g., 'orchestrator')
+ * @param tasks - Task definitions
+ * @param context - Shared state passed to every task
+ * @param options - Job deadline
+ */
+export async function runTaskGraph<C>(
+  jobName: string,
+  tasks: TaskDefinition<C>[],
+  context: C,
+  options: TaskGraphOptions = {}
+): Promise<TaskGraphResult> {
+  const { deadline } = options;
+  const startTime = Date.now();
+
+  const { error: graphError } = validateTaskGraph(tasks);
+  if (graphError) {
+    console.error(`[${jobName}] Invalid task graph: ${graphError}`);
+    return { status: 'error', tasks: [], durationMs: 0, error: graphError };
+  }
+
+  const byName = new Map(tasks.map((task) => [task.name, task]));
+  const running = new Map<string, Promise<JobTaskTiming>>();
+
+  const execute = async (task: TaskDefinition<C>): Promise<JobTaskTiming> => {
+    const deps = await Promise.all((task.dependsOn || []).map((dep) => start(dep)));
+    const failedDep = deps.find((dep) => dep.status !== 'success');
+    if (failedDep && !task.runOnFailure) {
+      console.log(`[${jobName}] Skipping ${task.name}: ${failedDep.name} ${failedDep.status}`);
+      return { name: task.name, status: 'skipped', durationMs: 0, attempts: 0, error: null };
+    }
+
+    const timeLeft = () => (deadline ? deadline - Date.now() : Infinity);
+    if (timeLeft() <= 0) {
+      console.log(`[${jobName}] Skipping ${task.name}: job deadline reached`);
+      return { name: task.name, status: 'skipped', durationMs: 0, attempts: 0, error: 'Job deadline reached' };
+    }
+
+    const taskStart = Date.now();
+    const maxAttempts = 1 + (task.retries ?? 0);
+    let result: { status: 'success' | 'error' | 'timeout'; error: string | null } = { status: 'error', error: null };
+    let attempt = 0;
+
+    while (attempt < maxAttempts) {
+      attempt++;
+      const remaining = timeLeft();
+      const timeoutMs = deadline ? Math.min(task.timeoutMs ?? remaining, remaining) : task.timeoutMs;
+      console.log(`[${jobName}] Task ${task.name}${attempt > 1 ? ` (attempt ${attempt}/${maxAttempts})` : ''}...`);
+      result = await runAttempt(jobName, task, context, attempt, timeoutMs);
+      if (result.status === 'success') break;
+
+      console.error(`[${jobName}] Task ${task.name} ${result.status}: ${result.error}`);
+      if (attempt < maxAttempts) {
+        const retryDelayMs = task.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+        if (timeLeft() <= retryDelayMs) {
+          console.log(`[${jobName}] No time left to retry ${task.name} before the job deadline`);
+          break;
+        }
+        await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
+      }
+    }
+
+    return {
+      name: task.name,
+      status: result.status,
+      durationMs: Date.now() - taskStart,
+      attempts: attempt,
+      error: result.error,
+    };
+  };
+
+  const start = (name: string): Promise<JobTaskTiming> => {
+    let promise = running.get(name);
+    if (!promise) {
+      promise = execute(byName.get(name) as TaskDefinition<C>);
+      running.set(name, promise);
+    }
+    return promise;
+  };
+
+  const timings = await Promise.all(tasks.map((task) => start(task.name)));
+  const succeeded = timings.filter((timing) => timing.status === 'success').length;
+
+  return {
+    status: succeeded === timings.length ? 'success' : succeeded === 0 ? 'error' : 'partial',
+    tasks: timings,
+    durationMs: Date.now() - startTime,
+    error: timings.find((timing) => timing.error)?.error ?? null,
+  };
+}
@@ -0,0 +1,60 @@
+-- Migration: Add feeds table (database-backed feed registry)
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- Moves RSS source configuration out of lib/feeds.ts so feeds can be
+-- enabled, disabled or fixed without a code deploy. Manage rows through
+-- the protected /api/admin/feeds routes.
+--
+-- SEEDING:
+-- The table is seeded from the arrays in lib/feeds.ts automatically on the
+-- first ingestion run, or explicitly with POST /api/admin/feeds/seed.
+
+CREATE TABLE IF NOT EXISTS public.feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Display name, also stored as articles.source
+  name TEXT NOT NULL UNIQUE,
+
+  -- RSS feed URL
+  url TEXT NOT NULL,
+
+  -- Whether to include in ingestion
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+
+  -- 'policy' or 'finance'
+  article_type TEXT NOT NULL DEFAULT 'policy' CHECK (article_type IN ('policy', 'finance')),
+
+  -- Market the coverage belongs to: 'US', 'MZ' or 'QA'
+  market TEXT NOT NULL DEFAULT 'US' CHECK (market IN ('US', 'MZ', 'QA')),
+
+  -- Where the publisher is based (e.g., 'US', 'MZ', 'AFRICA', 'GLOBAL')
+  region TEXT NULL,
+
+  -- 'official', 'trade', 'news' or 'aggregator'
+  trust_tier TEXT NOT NULL DEFAULT 'news' CHECK (trust_tier IN ('official', 'trade', 'news', 'aggregator')),
+
+  -- Free-form admin notes (e.g., why a feed is disabled)
+  notes TEXT NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.feeds IS 'RSS feed registry read by the ingestion pipeline';
+COMMENT ON COLUMN public.feeds.market IS 'Market the coverage belongs to (US, MZ, QA)';
+COMMENT ON COLUMN public.feeds.region IS 'Where the publisher is based; region = market means a local publisher';
+COMMENT ON COLUMN public.feeds.trust_tier IS 'official, trade, news or aggregator';
+
+CREATE INDEX IF NOT EXISTS idx_feeds_enabled ON public.feeds(enabled, article_type, market);
+
+ALTER TABLE public.feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON public.feeds
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.feeds TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.feeds TO authenticated;
@@ -0,0 +1,43 @@
+-- Migration: Add feed_fetch_state table for conditional GET
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- Stores each feed's ETag / Last-Modified validators so ingestion can send
+-- If-None-Match / If-Modified-Since and skip unchanged feeds (HTTP 304).
+-- Also records the last HTTP status and item count per feed.
+
+CREATE TABLE IF NOT EXISTS public.feed_fetch_state (
+  -- Feed name (matches feeds.name / articles.source)
+  feed_name TEXT PRIMARY KEY,
+
+  -- URL the validators belong to (validators are ignored if the feed URL changes)
+  url TEXT NOT NULL,
+
+  -- Cache validators from the last 200 response
+  etag TEXT NULL,
+  last_modified TEXT NULL,
+
+  -- Last HTTP status code (304 = not modified)
+  last_http_status INTEGER NULL,
+
+  -- Number of items in the last full (200) response
+  last_item_count INTEGER NULL,
+
+  -- When the feed was last fetched
+  last_fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.feed_fetch_state IS 'Per-feed HTTP fetch state for conditional GET';
+COMMENT ON COLUMN public.feed_fetch_state.etag IS 'ETag sent back as If-None-Match';
+COMMENT ON COLUMN public.feed_fetch_state.last_modified IS 'Last-Modified sent back as If-Modified-Since';
+
+ALTER TABLE public.feed_fetch_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON public.feed_fetch_state
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.feed_fetch_state TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.feed_fetch_state TO authenticated;
@@ -0,0 +1,34 @@
+-- Migration: Add feed health columns to feed_fetch_state
+-- Run this in Supabase SQL Editor (after 006_add_feed_fetch_state.sql)
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- Tracks consecutive failures per feed so ingestion can back off from
+-- broken sources (403s, HTML responses, 404s) and re-probe them later.
+-- Inspect with GET /api/feed-health.
+
+ALTER TABLE public.feed_fetch_state
+ADD COLUMN IF NOT EXISTS health_status TEXT NOT NULL DEFAULT 'healthy'
+  CHECK (health_status IN ('healthy', 'degraded', 'backoff', 'quarantined'));
+
+ALTER TABLE public.feed_fetch_state
+ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.feed_fetch_state
+ADD COLUMN IF NOT EXISTS last_success_at TIMESTAMPTZ NULL;
+
+ALTER TABLE public.feed_fetch_state
+ADD COLUMN IF NOT EXISTS last_failure_at TIMESTAMPTZ NULL;
+
+ALTER TABLE public.feed_fetch_state
+ADD COLUMN IF NOT EXISTS last_error TEXT NULL;
+
+ALTER TABLE public.feed_fetch_state
+ADD COLUMN IF NOT EXISTS last_error_class TEXT NULL;
+
+ALTER TABLE public.feed_fetch_state
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ NULL;
+
+COMMENT ON COLUMN public.feed_fetch_state.health_status IS 'healthy, degraded, backoff or quarantined';
+COMMENT ON COLUMN public.feed_fetch_state.last_error_class IS 'forbidden, not_found, rate_limited, http_client, http_server, html_response, parse_error, timeout or network';
+COMMENT ON COLUMN public.feed_fetch_state.next_attempt_at IS 'Ingestion skips the feed until this time';
@@ -0,0 +1,22 @@
+-- Migration: Add source kind and adapter config to feeds
+-- Run this in Supabase SQL Editor (after 005_add_feeds.sql)
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- Lets a feed be something other than RSS. 'html-list' sources scrape a
+-- news listing page (FERC, EPA) and 'json-api' sources map a JSON API,
+-- both using the per-feed adapter_config. Items from every kind go through
+-- the same normalize / dedup / categorize / summarize pipeline.
+--
+-- adapter_config shapes are documented in types/article.ts
+-- (HtmlListConfig, JsonApiConfig).
+
+ALTER TABLE public.feeds
+ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'rss'
+  CHECK (kind IN ('rss', 'html-list', 'json-api'));
+
+ALTER TABLE public.feeds
+ADD COLUMN IF NOT EXISTS adapter_config JSONB NULL;
+
+COMMENT ON COLUMN public.feeds.kind IS 'rss, html-list or json-api';
+COMMENT ON COLUMN public.feeds.adapter_config IS 'Selector / field-path config for html-list and json-api sources';
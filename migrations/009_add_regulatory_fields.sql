@@ -0,0 +1,40 @@
+-- Migration: Add regulatory fields to articles and the federal-register feed kind
+-- Run this in Supabase SQL Editor (after 008_add_feed_kind.sql)
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- Stores docket numbers, issuing agency, document type and comment deadline
+-- on articles. Federal Register sources fill all four; docket IDs are also
+-- extracted from every article's title and snippet (e.g. RM22-14,
+-- EPA-HQ-OAR-2021-0317) so coverage of the same proceeding can be linked.
+
+ALTER TABLE public.articles
+ADD COLUMN IF NOT EXISTS docket_ids TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.articles
+ADD COLUMN IF NOT EXISTS agency TEXT NULL;
+
+ALTER TABLE public.articles
+ADD COLUMN IF NOT EXISTS document_type TEXT NULL
+  CHECK (document_type IN ('proposed_rule', 'final_rule', 'notice', 'presidential_document'));
+
+ALTER TABLE public.articles
+ADD COLUMN IF NOT EXISTS comment_deadline DATE NULL;
+
+COMMENT ON COLUMN public.articles.docket_ids IS 'Regulatory docket IDs the article is filed under or mentions';
+COMMENT ON COLUMN public.articles.document_type IS 'proposed_rule, final_rule, notice or presidential_document';
+COMMENT ON COLUMN public.articles.comment_deadline IS 'Public comment period close date (Federal Register)';
+
+-- Look up related coverage by docket
+CREATE INDEX IF NOT EXISTS idx_articles_docket_ids ON public.articles USING GIN (docket_ids);
+
+-- Upcoming comment deadlines
+CREATE INDEX IF NOT EXISTS idx_articles_comment_deadline
+ON public.articles(comment_deadline)
+WHERE comment_deadline IS NOT NULL;
+
+-- Allow the federal-register feed kind
+ALTER TABLE public.feeds DROP CONSTRAINT IF EXISTS feeds_kind_check;
+ALTER TABLE public.feeds
+ADD CONSTRAINT feeds_kind_check
+  CHECK (kind IN ('rss', 'html-list', 'json-api', 'federal-register'));
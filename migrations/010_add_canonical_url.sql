@@ -0,0 +1,28 @@
+-- Migration: Add canonical_url to articles
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- Stores the canonical article URL alongside the feed link: tracking
+-- parameters (utm_*, fbclid...) stripped, host lowercased, Google News
+-- wrappers resolved to the publisher URL when the feed item exposes it, and
+-- <link rel="canonical"> from the page when the image scraper fetches it.
+--
+-- New article IDs hash the canonical URL, so the same story from Google
+-- News and from the publisher gets one ID. Rows stored before this keep
+-- their guid-based IDs; ingestion recognizes them by that legacy ID
+-- (generateLegacyArticleId), and skips items whose canonical_url is
+-- already stored.
+
+ALTER TABLE public.articles
+ADD COLUMN IF NOT EXISTS canonical_url TEXT NULL;
+
+COMMENT ON COLUMN public.articles.canonical_url IS 'Normalized article URL used for IDs and dedup';
+
+-- Backfill existing rows with their raw link (best effort until re-scraped;
+-- not canonicalized, so existing rows are matched by legacy ID instead)
+UPDATE public.articles
+SET canonical_url = link
+WHERE canonical_url IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_articles_canonical_url ON public.articles(canonical_url);
@@ -0,0 +1,24 @@
+-- Migration: Add near-duplicate fingerprint to articles
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- Replaces exact lowercase title matching with near-duplicate detection.
+-- Each article stores a MinHash signature over its normalized title and
+-- snippet words (lib/fingerprint.ts) plus LSH band keys derived from it.
+--
+-- Ingestion looks up recent articles sharing a band key (GIN index below),
+-- compares signatures, and skips items above the similarity threshold.
+-- Skipped items are reported as totalItemsNearDuplicates instead of being
+-- inserted. Existing rows have no fingerprint and only match on title.
+
+ALTER TABLE public.articles
+ADD COLUMN IF NOT EXISTS minhash INTEGER[] NULL;
+
+ALTER TABLE public.articles
+ADD COLUMN IF NOT EXISTS minhash_bands TEXT[] NULL;
+
+COMMENT ON COLUMN public.articles.minhash IS 'MinHash signature of normalized title + snippet words';
+COMMENT ON COLUMN public.articles.minhash_bands IS 'LSH band keys of minhash, used to find near-duplicate candidates';
+
+CREATE INDEX IF NOT EXISTS idx_articles_minhash_bands ON public.articles USING GIN (minhash_bands);
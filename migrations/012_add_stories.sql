@@ -0,0 +1,49 @@
+-- Migration: Add stories table for multi-source story clustering
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- When DOE announces something, EIA, Utility Dive and Power Magazine all
+-- cover it. A story groups that coverage: after each ingestion run,
+-- lib/stories.ts assigns every new article to the story of a similar
+-- article published within 72 hours (title/snippet similarity, shared
+-- entities and docket IDs) or starts a new story.
+--
+-- The Discover page uses getArticles({ groupByStory: true }) to show one
+-- lead card per story with "Also covered by N sources". Articles ingested
+-- before this migration have no story and are shown on their own.
+
+CREATE TABLE IF NOT EXISTS public.stories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  lead_article_id TEXT NULL REFERENCES public.articles(id) ON DELETE SET NULL,
+  article_count INTEGER NOT NULL DEFAULT 1,
+  source_count INTEGER NOT NULL DEFAULT 1,
+  sources TEXT[] NOT NULL DEFAULT '{}',
+  first_pub_date TIMESTAMPTZ NOT NULL,
+  last_pub_date TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.stories IS 'Clusters of articles covering the same event';
+COMMENT ON COLUMN public.stories.lead_article_id IS 'Earliest article of the story (shown as the lead card)';
+
+CREATE INDEX IF NOT EXISTS idx_stories_last_pub_date ON public.stories(last_pub_date DESC);
+
+ALTER TABLE public.stories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON public.stories
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.stories TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.stories TO authenticated;
+
+ALTER TABLE public.articles
+ADD COLUMN IF NOT EXISTS story_id UUID NULL REFERENCES public.stories(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.articles.story_id IS 'Story this article belongs to (multi-source coverage of one event)';
+
+CREATE INDEX IF NOT EXISTS idx_articles_story_id ON public.articles(story_id);
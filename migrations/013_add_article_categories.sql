@@ -0,0 +1,46 @@
+-- Migration: Add article_categories for multi-label categorization
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- The keyword categorizer now returns a ranked list of categories with
+-- normalized confidence (labels of an article sum to 1). An article about
+-- carbon capture at an LNG terminal gets both LNG and Emissions.
+--
+-- articles.category stays as the primary (rank 0) label for compatibility.
+-- Category filters (getArticles, Topics menu) match any label with
+-- confidence >= 0.25 via an inner join on this table.
+--
+-- Existing articles are backfilled with their primary category only;
+-- run /api/recategorize to compute all labels.
+
+CREATE TABLE IF NOT EXISTS public.article_categories (
+  article_id TEXT NOT NULL REFERENCES public.articles(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  confidence REAL NOT NULL CHECK (confidence >= 0 AND confidence <= 1),
+  rank SMALLINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (article_id, category)
+);
+
+COMMENT ON TABLE public.article_categories IS 'Ranked category labels per article (rank 0 = articles.category)';
+COMMENT ON COLUMN public.article_categories.confidence IS 'Share of the keyword score (0-1, labels of an article sum to 1)';
+
+CREATE INDEX IF NOT EXISTS idx_article_categories_category_confidence
+  ON public.article_categories(category, confidence);
+
+ALTER TABLE public.article_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON public.article_categories
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.article_categories TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.article_categories TO authenticated;
+
+-- Backfill: primary category with full confidence
+INSERT INTO public.article_categories (article_id, category, confidence, rank)
+SELECT id, category, 1, 0
+FROM public.articles
+ON CONFLICT (article_id, category) DO NOTHING;
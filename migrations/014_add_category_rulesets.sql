@@ -0,0 +1,50 @@
+-- Migration: Add versioned categorization rulesets
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- Keyword rules for categorization used to live in lib/categorize.ts, so
+-- every change needed a deploy and a blind /api/recategorize run. Rules are
+-- now versioned rulesets: the built-in one ships in
+-- lib/rules/category-rules.json, others are stored here.
+--
+-- Workflow: POST a candidate to /api/admin/category-rules, check the diff
+-- with /api/recategorize/dry-run?version=..., activate it (ingestion uses
+-- the active ruleset), then run /api/recategorize.
+--
+-- articles.category_rules_version records which ruleset produced each
+-- article's labels. Existing rows stay NULL until recategorized.
+
+CREATE TABLE IF NOT EXISTS public.category_rulesets (
+  version TEXT PRIMARY KEY,
+  rules JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  notes TEXT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  activated_at TIMESTAMPTZ NULL
+);
+
+COMMENT ON TABLE public.category_rulesets IS 'Versioned keyword rulesets for article categorization';
+COMMENT ON COLUMN public.category_rulesets.is_active IS 'Ruleset used by ingestion (none active = built-in ruleset)';
+
+-- At most one active ruleset
+CREATE UNIQUE INDEX IF NOT EXISTS idx_category_rulesets_single_active
+  ON public.category_rulesets(is_active)
+  WHERE is_active;
+
+ALTER TABLE public.category_rulesets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON public.category_rulesets
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.category_rulesets TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.category_rulesets TO authenticated;
+
+ALTER TABLE public.articles
+ADD COLUMN IF NOT EXISTS category_rules_version TEXT NULL;
+
+COMMENT ON COLUMN public.articles.category_rules_version IS 'Categorization ruleset version that produced the labels';
+
+CREATE INDEX IF NOT EXISTS idx_articles_category_rules_version ON public.articles(category_rules_version);
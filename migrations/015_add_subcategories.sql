@@ -0,0 +1,33 @@
+-- Migration: Add sub-topics (second level of the category taxonomy)
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- Categories get sub-topics: Nuclear (Infrastructure), Oil (LNG),
+-- Hydrogen and Grid Storage (Renewable Energy), Critical Minerals
+-- (Energy Policy). Before, nuclear, upstream oil, hydrogen and critical
+-- minerals news mostly fell through to 'Energy Policy'.
+--
+-- articles.subcategory is the sub-topic of the primary category;
+-- article_categories.subcategory is the sub-topic of each label, used by
+-- the sub-topic filter (getArticles, nested Topics chips).
+--
+-- Sub-topics come from keyword rules, so existing articles stay NULL
+-- until /api/recategorize is run.
+
+ALTER TABLE public.articles
+  ADD COLUMN IF NOT EXISTS subcategory TEXT;
+
+ALTER TABLE public.article_categories
+  ADD COLUMN IF NOT EXISTS subcategory TEXT;
+
+COMMENT ON COLUMN public.articles.subcategory IS 'Sub-topic of the primary category (e.g., Nuclear), NULL if none';
+COMMENT ON COLUMN public.article_categories.subcategory IS 'Sub-topic of this label, NULL if none';
+
+CREATE INDEX IF NOT EXISTS idx_articles_subcategory
+  ON public.articles(subcategory)
+  WHERE subcategory IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_article_categories_subcategory_confidence
+  ON public.article_categories(subcategory, confidence)
+  WHERE subcategory IS NOT NULL;
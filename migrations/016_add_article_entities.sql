@@ -0,0 +1,46 @@
+-- Migration: Add article_entities for named-entity links
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- Ingestion matches each article's title and snippet against a curated
+-- gazetteer (lib/entities.ts): companies (with aliases and tickers,
+-- including the stocks on the finance page), agencies (FERC, DOE, EPA...),
+-- US states, ISOs/RTOs (ERCOT, PJM, CAISO, MISO...) and countries.
+--
+-- One row per entity mentioned in an article, with a mention count.
+-- Used by the entity filters of getArticles and /api/finance/articles
+-- (?entity=company:xom or ?ticker=XOM).
+--
+-- Only articles ingested after this migration get entities.
+
+CREATE TABLE IF NOT EXISTS public.article_entities (
+  article_id TEXT NOT NULL REFERENCES public.articles(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL,          -- e.g., 'company:xom', 'agency:ferc', 'iso:ercot'
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('company', 'agency', 'state', 'iso', 'country')),
+  name TEXT NOT NULL,
+  ticker TEXT,
+  mention_count INTEGER NOT NULL DEFAULT 1 CHECK (mention_count > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (article_id, entity_id)
+);
+
+COMMENT ON TABLE public.article_entities IS 'Gazetteer entities (companies, agencies, states, ISOs, countries) mentioned per article';
+COMMENT ON COLUMN public.article_entities.mention_count IS 'Mentions in the title and snippet';
+
+CREATE INDEX IF NOT EXISTS idx_article_entities_entity_id
+  ON public.article_entities(entity_id);
+
+CREATE INDEX IF NOT EXISTS idx_article_entities_ticker
+  ON public.article_entities(ticker)
+  WHERE ticker IS NOT NULL;
+
+ALTER TABLE public.article_entities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON public.article_entities
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.article_entities TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.article_entities TO authenticated;
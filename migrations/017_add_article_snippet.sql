@@ -0,0 +1,20 @@
+-- Migration: Add cleaned feed snippet to articles
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- Ingestion keeps the feed item's excerpt (contentSnippet / content) with
+-- HTML, entities and feed boilerplate ("The post ... appeared first on ...",
+-- "Continue reading", trailing "[…]") stripped, capped at 1000 characters
+-- (cleanSnippet in lib/normalizeFeedItem.ts).
+--
+-- The snippet is passed to the summarizer and the categorizer (also by
+-- /api/resummarize and /api/recategorize), and article cards show it as
+-- the teaser when an article has no real summary.
+--
+-- Existing articles stay NULL.
+
+ALTER TABLE public.articles
+  ADD COLUMN IF NOT EXISTS snippet TEXT;
+
+COMMENT ON COLUMN public.articles.snippet IS 'Cleaned feed excerpt (HTML and boilerplate stripped), NULL if the feed had none';
@@ -0,0 +1,31 @@
+-- Migration: Add structured summaries to articles
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- Besides the 2-3 sentence summary, ingestion and /api/resummarize ask the
+-- summarizer for structured output (JSON schema in lib/llm.ts):
+--
+--   {
+--     "summary": "...",
+--     "keyPoints": ["...", "..."],
+--     "organizations": ["FERC", "PJM Interconnection"],
+--     "deadlines": [{ "date": "2026-12-01", "description": "Comments due" }],
+--     "sentiment": "bullish" | "bearish" | "neutral"
+--   }
+--
+-- Validated before saving (validateStructuredSummary in lib/summarize.ts).
+-- Large article cards show the key points and a badge for the next deadline.
+--
+-- NULL when the summarizer fell back to a plain summary; existing articles
+-- stay NULL until /api/resummarize?force=true is run.
+
+ALTER TABLE public.articles
+  ADD COLUMN IF NOT EXISTS structured_summary JSONB;
+
+COMMENT ON COLUMN public.articles.structured_summary IS 'Key points, organizations, deadlines and sentiment from the summarizer';
+
+-- "Articles with a deadline" / sentiment lookups
+CREATE INDEX IF NOT EXISTS idx_articles_structured_summary
+  ON public.articles USING GIN (structured_summary jsonb_path_ops)
+  WHERE structured_summary IS NOT NULL;
@@ -0,0 +1,84 @@
+-- Migration: Add summary cache, daily LLM usage and deferred summary queue
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- Keeps API summarization spending in check:
+--
+-- summary_cache: API summaries keyed by a SHA-256 hash of the article's
+-- title and snippet plus provider, model, mode (plain / structured) and
+-- publication day (lib/summaryCache.ts). Syndicated copies and
+-- /api/resummarize?force=true reuse them instead of paying again.
+--
+-- llm_usage_daily: tokens, estimated cost and calls per UTC day, so the
+-- daily budget (SUMMARY_BUDGET_DAY_USD / _TOKENS) holds across cron runs.
+--
+-- summary_queue: articles that got a fallback summary because the budget
+-- ran out during ingestion. /api/resummarize processes them first and
+-- removes them once summarized. Ingestion also queues each new article
+-- ('summary pending') until its summary is saved, so articles of a run
+-- that was killed mid-summarization are finished later.
+
+CREATE TABLE IF NOT EXISTS public.summary_cache (
+  content_hash TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  summary TEXT NOT NULL,
+  structured_summary JSONB,
+  tokens_used INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.summary_cache IS 'API summaries keyed by a hash of the content, provider, model, mode and publication day';
+
+ALTER TABLE public.summary_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON public.summary_cache
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.summary_cache TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.summary_cache TO authenticated;
+
+CREATE TABLE IF NOT EXISTS public.llm_usage_daily (
+  day DATE PRIMARY KEY,             -- UTC day
+  tokens_used BIGINT NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  calls INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.llm_usage_daily IS 'Summarization tokens and estimated cost per UTC day';
+
+ALTER TABLE public.llm_usage_daily ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON public.llm_usage_daily
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.llm_usage_daily TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.llm_usage_daily TO authenticated;
+
+CREATE TABLE IF NOT EXISTS public.summary_queue (
+  article_id TEXT PRIMARY KEY REFERENCES public.articles(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,             -- e.g., 'run budget of $0.5 reached'
+  queued_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.summary_queue IS 'Articles whose summary was deferred by the summarization budget';
+
+CREATE INDEX IF NOT EXISTS idx_summary_queue_queued_at
+  ON public.summary_queue(queued_at);
+
+ALTER TABLE public.summary_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON public.summary_queue
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.summary_queue TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.summary_queue TO authenticated;
@@ -0,0 +1,54 @@
+-- Migration: Add job_run_events for the full job run history
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- job_runs keeps one overwritten row per job (the "latest" pointer read by
+-- /api/job-status). This table is append-only: one row per run of the
+-- orchestrator or /api/ingest, with
+--   stats: the full IngestionStats (per-source breakdown, errors,
+--          summarization stats)
+--   tasks: per-task timings, e.g.
+--          [{"name": "ingestion", "status": "success", "durationMs": 41234}]
+--
+-- USAGE:
+--   GET /api/job-runs?job=orchestrator&status=error&page=2
+-- or
+--   SELECT ran_at, status, duration_ms FROM job_run_events
+--   WHERE job_name = 'orchestrator' ORDER BY ran_at DESC LIMIT 20;
+
+CREATE TABLE IF NOT EXISTS public.job_run_events (
+  id BIGSERIAL PRIMARY KEY,
+  job_name TEXT NOT NULL,
+  ran_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('success', 'error')),
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  articles_inserted INTEGER NOT NULL DEFAULT 0,
+  articles_updated INTEGER NOT NULL DEFAULT 0,
+  images_enriched INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  host TEXT,
+  stats JSONB,
+  tasks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.job_run_events IS 'Append-only history of cron job runs (job_runs holds the latest run per job)';
+COMMENT ON COLUMN public.job_run_events.stats IS 'Full IngestionStats of the run';
+COMMENT ON COLUMN public.job_run_events.tasks IS 'Per-task name, status, duration and error';
+
+CREATE INDEX IF NOT EXISTS idx_job_run_events_job_ran_at
+  ON public.job_run_events(job_name, ran_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_job_run_events_status_ran_at
+  ON public.job_run_events(status, ran_at DESC);
+
+ALTER TABLE public.job_run_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON public.job_run_events
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT ON public.job_run_events TO anon;
+GRANT SELECT, INSERT ON public.job_run_events TO authenticated;
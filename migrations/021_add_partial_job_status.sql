@@ -0,0 +1,22 @@
+-- Migration: Allow 'partial' job run status
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- The orchestrator and the per-market ingest routes run as task graphs
+-- (lib/taskGraph.ts): each step (ingestion, image enrichment, archiving,
+-- revalidation) has its own status, retries and timeout, and a failing step
+-- no longer skips the independent ones. A run where some tasks failed is
+-- recorded as 'partial'; job_run_events.tasks shows which ones.
+
+ALTER TABLE public.job_runs
+  DROP CONSTRAINT IF EXISTS job_runs_status_check;
+
+ALTER TABLE public.job_runs
+  ADD CONSTRAINT job_runs_status_check CHECK (status IN ('success', 'partial', 'error'));
+
+ALTER TABLE public.job_run_events
+  DROP CONSTRAINT IF EXISTS job_run_events_status_check;
+
+ALTER TABLE public.job_run_events
+  ADD CONSTRAINT job_run_events_status_check CHECK (status IN ('success', 'partial', 'error'));
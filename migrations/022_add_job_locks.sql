@@ -0,0 +1,61 @@
+-- Migration: Add job_locks for lease-based run locks
+-- Run this in Supabase SQL Editor
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- Prevents overlapping runs of the same job (cron-job.org, Vercel cron and
+-- manual triggers hitting /api/orchestrator or the ingest routes at once).
+-- A job holds a lease (one row) until it finishes; a second caller gets
+-- HTTP 409 with the holder's start time. If a run dies without releasing,
+-- its lease expires and the next run reclaims it (lib/jobLocks.ts).
+--
+-- Lock names: 'ingest' (shared by /api/orchestrator, /api/ingest and the
+-- per-type / per-market ingest routes - they ingest overlapping feeds).
+
+CREATE TABLE IF NOT EXISTS public.job_locks (
+  lock_name TEXT PRIMARY KEY,
+  holder_id TEXT NOT NULL,          -- Random ID of the run holding the lease
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  host TEXT
+);
+
+COMMENT ON TABLE public.job_locks IS 'Leases preventing overlapping runs of a job';
+
+ALTER TABLE public.job_locks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON public.job_locks
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.job_locks TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.job_locks TO authenticated;
+
+-- Take the lease if it is free or expired; returns the current row either
+-- way (the caller holds the lock if holder_id is its own). A concurrent
+-- insert of the same name waits for the other one to commit, then sees an
+-- unexpired lease and leaves it alone.
+CREATE OR REPLACE FUNCTION public.acquire_job_lock(
+  p_lock_name TEXT,
+  p_holder_id TEXT,
+  p_lease_seconds INTEGER,
+  p_host TEXT DEFAULT NULL
+)
+RETURNS SETOF public.job_locks
+LANGUAGE sql
+AS $$
+  INSERT INTO public.job_locks AS l (lock_name, holder_id, acquired_at, expires_at, host)
+  VALUES (p_lock_name, p_holder_id, NOW(), NOW() + make_interval(secs => p_lease_seconds), p_host)
+  ON CONFLICT (lock_name) DO UPDATE
+    SET holder_id = EXCLUDED.holder_id,
+        acquired_at = EXCLUDED.acquired_at,
+        expires_at = EXCLUDED.expires_at,
+        host = EXCLUDED.host
+    WHERE l.expires_at < NOW();
+
+  SELECT * FROM public.job_locks WHERE lock_name = p_lock_name;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.acquire_job_lock(TEXT, TEXT, INTEGER, TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION public.acquire_job_lock(TEXT, TEXT, INTEGER, TEXT) TO authenticated;
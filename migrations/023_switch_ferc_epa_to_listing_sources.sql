@@ -0,0 +1,41 @@
+-- Migration: Point the FERC and EPA sources at their news listing pages
+-- Run this in Supabase SQL Editor (after 008_add_feed_kind.sql)
+-- Date: 2026-10-19
+--
+-- PURPOSE:
+-- FERC's RSS feed returns 403 and EPA's RSS URL returns HTML, so both are
+-- disabled. They are to be scraped from their news listing pages as
+-- 'html-list' sources. seedFeeds() never overwrites existing rows, so this
+-- points the existing FERC and EPA rows at the listing pages - the same
+-- config as the seed in lib/feeds.ts.
+--
+-- The rows stay disabled: the selectors are unverified against the live
+-- pages. Enable a source (PATCH /api/admin/feeds/<id>) only after
+-- `TEST_SOURCE=FERC npm run test:feeds` (or EPA) passes.
+
+UPDATE public.feeds
+SET url = 'https://www.ferc.gov/news-events/news',
+    kind = 'html-list',
+    adapter_config = '{
+      "itemSelector": "div.views-row",
+      "title": {"selector": "a"},
+      "link": {"selector": "a", "attr": "href"},
+      "date": {"selector": "time", "attr": "datetime"},
+      "maxItems": 20
+    }'::jsonb,
+    updated_at = NOW()
+WHERE name = 'FERC';
+
+UPDATE public.feeds
+SET url = 'https://www.epa.gov/newsreleases/search',
+    kind = 'html-list',
+    adapter_config = '{
+      "itemSelector": "li.usa-collection__item",
+      "title": {"selector": ".usa-collection__heading a"},
+      "link": {"selector": ".usa-collection__heading a", "attr": "href"},
+      "date": {"selector": "time", "attr": "datetime"},
+      "summary": {"selector": ".usa-collection__description"},
+      "maxItems": 20
+    }'::jsonb,
+    updated_at = NOW()
+WHERE name = 'EPA';
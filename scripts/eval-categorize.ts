@@ -0,0 +1,250 @@
+/**
+ * Categorizer Evaluation Script
+ *
+ * Run with: npm run eval:categorize
+ *
+ * Runs categorizeArticleWithDetails over the labeled gold set
+ * (scripts/fixtures/categorize-gold.json) and reports accuracy, per-category
+ * precision/recall, a confusion matrix, sub-topic accuracy and regressions
+ * against the saved baseline (scripts/fixtures/categorize-baseline.json).
+ *
+ * Exits with code 1 when category or sub-topic accuracy is below
+ * MIN_ACCURACY, or category accuracy dropped more than MAX_ACCURACY_DROP
+ * below the baseline, so it can gate rule changes.
+ *
+ * Options (via environment variables):
+ *   RULESET_FILE=path      - Evaluate a candidate ruleset JSON instead of the built-in one
+ *   MIN_ACCURACY=0.85      - Minimum accuracy (default 0.85)
+ *   MAX_ACCURACY_DROP=0.02 - Allowed drop vs. baseline accuracy (default 0.02)
+ *   UPDATE_BASELINE=true   - Save this run as the new baseline
+ *   VERBOSE=true           - Show fired/suppressed keywords for misclassified items
+ *
+ * Examples:
+ *   npm run eval:categorize
+ *   RULESET_FILE=candidate.json npm run eval:categorize
+ *   UPDATE_BASELINE=true npm run eval:categorize   # After an intended improvement
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import {
+  categorizeArticleWithDetails,
+  getAllCategories,
+  DEFAULT_CATEGORY_RULESET,
+} from '../lib/categorize';
+import { validateCategoryRuleset } from '../lib/categoryRules';
+import { ArticleCategory, ArticleSubcategory, CategoryRuleset } from '../types/article';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures');
+const GOLD_FILE = join(FIXTURES_DIR, 'categorize-gold.json');
+const BASELINE_FILE = join(FIXTURES_DIR, 'categorize-baseline.json');
+
+const MIN_ACCURACY = parseFloat(process.env.MIN_ACCURACY || '0.85');
+const MAX_ACCURACY_DROP = parseFloat(process.env.MAX_ACCURACY_DROP || '0.02');
+
+/**
+ * Labeled gold set entry
+ */
+interface GoldItem {
+  id: string;
+  title: string;
+  snippet?: string;
+  expected: ArticleCategory;
+  expectedSubcategory?: ArticleSubcategory; // Absent = no sub-topic expected
+  notes?: string;
+}
+
+/**
+ * Saved result of an accepted run
+ */
+interface Baseline {
+  rulesVersion: string;
+  createdAt: string;
+  accuracy: number;
+  subcategoryAccuracy?: number;
+  perCategory: Record<string, { precision: number; recall: number; f1: number }>;
+  predictions: Record<string, ArticleCategory>;
+}
+
+function loadRuleset(): CategoryRuleset {
+  const file = process.env.RULESET_FILE;
+  if (!file) return DEFAULT_CATEGORY_RULESET;
+
+  const ruleset = JSON.parse(readFileSync(file, 'utf8'));
+  const validationError = validateCategoryRuleset(ruleset);
+  if (validationError) {
+    console.error(`❌ Invalid ruleset in ${file}: ${validationError}`);
+    process.exit(1);
+  }
+  return ruleset as CategoryRuleset;
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function main() {
+  const ruleset = loadRuleset();
+  const gold: GoldItem[] = JSON.parse(readFileSync(GOLD_FILE, 'utf8'));
+  const baseline: Baseline | null = existsSync(BASELINE_FILE)
+    ? JSON.parse(readFileSync(BASELINE_FILE, 'utf8'))
+    : null;
+  const categories = getAllCategories();
+
+  console.log('='.repeat(60));
+  console.log('CATEGORIZER EVALUATION');
+  console.log('='.repeat(60));
+  console.log(`Ruleset: ${ruleset.version}`);
+  console.log(`Gold set: ${gold.length} items`);
+  console.log(`Baseline: ${baseline ? `${baseline.rulesVersion} (${pct(baseline.accuracy)})` : 'none'}`);
+
+  // confusion[expected][predicted]
+  const confusion: Record<string, Record<string, number>> = {};
+  for (const expected of categories) {
+    confusion[expected] = {};
+    for (const predicted of categories) confusion[expected][predicted] = 0;
+  }
+
+  const predictions: Record<string, ArticleCategory> = {};
+  const misses: { item: GoldItem; predicted: ArticleCategory; details: ReturnType<typeof categorizeArticleWithDetails> }[] = [];
+  const subcategoryMisses: { item: GoldItem; predicted: ArticleSubcategory | null }[] = [];
+
+  for (const item of gold) {
+    const details = categorizeArticleWithDetails(item.title, item.snippet, ruleset);
+    predictions[item.id] = details.category;
+    confusion[item.expected][details.category]++;
+    if (details.category !== item.expected) {
+      misses.push({ item, predicted: details.category, details });
+    }
+    if (details.subcategory !== (item.expectedSubcategory ?? null)) {
+      subcategoryMisses.push({ item, predicted: details.subcategory });
+    }
+  }
+
+  const correct = gold.length - misses.length;
+  const accuracy = gold.length > 0 ? correct / gold.length : 0;
+  const subcategoryAccuracy = gold.length > 0 ? (gold.length - subcategoryMisses.length) / gold.length : 0;
+
+  // Per-category precision / recall
+  const perCategory: Baseline['perCategory'] = {};
+  console.log('\n📊 Per-category results:');
+  console.log(`  ${'Category'.padEnd(18)} ${'Precision'.padStart(9)} ${'Recall'.padStart(8)} ${'F1'.padStart(7)} ${'Support'.padStart(8)}`);
+  for (const category of categories) {
+    const truePositives = confusion[category][category];
+    const predictedCount = categories.reduce((sum, expected) => sum + confusion[expected][category], 0);
+    const support = categories.reduce((sum, predicted) => sum + confusion[category][predicted], 0);
+    const precision = predictedCount > 0 ? truePositives / predictedCount : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    perCategory[category] = { precision, recall, f1 };
+
+    console.log(
+      `  ${category.padEnd(18)} ${pct(precision).padStart(9)} ${pct(recall).padStart(8)} ${pct(f1).padStart(7)} ${String(support).padStart(8)}`
+    );
+  }
+
+  // Confusion matrix (rows = expected, columns = predicted)
+  const abbreviations = categories.map((c) => c.split(' ').map((w) => w[0]).join('').slice(0, 3).padStart(5));
+  console.log('\n🔀 Confusion matrix (rows = expected, columns = predicted):');
+  console.log(`  ${''.padEnd(18)}${abbreviations.join('')}`);
+  for (const expected of categories) {
+    const row = categories.map((predicted) => String(confusion[expected][predicted]).padStart(5)).join('');
+    console.log(`  ${expected.padEnd(18)}${row}`);
+  }
+
+  if (misses.length > 0) {
+    console.log(`\n❌ Misclassified (${misses.length}):`);
+    for (const { item, predicted, details } of misses) {
+      console.log(`  [${item.id}] expected ${item.expected}, got ${predicted}: ${item.title}`);
+      if (process.env.VERBOSE === 'true') {
+        for (const explanation of details.explanations) {
+          const label = explanation.subcategory
+            ? `${explanation.category} > ${explanation.subcategory}`
+            : explanation.category;
+          const fired = explanation.fired.map((m) => `${m.keyword} ("${m.text}")`).join(', ') || '-';
+          console.log(`      ${label}: ${fired}`);
+          for (const s of explanation.suppressed) {
+            console.log(`      ${label}: suppressed ${s.keyword} by "${s.suppressedBy}"`);
+          }
+        }
+      }
+    }
+  }
+
+  if (subcategoryMisses.length > 0) {
+    console.log(`\n❌ Wrong sub-topic (${subcategoryMisses.length}):`);
+    for (const { item, predicted } of subcategoryMisses) {
+      console.log(`  [${item.id}] expected ${item.expectedSubcategory ?? 'none'}, got ${predicted ?? 'none'}: ${item.title}`);
+    }
+  }
+
+  // Regressions against the baseline
+  let failedBaseline = false;
+  if (baseline) {
+    const regressions = gold.filter(
+      (item) => baseline.predictions[item.id] === item.expected && predictions[item.id] !== item.expected
+    );
+    const fixes = gold.filter(
+      (item) => baseline.predictions[item.id] !== undefined &&
+        baseline.predictions[item.id] !== item.expected &&
+        predictions[item.id] === item.expected
+    );
+
+    const f1Changes = categories
+      .map((category) => ({
+        category,
+        delta: perCategory[category].f1 - (baseline.perCategory[category]?.f1 ?? 0),
+      }))
+      .sort((a, b) => a.delta - b.delta);
+
+    console.log(`\n📉 Against baseline ${baseline.rulesVersion}:`);
+    console.log(`  Accuracy: ${pct(baseline.accuracy)} → ${pct(accuracy)}`);
+    console.log(`  Fixed: ${fixes.length}, Regressed: ${regressions.length}`);
+    console.log('  F1 change by category (biggest drop first):');
+    for (const { category, delta } of f1Changes) {
+      const sign = delta > 0 ? '+' : '';
+      console.log(`    ${category.padEnd(18)} ${sign}${(delta * 100).toFixed(1)} pts`);
+    }
+    if (regressions.length > 0) {
+      console.log('  Regressed items:');
+      for (const item of regressions) {
+        console.log(`    [${item.id}] ${item.expected} → ${predictions[item.id]}: ${item.title}`);
+      }
+    }
+
+    failedBaseline = accuracy < baseline.accuracy - MAX_ACCURACY_DROP;
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log(`Accuracy: ${pct(accuracy)} (${correct}/${gold.length}), minimum ${pct(MIN_ACCURACY)}`);
+  console.log(`Sub-topic accuracy: ${pct(subcategoryAccuracy)} (${gold.length - subcategoryMisses.length}/${gold.length})`);
+
+  if (process.env.UPDATE_BASELINE === 'true') {
+    const newBaseline: Baseline = {
+      rulesVersion: ruleset.version,
+      createdAt: new Date().toISOString(),
+      accuracy,
+      subcategoryAccuracy,
+      perCategory,
+      predictions,
+    };
+    writeFileSync(BASELINE_FILE, JSON.stringify(newBaseline, null, 2) + '\n');
+    console.log(`💾 Baseline saved to ${BASELINE_FILE}`);
+  }
+
+  if (accuracy < MIN_ACCURACY) {
+    console.log(`❌ FAILED: accuracy below ${pct(MIN_ACCURACY)}`);
+    process.exit(1);
+  }
+  if (subcategoryAccuracy < MIN_ACCURACY) {
+    console.log(`❌ FAILED: sub-topic accuracy below ${pct(MIN_ACCURACY)}`);
+    process.exit(1);
+  }
+  if (failedBaseline) {
+    console.log(`❌ FAILED: accuracy dropped more than ${pct(MAX_ACCURACY_DROP)} below the baseline`);
+    process.exit(1);
+  }
+  console.log('✅ PASSED');
+}
+
+main();
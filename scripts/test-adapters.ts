@@ -0,0 +1,125 @@
+/**
+ * HTML Listing Adapter Check
+ *
+ * Run with: npm run test:adapters
+ *
+ * Parses a listing fixture of each html-list seed source
+ * (scripts/fixtures/html/<source>.html, e.g. ferc.html) with parseHtmlList
+ * and the seed's adapterConfig, offline. Checks that every entry yields a
+ * title, an absolute link on the source's host and a parseable date.
+ *
+ * Fixtures are either real captures of the listing page or synthetic
+ * samples of its expected markup (each says which in its first line). A
+ * synthetic fixture only checks that the selectors match the markup they
+ * were written for - enable a source only after the live check
+ * `TEST_SOURCE=<name> npm run test:feeds` passes, and replace the sample
+ * with a capture of the live page then.
+ *
+ * Exits with code 1 when a check fails or an enabled html-list seed has
+ * no fixture.
+ *
+ * Options (via environment variables):
+ *   TEST_SOURCE=name  - Check a specific source by name
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { SEED_FEED_SOURCES } from '../lib/feeds';
+import { parseHtmlList } from '../lib/sourceAdapters';
+import { FeedSource } from '../types/article';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'html');
+
+/**
+ * Fixture file of a source ('Federal Register - FERC' -> federal-register-ferc.html)
+ */
+function getFixturePath(feed: FeedSource): string {
+  const slug = feed.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return join(FIXTURES_DIR, `${slug}.html`);
+}
+
+/**
+ * Check one source against its fixture
+ *
+ * @returns Problems found (empty = passed)
+ */
+function checkSource(feed: FeedSource, html: string): string[] {
+  let items;
+  try {
+    items = parseHtmlList(html, feed);
+  } catch (error) {
+    return [`parseHtmlList failed: ${error instanceof Error ? error.message : 'Unknown error'}`];
+  }
+
+  const problems: string[] = [];
+  const host = new URL(feed.url).host;
+
+  items.forEach((item, i) => {
+    const label = `item ${i + 1} ("${(item.title || '').slice(0, 40)}")`;
+    if (!item.title) {
+      problems.push(`${label}: no title`);
+    }
+    if (!item.link || new URL(item.link).host !== host) {
+      problems.push(`${label}: link ${item.link} is not on ${host}`);
+    }
+    if (!item.isoDate) {
+      problems.push(`${label}: unparseable date "${item.pubDate ?? ''}"`);
+    }
+  });
+
+  console.log(`   ${items.length} items`);
+  items.slice(0, 3).forEach((item, i) => {
+    console.log(`   ${i + 1}. ${item.title?.slice(0, 70)}`);
+    console.log(`      ${item.isoDate}  ${item.link}`);
+  });
+
+  return problems;
+}
+
+function main() {
+  const testSource = process.env.TEST_SOURCE;
+  const feeds = SEED_FEED_SOURCES.filter((feed) =>
+    feed.kind === 'html-list' && (!testSource || feed.name.toLowerCase() === testSource.toLowerCase())
+  );
+
+  if (feeds.length === 0) {
+    console.log(`❌ No html-list seed source${testSource ? ` named "${testSource}"` : 's'}`);
+    process.exit(1);
+  }
+
+  let failed = 0;
+  for (const feed of feeds) {
+    const fixturePath = getFixturePath(feed);
+    console.log(`\n${feed.name} (${feed.enabled ? 'enabled' : 'disabled'}) - ${feed.url}`);
+
+    if (!existsSync(fixturePath)) {
+      if (feed.enabled) {
+        console.log(`   ❌ No fixture at ${fixturePath}`);
+        failed++;
+      } else {
+        console.log('   ○ No fixture, skipped');
+      }
+      continue;
+    }
+
+    const html = readFileSync(fixturePath, 'utf8');
+    const problems = checkSource(feed, html);
+    if (problems.length > 0) {
+      problems.forEach((problem) => console.log(`   ❌ ${problem}`));
+      failed++;
+    } else if (html.includes('<!-- SYNTHETIC')) {
+      console.log('   ✅ OK (synthetic fixture - not verified against the live page)');
+    } else {
+      console.log('   ✅ OK');
+    }
+  }
+
+  console.log('');
+  if (failed > 0) {
+    console.log(`❌ FAILED: ${failed}/${feeds.length} sources`);
+    process.exit(1);
+  }
+  console.log(`✅ PASSED: ${feeds.length} sources`);
+}
+
+main();
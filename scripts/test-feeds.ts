@@ -29,6 +29,7 @@ async function testSingleFeed(feed: FeedSource) {
   console.log(`\n${'='.repeat(60)}`);
   console.log(`Testing: ${feed.name}`);
   console.log(`URL: ${feed.url}`);
+  console.log(`Kind: ${feed.kind || 'rss'}`);
   console.log(`Enabled: ${feed.enabled}`);
   console.log('='.repeat(60));
 
@@ -133,8 +134,9 @@ async function testAllFeeds(feeds: FeedSource[], sequential: boolean = false) {
   }
 
   // Recommendations
+  const enabledFeeds = await getEnabledFeeds();
   const workingDisabled = stats.perSource.filter(
-    (s) => s.status === 'success' && !getEnabledFeeds().find((f) => f.name === s.name)
+    (s) => s.status === 'success' && !enabledFeeds.find((f) => f.name === s.name)
   );
   
   if (workingDisabled.length > 0) {
@@ -157,11 +159,11 @@ async function main() {
 
   // Mode 1: Test a specific source
   if (testSource) {
-    const feed = getFeedByName(testSource);
+    const feed = await getFeedByName(testSource);
     if (!feed) {
       console.error(`❌ Feed not found: "${testSource}"`);
       console.log('\nAvailable feeds:');
-      getAllFeeds().forEach((f) => console.log(`  - ${f.name}`));
+      (await getAllFeeds()).forEach((f) => console.log(`  - ${f.name}`));
       process.exit(1);
     }
     await testSingleFeed(feed);
@@ -169,7 +171,7 @@ async function main() {
   }
 
   // Mode 2: Test all feeds or just enabled
-  const feeds = testAll ? getAllFeeds() : getEnabledFeeds();
+  const feeds = testAll ? await getAllFeeds() : await getEnabledFeeds();
   
   if (feeds.length === 0) {
     console.log('No feeds to test. Enable some feeds or use TEST_ALL=true');
@@ -18,6 +18,157 @@ export type ArticleCategory =
   | 'Emissions'
   | 'Infrastructure';
 
+/**
+ * Sub-topic union type
+ * 
+ * Second level of the taxonomy: each sub-topic belongs to one of the
+ * categories above (see CATEGORY_TAXONOMY in lib/categorize.ts).
+ */
+export type ArticleSubcategory =
+  | 'Nuclear'
+  | 'Oil'
+  | 'Hydrogen'
+  | 'Grid Storage'
+  | 'Critical Minerals';
+
+/**
+ * Category label with normalized confidence (0-1)
+ * 
+ * Labels of an article sum to 1; the highest is the primary `category`.
+ */
+export interface CategoryScore {
+  category: ArticleCategory;
+  confidence: number;
+  subcategory?: ArticleSubcategory | null; // Best matching sub-topic of this category
+}
+
+/**
+ * Keyword rules for one category
+ * 
+ * Keywords are matched as whole words / consecutive words after stemming
+ * (see lib/categorize.ts).
+ */
+export interface CategoryRule {
+  category: ArticleCategory;
+  strongKeywords: string[];  // 3 points each
+  keywords: string[];        // 1 point each
+  proximityPhrases?: ProximityPhrase[]; // 2 points each
+  negativeKeywords?: string[]; // Suppress overlapping keyword matches (e.g., 'wind down')
+  subcategories?: SubcategoryRule[]; // Sub-topics (their points count toward this category)
+}
+
+/**
+ * Keyword rules for one sub-topic of a category
+ */
+export interface SubcategoryRule extends Omit<CategoryRule, 'category' | 'subcategories'> {
+  subcategory: ArticleSubcategory;
+}
+
+/**
+ * Terms that must occur within `within` words of each other (any order)
+ */
+export interface ProximityPhrase {
+  terms: string[];
+  within: number;
+}
+
+/**
+ * Versioned set of categorization rules
+ * 
+ * The built-in ruleset lives in lib/rules/category-rules.json; others are
+ * stored in the `category_rulesets` table. On equal scores the category
+ * listed first ranks first.
+ */
+export interface CategoryRuleset {
+  version: string;       // e.g., '2026-10-19.1' - stored on each article
+  description?: string;
+  categories: CategoryRule[];
+}
+
+/**
+ * Database row type for the `category_rulesets` table
+ */
+export interface CategoryRulesetRow {
+  version: string;
+  rules: CategoryRuleset;
+  is_active: boolean;    // At most one active ruleset (used by ingestion)
+  notes: string | null;
+  created_at: string;
+  activated_at: string | null;
+}
+
+/**
+ * Database row type for the `article_categories` table
+ * 
+ * One row per label of an article (multi-label categorization).
+ */
+export interface ArticleCategoryRow {
+  article_id: string;
+  category: ArticleCategory;
+  subcategory: ArticleSubcategory | null; // Sub-topic of this label, if any
+  confidence: number;   // 0-1
+  rank: number;         // 0 = primary label (same as articles.category)
+  created_at: string;
+}
+
+/**
+ * Kind of named entity (see lib/entities.ts)
+ */
+export type EntityType = 'company' | 'agency' | 'state' | 'iso' | 'country';
+
+/**
+ * Gazetteer entity found in an article
+ */
+export interface EntityMention {
+  entityId: string;      // e.g., 'company:xom', 'agency:ferc', 'iso:ercot'
+  type: EntityType;
+  name: string;          // Canonical name
+  ticker: string | null; // Companies only
+  mentions: number;      // Mentions in title + snippet
+}
+
+/**
+ * Database row type for the `article_entities` table
+ * 
+ * One row per entity mentioned in an article.
+ */
+export interface ArticleEntityRow {
+  article_id: string;
+  entity_id: string;
+  entity_type: EntityType;
+  name: string;
+  ticker: string | null;
+  mention_count: number;
+  created_at: string;
+}
+
+/**
+ * Market sentiment of an article
+ */
+export type MarketSentiment = 'bullish' | 'bearish' | 'neutral';
+
+/**
+ * Date or deadline mentioned in an article
+ */
+export interface SummaryDeadline {
+  date: string;        // YYYY-MM-DD
+  description: string; // e.g., 'Comments due on the proposed rule'
+}
+
+/**
+ * Structured summary (articles.structured_summary JSONB)
+ * 
+ * Produced by summarizeArticle in structured mode and validated with
+ * validateStructuredSummary (lib/summarize.ts).
+ */
+export interface StructuredSummary {
+  summary: string;         // 2-3 sentences (same as articles.summary)
+  keyPoints: string[];     // Up to 5 bullet points
+  organizations: string[]; // Companies, agencies, utilities mentioned
+  deadlines: SummaryDeadline[];
+  sentiment: MarketSentiment;
+}
+
 /**
  * Full article row as stored in the database
  * 
@@ -25,27 +176,94 @@ export type ArticleCategory =
  * - id: TEXT PRIMARY KEY
  * - title: TEXT NOT NULL
  * - summary: TEXT NOT NULL
+ * - snippet: TEXT NULL (cleaned feed excerpt, HTML stripped)
+ * - structured_summary: JSONB NULL (key points, organizations, deadlines, sentiment)
  * - link: TEXT NOT NULL
+ * - canonical_url: TEXT NULL (tracking params stripped, Google News unwrapped; used for IDs + dedup)
  * - pub_date: TIMESTAMP NOT NULL
  * - source: TEXT NOT NULL
  * - category: TEXT NOT NULL
+ * - subcategory: TEXT NULL (sub-topic of the primary category, e.g. 'Nuclear')
  * - article_type: TEXT DEFAULT 'policy'
  * - image_url: TEXT NULL (OpenGraph/Twitter card image)
+ * - docket_ids: TEXT[] DEFAULT '{}' (regulatory dockets, e.g. RM22-14, EPA-HQ-OAR-2021-0317)
+ * - agency: TEXT NULL (issuing agency for Federal Register documents)
+ * - document_type: TEXT NULL (proposed_rule, final_rule, notice, presidential_document)
+ * - comment_deadline: DATE NULL (public comment period close date)
+ * - minhash: INTEGER[] NULL (MinHash signature of title + snippet, see lib/fingerprint.ts)
+ * - minhash_bands: TEXT[] NULL (LSH band keys for near-duplicate lookup)
  * - created_at: TIMESTAMP DEFAULT NOW()
  */
 export interface ArticleRow {
   id: string;
   title: string;
   summary: string;
+  snippet?: string | null; // Cleaned feed excerpt (HTML and boilerplate stripped)
+  structured_summary?: StructuredSummary | null;
   link: string;
+  canonical_url?: string | null; // Normalized link used for IDs and dedup
   pub_date: string;      // ISO 8601 timestamp string
   source: string;        // e.g., 'FERC', 'EPA', 'DOE', 'EIA'
-  category: ArticleCategory;
+  category: ArticleCategory;     // Primary label (all labels in article_categories)
+  subcategory?: ArticleSubcategory | null; // Sub-topic of the primary label
+  category_rules_version?: string | null; // Ruleset version that produced the labels
   article_type?: ArticleType; // 'policy' or 'finance'
   image_url?: string | null;  // OpenGraph/Twitter card image URL
+  docket_ids?: string[] | null;  // Regulatory docket IDs mentioned or filed under
+  agency?: string | null;        // Issuing agency (Federal Register documents)
+  document_type?: RegulatoryDocumentType | null;
+  comment_deadline?: string | null; // YYYY-MM-DD
+  minhash?: number[] | null;        // Near-duplicate fingerprint
+  minhash_bands?: string[] | null;  // LSH band keys
+  story_id?: string | null;         // Story cluster (multi-source coverage of one event)
   created_at: string;    // ISO 8601 timestamp string (auto-generated)
 }
 
+/**
+ * Database row type for the `stories` table
+ * 
+ * A story groups coverage of the same event from several sources
+ * (articles.story_id). Maintained by lib/stories.ts after ingestion.
+ */
+export interface StoryRow {
+  id: string;                    // UUID
+  title: string;                 // Lead article title
+  lead_article_id: string | null; // Earliest article of the story
+  article_count: number;
+  source_count: number;
+  sources: string[];             // Distinct article sources
+  first_pub_date: string;        // ISO 8601 timestamp string
+  last_pub_date: string;         // ISO 8601 timestamp string
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Story coverage shown with a lead article
+ */
+export interface StoryCoverage {
+  id: string;
+  articleCount: number;
+  sourceCount: number;
+  otherSources: string[]; // Sources besides the lead article's
+}
+
+/**
+ * Article with its story coverage (getArticles with groupByStory)
+ */
+export type ArticleWithStory = ArticleRow & {
+  story?: StoryCoverage | null;
+};
+
+/**
+ * Type of a regulatory document (Federal Register document types)
+ */
+export type RegulatoryDocumentType =
+  | 'proposed_rule'
+  | 'final_rule'
+  | 'notice'
+  | 'presidential_document';
+
 /**
  * Article data for insertion (omits auto-generated fields)
  * 
@@ -65,10 +283,11 @@ export type ArticleInsert = Omit<ArticleRow, 'created_at' | 'image_url'> & {
 export type Article = ArticleRow;
 
 /**
- * Raw RSS feed item before processing
+ * Raw feed item before processing
  * 
- * This represents the structure returned by rss-parser
- * before we transform it into our Article format.
+ * Common shape produced by the per-format mappers in lib/feedFormats.ts
+ * (RSS 2.0, RSS 1.0, Atom, JSON Feed) before we transform it into our
+ * Article format.
  */
 export interface RawFeedItem {
   title?: string;
@@ -86,6 +305,30 @@ export interface RawFeedItem {
   image?: { url?: string } | string;
   'media:content'?: unknown;
   'media:thumbnail'?: unknown;
+  author?: string;
+  categories?: string[];  // Feed-provided categories / tags / subjects
+  updated?: string;       // ISO 8601 last-modified date (Atom <updated>, JSON date_modified)
+  links?: RawFeedLink[];  // All Atom <link> elements
+  regulatory?: RawRegulatoryFields; // Set by the federal-register adapter
+}
+
+/**
+ * Regulatory metadata from a Federal Register-style document listing
+ */
+export interface RawRegulatoryFields {
+  docketIds?: string[];
+  agency?: string;
+  documentType?: RegulatoryDocumentType;
+  commentDeadline?: string; // YYYY-MM-DD
+}
+
+/**
+ * Link element from an Atom entry
+ */
+export interface RawFeedLink {
+  href: string;
+  rel: string;   // alternate, enclosure, related, self, via...
+  type?: string;
 }
 
 /**
@@ -93,6 +336,21 @@ export interface RawFeedItem {
  */
 export type ArticleType = 'policy' | 'finance';
 
+/**
+ * Market a feed's coverage belongs to (matches finance page market tabs)
+ */
+export type FeedMarket = 'US' | 'MZ' | 'QA';
+
+/**
+ * Trust tier of a feed source
+ *
+ * - official: Government agencies and regulators
+ * - trade: Industry trade publications
+ * - news: General news outlets and wire services
+ * - aggregator: Search-based aggregators (e.g., Google News queries)
+ */
+export type FeedTrustTier = 'official' | 'trade' | 'news' | 'aggregator';
+
 /**
  * RSS feed source configuration
  */
@@ -101,5 +359,160 @@ export interface FeedSource {
   url: string;           // RSS feed URL
   enabled: boolean;      // Whether to include in ingestion
   articleType?: ArticleType; // Type of articles from this feed (default: 'policy')
+  market?: FeedMarket;   // Market the coverage belongs to (default: 'US')
+  region?: string;       // Where the publisher is based (e.g., 'US', 'MZ', 'AFRICA', 'GLOBAL')
+  trustTier?: FeedTrustTier; // Source trust tier (default: 'news')
+  kind?: FeedKind;       // How the URL is read (default: 'rss')
+  adapterConfig?: SourceAdapterConfig; // Extraction config for non-RSS kinds
 }
 
+/**
+ * How a feed source is read
+ *
+ * - rss: RSS / Atom / JSON Feed (format auto-detected)
+ * - html-list: News listing page scraped with selector/regex config
+ * - json-api: Arbitrary JSON API mapped with field paths
+ * - federal-register: Federal Register documents API (docket IDs, agency,
+ *   document type and comment deadline are kept; no config needed)
+ */
+export type FeedKind = 'rss' | 'html-list' | 'json-api' | 'federal-register';
+
+/**
+ * How to read one field from an HTML listing entry
+ *
+ * The value is the element's text (or `attr`), optionally narrowed by
+ * `pattern` (first capture group is kept).
+ */
+export interface HtmlFieldSelector {
+  selector?: string; // Simple CSS selector within the entry (tag, .class, #id, descendants)
+  attr?: string;     // Attribute to read instead of text (e.g., 'href', 'datetime')
+  pattern?: string;  // Regex applied to the value; group 1 is kept
+}
+
+/**
+ * Extraction config for an 'html-list' source
+ *
+ * Entries are found with `itemSelector` or, for markup selectors can't
+ * describe, `itemPattern` (each regex match is one entry).
+ */
+export interface HtmlListConfig {
+  itemSelector?: string;
+  itemPattern?: string;
+  title?: HtmlFieldSelector;   // Default: text of the first <a>
+  link?: HtmlFieldSelector;    // Default: href of the first <a>
+  date?: HtmlFieldSelector;
+  summary?: HtmlFieldSelector;
+  baseUrl?: string;            // For relative links (default: feed URL)
+  maxItems?: number;
+}
+
+/**
+ * Extraction config for a 'json-api' source
+ *
+ * All fields are dot paths (e.g., 'results', 'data.items', 'links.self').
+ */
+export interface JsonApiConfig {
+  itemsPath: string;   // Path to the item array ('' = response root)
+  title: string;
+  link: string;
+  date?: string;
+  summary?: string;
+  id?: string;         // Stable identifier used as guid (default: link)
+  baseUrl?: string;    // For relative links (default: feed URL)
+}
+
+/**
+ * Adapter config stored with a feed (shape depends on FeedKind)
+ */
+export type SourceAdapterConfig = HtmlListConfig | JsonApiConfig;
+
+/**
+ * Feed registry row as stored in the database
+ *
+ * Matches Supabase `feeds` table schema:
+ * - id: UUID PRIMARY KEY
+ * - name: TEXT UNIQUE NOT NULL
+ * - url: TEXT NOT NULL
+ * - enabled: BOOLEAN NOT NULL
+ * - article_type: TEXT DEFAULT 'policy'
+ * - market: TEXT DEFAULT 'US'
+ * - region: TEXT NULL
+ * - trust_tier: TEXT DEFAULT 'news'
+ * - kind: TEXT DEFAULT 'rss' (migration 008; 'federal-register' added in 009)
+ * - adapter_config: JSONB NULL (selector / field-path config for non-RSS kinds)
+ * - notes: TEXT NULL (free-form admin notes, e.g. why a feed is disabled)
+ * - created_at / updated_at: TIMESTAMPTZ
+ */
+export interface FeedRow {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  article_type: ArticleType;
+  market: FeedMarket;
+  region: string | null;
+  trust_tier: FeedTrustTier;
+  kind: FeedKind;
+  adapter_config: SourceAdapterConfig | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Per-feed HTTP fetch state as stored in the database
+ *
+ * Matches Supabase `feed_fetch_state` table schema:
+ * - feed_name: TEXT PRIMARY KEY (FeedSource.name)
+ * - url: TEXT NOT NULL (validators are only reused while the URL is unchanged)
+ * - etag: TEXT NULL (ETag from the last 200 response)
+ * - last_modified: TEXT NULL (Last-Modified from the last 200 response)
+ * - last_http_status: INTEGER NULL
+ * - last_item_count: INTEGER NULL (items in the last full 200 response)
+ * - last_fetched_at: TIMESTAMPTZ NOT NULL
+ * - health_status: TEXT (see FeedHealthStatus)
+ * - consecutive_failures: INTEGER NOT NULL DEFAULT 0
+ * - last_success_at / last_failure_at: TIMESTAMPTZ NULL
+ * - last_error / last_error_class: TEXT NULL
+ * - next_attempt_at: TIMESTAMPTZ NULL (feed is skipped until then)
+ */
+export interface FeedFetchStateRow {
+  feed_name: string;
+  url: string;
+  etag: string | null;
+  last_modified: string | null;
+  last_http_status: number | null;
+  last_item_count: number | null;
+  last_fetched_at: string;
+  health_status: FeedHealthStatus;
+  consecutive_failures: number;
+  last_success_at: string | null;
+  last_failure_at: string | null;
+  last_error: string | null;
+  last_error_class: FeedErrorClass | null;
+  next_attempt_at: string | null;
+}
+
+/**
+ * Feed health status
+ *
+ * - healthy: Last fetch succeeded
+ * - degraded: Failing, but below the back-off threshold
+ * - backoff: Repeated failures - skipped until next_attempt_at
+ * - quarantined: Persistent failures - only re-probed at the maximum interval
+ */
+export type FeedHealthStatus = 'healthy' | 'degraded' | 'backoff' | 'quarantined';
+
+/**
+ * Classification of a failed fetch (derived from FetchFeedResult.diagnostics)
+ */
+export type FeedErrorClass =
+  | 'forbidden'      // 401 / 403 (bot protection, auth)
+  | 'not_found'      // 404 / 410
+  | 'rate_limited'   // 429
+  | 'http_client'    // Other 4xx
+  | 'http_server'    // 5xx
+  | 'html_response'  // 200 but HTML instead of a feed
+  | 'parse_error'    // Body could not be parsed as a feed
+  | 'timeout'        // Request timed out
+  | 'network';       // DNS, TLS, connection reset, etc.